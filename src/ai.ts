@@ -1,19 +1,41 @@
 import dotenv from 'dotenv';
-import OpenAI from 'openai';
-import { DetectedIssue, PostHogEvent } from './posthog';
+import { DetectedIssue, ISSUE_CATEGORIES, IssueCategory, PostHogEvent } from './posthog';
 import * as fs from 'fs';
-import { ProcessedRRwebData, ProcessedRRwebEvent } from './rrweb';
+import { KeyMoment, ProcessedRRwebData, ProcessedRRwebEvent, SyncedKeyMoment, createEnhancedContextForOpenAI } from './rrweb';
+import { ScreenshotRecord, loadLatestScreenshotManifest } from './screenshot';
+import { getConfig } from './config';
+import { LlmContentPart, LlmJsonSchema, LlmMessage, LlmProvider, createProviderFromConfig } from './llm';
+import { Session, buildSessions } from './sessions';
+import { RuleFinding, getEvidenceWeight } from './rules';
+import { OmittedContext, createTokenBudget, describeOmittedContext, estimateImageTokens, estimateTextTokens } from './contextBudget';
+import { createRedactor, saveRedactionReport } from './redaction';
+import { computeIssueFingerprint } from './issueStore';
+import { createCachedProvider, isLlmCacheMissError } from './llmCache';
 import path from 'path';
 
 // Load environment variables
 dotenv.config();
 
-// Constants for optimization
-const MAX_SCREENSHOTS = 3;
-const MAX_EVENTS_PER_SESSION = 10;
-const MAX_SESSIONS = 3;
-const TIME_WINDOW_MS = 5000; // 5 second window for contextual events
-const MAX_JSON_PREVIEW_LENGTH = 2000;
+// Constants
+const MAX_SELECTOR_LENGTH = 300;
+const OMITTED_CONTEXT_TOKENS = 150;
+const MAX_EXAMPLE_SESSIONS = 5;
+// Part of the LLM cache key; bump it when the reply validation changes, so cached replies are asked for again
+const ANALYSIS_PROMPT_VERSION = '1';
+const VALID_SEVERITIES: DetectedIssue['severity'][] = ['low', 'medium', 'high'];
+const PLACEHOLDER_VALUES = ['', 'n/a', 'na', 'none', 'null', 'unknown', 'not applicable'];
+
+/**
+ * RRweb replay data that accompanies the PostHog events in an analysis run
+ */
+export interface RRwebAnalysisContext {
+  /** Processed RRweb sessions */
+  sessions: ProcessedRRwebData[];
+  /** Key moments already synced with PostHog events */
+  keyMoments: SyncedKeyMoment[];
+  /** Screenshots captured from the sessions */
+  screenshots: ScreenshotRecord[];
+}
 
 // Simple logger interface
 interface Logger {
@@ -24,48 +46,131 @@ interface Logger {
 
 // Create a simple logger
 const logger: Logger = {
-  info: (message: string) => console.log(`[INFO] ${message}`),
+  info: (message: string) => console.error(`[INFO] ${message}`),
   warn: (message: string) => console.warn(`[WARN] ${message}`),
   error: (message: string) => console.error(`[ERROR] ${message}`)
 };
 
 /**
- * Groups events by session ID
- * @param events Array of PostHog events
- * @returns Array of objects containing sessionId and corresponding events
+ * System prompt used for the multimodal analysis request
  */
-function groupEventsBySession(events: PostHogEvent[]): { sessionId: string; events: PostHogEvent[] }[] {
-  const sessions: Record<string, PostHogEvent[]> = {};
-  
-  events.forEach(event => {
-    const sessionId = event.properties?.$session_id;
-    if (sessionId) {
-      if (!sessions[sessionId]) {
-        sessions[sessionId] = [];
+const ANALYSIS_SYSTEM_PROMPT = `You are an expert UX analyst. Analyze the provided PostHog events and screenshots to identify potential UX issues.
+          
+Focus on:
+1. Dead clicks (user clicked but nothing happened)
+2. Rage clicks (user repeatedly clicked in frustration)
+3. Error states
+4. Confusing navigation
+5. Form submission issues
+6. Performance problems
+
+When a session replay analysis is included, treat its key moments (rage clicks, dead clicks,
+form abandonment, hesitation, navigation loops, etc.) as primary evidence and cite them,
+with their session IDs and timestamps, in the issue description.
+
+For each screenshot provided:
+- Describe what you see in the UI
+- Identify any visual issues or problems (misalignments, poor contrast, etc.)
+- Note any elements that appear to be the target of user interaction
+- Describe the visual state of the UI (loading, error, success, etc.)
+- Identify any UI elements that might be causing confusion or frustration
+
+Respond with a JSON object of the form { "issues": [...] } where each issue has:
+- title: Clear, concise description of the issue
+- category: One of ${ISSUE_CATEGORIES.join(', ')}
+- severity: "low", "medium" or "high" based on user impact
+- description: Detailed explanation including affected user flow and evidence from the data
+- visualAnalysis: Describe what you see in the screenshots related to this issue (null if no screenshot is relevant)
+- pageUrl: Absolute URL where the issue occurs, copied exactly from the data (null if unknown)
+- elementSelector: CSS selector of the UI element with the issue, taken from the event data (null if no element is involved)
+- suggestedFix: Concrete recommendation to resolve the issue
+
+The visualAnalysis field should include detailed descriptions of what you observe in the screenshots, such as:
+- The specific part of the UI where the issue occurs
+- The visual state of elements (e.g., "button appears disabled but is receiving clicks") 
+- Any visual cues that might mislead users
+- Layout or design issues contributing to the problem
+
+DO NOT MAKE UP ISSUES THAT ARE NOT EVIDENT IN THE DATA.
+If no issues are detected, respond with { "issues": [] }.`;
+
+/**
+ * JSON schema the model's structured output must conform to
+ */
+const ISSUE_RESPONSE_SCHEMA: LlmJsonSchema = {
+  name: 'detected_issues',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['issues'],
+    properties: {
+      issues: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['title', 'category', 'severity', 'description', 'visualAnalysis', 'pageUrl', 'elementSelector', 'suggestedFix'],
+          properties: {
+            title: { type: 'string' },
+            category: { type: 'string', enum: ISSUE_CATEGORIES },
+            severity: { type: 'string', enum: VALID_SEVERITIES },
+            description: { type: 'string' },
+            visualAnalysis: { type: ['string', 'null'] },
+            pageUrl: { type: ['string', 'null'] },
+            elementSelector: { type: ['string', 'null'] },
+            suggestedFix: { type: ['string', 'null'] }
+          }
+        }
       }
-      sessions[sessionId].push(event);
     }
-  });
-  
-  return Object.entries(sessions).map(([sessionId, events]) => ({
-    sessionId,
-    events
-  }));
+  }
+};
+
+/**
+ * A session packed into the analysis request
+ */
+interface PackedSession {
+  session: Session;
+  /** Events of the session sent to the model */
+  events: PostHogEvent[];
 }
 
 /**
- * Selects the most relevant sessions based on number of events
- * @param sessions Array of session objects with events
- * @param maxSessions Maximum number of sessions to select
- * @returns Array of selected session objects
+ * A screenshot packed into the analysis request
  */
-function selectRelevantSessions(
-  sessions: { sessionId: string; events: PostHogEvent[] }[],
-  maxSessions: number
-): { sessionId: string; events: PostHogEvent[] }[] {
-  return [...sessions]
-    .sort((a, b) => b.events.length - a.events.length)
-    .slice(0, maxSessions);
+interface PackedScreenshot {
+  record: ScreenshotRecord;
+  /** Text sent after the image */
+  info: string;
+  /** Element context from the events around the screenshot, or empty */
+  elementContext: string;
+}
+
+/**
+ * Ranks sessions by what they can tell about issues
+ *
+ * Key moments and PostHog events count with the weight of the rule that scores
+ * them, other key moments count once, and the number of events breaks ties.
+ *
+ * @param sessions Sessions with their events
+ * @param keyMoments RRweb key moments of the sessions
+ * @returns Sessions, most valuable first
+ */
+function rankSessions(sessions: Session[], keyMoments: KeyMoment[]): Session[] {
+  const values = new Map<Session, number>();
+  const momentValues = new Map<string, number>();
+  
+  keyMoments
+    .filter(moment => moment.type !== 'SessionMetrics')
+    .forEach(moment => {
+      momentValues.set(moment.sessionId, (momentValues.get(moment.sessionId) || 0) + Math.max(1, getEvidenceWeight(moment.type)));
+    });
+  sessions.forEach(session => {
+    const eventValue = session.events.reduce((sum, event) => sum + getEvidenceWeight(event.event), 0);
+    values.set(session, (momentValues.get(session.id) || 0) + eventValue);
+  });
+  
+  return [...sessions].sort((a, b) => (values.get(b)! - values.get(a)!) || (b.events.length - a.events.length));
 }
 
 /**
@@ -98,64 +203,57 @@ function selectRelevantEvents(events: PostHogEvent[], maxEvents: number): PostHo
 }
 
 /**
- * Find screenshots that correspond with events that have element information
- * @param screenshotFiles Array of screenshot filenames
+ * Find screenshots that correspond with key moments and events that have element information
+ * @param screenshots Screenshots captured from the sessions
  * @param events Array of PostHog events with element information
  * @param maxScreenshots Maximum number of screenshots to return
- * @returns Array of screenshot filenames prioritized by relevance
+ * @param keyMoments RRweb key moments whose timestamps should also attract screenshots
+ * @returns Screenshots prioritized by relevance
  */
 function selectRelevantScreenshots(
-  screenshotFiles: string[],
+  screenshots: ScreenshotRecord[],
   events: PostHogEvent[],
-  maxScreenshots: number
-): string[] {
-  // Extract timestamps from events with element information
+  maxScreenshots: number,
+  keyMoments: KeyMoment[] = []
+): ScreenshotRecord[] {
+  // Extract timestamps from events with element information and from replay key moments
   const eventTimestamps = events
     .filter(event => 
       event.properties?.$el_text || 
       event.properties?.$el_selector ||
       event.event === '$rageclick'
     )
-    .map(event => event.timestamp || 0);
+    .map(event => new Date(event.timestamp).getTime())
+    .concat(keyMoments.filter(moment => moment.type !== 'SessionMetrics').map(moment => moment.timestamp))
+    .filter(timestamp => !isNaN(timestamp));
   
-  // Extract timestamps from screenshot filenames
-  const screenshotsWithTimestamps = screenshotFiles.map(filename => {
-    const match = filename.match(/time_(\d+)\.png/);
-    return {
-      filename,
-      timestamp: match ? parseInt(match[1]) : 0
-    };
-  });
+  const sortedScreenshots = [...screenshots];
   
   // If we have event timestamps, find screenshots closest to those timestamps
   if (eventTimestamps.length > 0) {
-    screenshotsWithTimestamps.sort((a, b) => {
-      const aClosestDiff = Math.min(...eventTimestamps.map(t => Math.abs(Number(t) - a.timestamp)));
-      const bClosestDiff = Math.min(...eventTimestamps.map(t => Math.abs(Number(t) - b.timestamp)));
+    sortedScreenshots.sort((a, b) => {
+      const aClosestDiff = Math.min(...eventTimestamps.map(t => Math.abs(t - a.timestamp)));
+      const bClosestDiff = Math.min(...eventTimestamps.map(t => Math.abs(t - b.timestamp)));
       return aClosestDiff - bClosestDiff;
     });
   }
   
-  return screenshotsWithTimestamps.slice(0, maxScreenshots).map(s => s.filename);
+  return sortedScreenshots.slice(0, maxScreenshots);
 }
 
 /**
  * For a given screenshot, find related element information from nearby events
- * @param screenshotFilename Filename of the screenshot
+ * @param screenshot The screenshot record
  * @param events Array of PostHog events
  * @returns Context string containing element information, or empty string if none found
  */
-function getElementContextForScreenshot(screenshotFilename: string, events: PostHogEvent[]): string {
-  // Extract timestamp from screenshot filename
-  const match = screenshotFilename.match(/time_(\d+)\.png/);
-  if (!match) return '';
-  
-  const screenshotTimestamp = parseInt(match[1]);
+function getElementContextForScreenshot(screenshot: ScreenshotRecord, events: PostHogEvent[]): string {
+  const screenshotTimestamp = screenshot.timestamp;
   
   // Find events that occurred within the time window of the screenshot
   const nearbyEvents = events.filter(event => {
-    const eventTimestamp = Number(event.timestamp) || 0;
-    return Math.abs(eventTimestamp - screenshotTimestamp) <= TIME_WINDOW_MS;
+    const eventTimestamp = new Date(event.timestamp).getTime() || 0;
+    return Math.abs(eventTimestamp - screenshotTimestamp) <= getConfig().ai.contextWindowMs;
   });
   
   // Extract element information from nearby events
@@ -200,6 +298,74 @@ function compressEvent(event: PostHogEvent): Record<string, any> {
   };
 }
 
+/**
+ * Describe a screenshot so the model can correlate it with the events
+ * @param record The screenshot record
+ * @returns Text sent after the image
+ */
+function describeScreenshot(record: ScreenshotRecord): string {
+  const info = [
+    `Screenshot Info (${path.basename(record.path)}):`,
+    `- Session ID: ${record.sessionId}`,
+    `- Timestamp: ${record.timestamp} (${new Date(record.timestamp).toISOString()})`,
+    `- Key Moment: ${record.momentType ? `${record.momentType} (${record.phase})` : 'none'}`,
+    `- Viewport: ${record.viewport.width}x${record.viewport.height}`
+  ];
+  if (record.elementSelector) info.push(`- Highlighted Element: ${record.elementSelector}`);
+  if (record.url) info.push(`- Page: ${record.url}`);
+  
+  return info.join('\n');
+}
+
+/**
+ * Write the text that describes the packed sessions
+ * @param events All events of the run, for the totals
+ * @param sessionCount Number of sessions in the run
+ * @param packedSessions Sessions packed into the request
+ * @param keyMoments Synced key moments of the run
+ * @param omittedContext Description of what was left out, or empty
+ * @returns The event summary and, when packed sessions were recorded, the replay analysis
+ */
+function renderSessionText(
+  events: PostHogEvent[],
+  sessionCount: number,
+  packedSessions: PackedSession[],
+  keyMoments: SyncedKeyMoment[],
+  omittedContext: string = ''
+): string[] {
+  const selectedEvents = packedSessions.flatMap(packed => packed.events);
+  const texts = [`
+# PostHog Analysis Request
+
+## Event Summary
+- Total Events: ${events.length}
+- Selected Events: ${selectedEvents.length}
+- Number of Sessions: ${sessionCount}
+- Selected Sessions: ${packedSessions.length}
+${omittedContext ? `\n## Omitted Context\nLower-ranked data was left out of this request to fit its size limit; weigh how widespread an issue is accordingly:\n${omittedContext}\n` : ''}
+## Selected Event Types
+${Array.from(new Set(selectedEvents.map(e => e.event))).join(', ')}
+
+## Event Data (Compressed)
+\`\`\`json
+${JSON.stringify(selectedEvents.map(compressEvent), null, 2)}
+\`\`\`
+  `.trim()];
+  
+  // Add the RRweb replay analysis so tickets can cite key moments
+  const recordings = packedSessions.flatMap(packed => packed.session.recording ? [packed.session.recording] : []);
+  if (recordings.length > 0) {
+    const sessionIds = new Set(packedSessions.map(packed => packed.session.id));
+    texts.push(`# Session Replay Analysis\n${createEnhancedContextForOpenAI(
+      packedSessions.flatMap(packed => packed.session.events),
+      recordings,
+      keyMoments.filter(moment => sessionIds.has(moment.sessionId))
+    )}`);
+  }
+  
+  return texts;
+}
+
 /**
  * Reads screenshot from file and converts to base64
  * @param filepath Path to the screenshot file
@@ -361,8 +527,6 @@ The AI analysis of PostHog events failed to complete. A manual review of the dat
 ### Recommendation
 Please review the raw PostHog data in the dashboard to identify potential UX issues manually.
     `,
-    pageUrl: 'N/A',
-    elementSelector: 'N/A',
     suggestedFix: 'Manual review of the data in PostHog dashboard is required'
   };
 }
@@ -386,219 +550,688 @@ export function mapSeverityToPriority(severity: string): string {
 }
 
 /**
- * Analyze events and draft tickets for detected issues
- * @param events Array of PostHog events
- * @returns Array of ticket strings
+ * Check whether a value is a placeholder the model uses instead of omitting a field
+ * @param value Trimmed string value
+ * @returns True if the value carries no information
  */
-export async function analyzeEventsAndDraftTickets(events: PostHogEvent[]): Promise<string[]> {
-  try {
-    // Check if there are any events to analyze
-    if (!events.length) {
-      logger.warn('No events available for analysis');
-      return ['No events available for analysis'];
-    }
+function isPlaceholder(value: string): boolean {
+  return PLACEHOLDER_VALUES.includes(value.toLowerCase());
+}
 
-    // Initialize OpenAI API client
-    const openai = new OpenAI();
-    logger.info('OpenAI client initialized successfully');
+/**
+ * Read an optional string field, treating null and placeholders as absent
+ * @param value Raw field value
+ * @returns Trimmed string or undefined
+ */
+function readOptionalString(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return isPlaceholder(trimmed) ? undefined : trimmed;
+}
 
-    // Get array of screenshots if available
-    const screenshotDir = path.join(process.cwd(), 'screenshots');
-    let screenshotFiles: string[] = [];
-    
+/**
+ * Validate and normalize a single issue returned by the model
+ * @param raw Parsed JSON value for the issue
+ * @param index Position of the issue in the response, used in error messages
+ * @returns The validated issue, or the list of problems found
+ */
+function validateDetectedIssue(raw: unknown, index: number): { issue?: DetectedIssue; errors: string[] } {
+  const errors: string[] = [];
+  
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { errors: [`issues[${index}] must be an object`] };
+  }
+  
+  const candidate = raw as Record<string, unknown>;
+  
+  const title = typeof candidate.title === 'string' ? candidate.title.trim() : '';
+  if (!title) {
+    errors.push(`issues[${index}].title must be a non-empty string`);
+  }
+  
+  const description = typeof candidate.description === 'string' ? candidate.description.trim() : '';
+  if (!description) {
+    errors.push(`issues[${index}].description must be a non-empty string`);
+  }
+  
+  const severity = typeof candidate.severity === 'string' ? candidate.severity.trim().toLowerCase() : '';
+  if (!VALID_SEVERITIES.includes(severity as DetectedIssue['severity'])) {
+    errors.push(`issues[${index}].severity must be one of ${VALID_SEVERITIES.join(', ')} (got ${JSON.stringify(candidate.severity)})`);
+  }
+  
+  const pageUrl = readOptionalString(candidate.pageUrl);
+  if (pageUrl) {
     try {
-      if (fs.existsSync(screenshotDir)) {
-        screenshotFiles = fs.readdirSync(screenshotDir)
-          .filter(file => file.endsWith('.png'));
-        logger.info(`Found ${screenshotFiles.length} screenshots in the screenshots directory`);
+      const parsed = new URL(pageUrl);
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        errors.push(`issues[${index}].pageUrl must be an http(s) URL (got "${pageUrl}")`);
       }
-    } catch (error) {
-      logger.error(`Error reading screenshot directory: ${error}`);
+    } catch {
+      errors.push(`issues[${index}].pageUrl must be an absolute URL copied from the data (got "${pageUrl}")`);
     }
+  }
+  
+  // An unknown category is not worth a repair round-trip, so it falls back to 'other'
+  const category = typeof candidate.category === 'string' && ISSUE_CATEGORIES.includes(candidate.category as IssueCategory)
+    ? candidate.category as IssueCategory
+    : 'other';
+  
+  const elementSelector = readOptionalString(candidate.elementSelector);
+  if (elementSelector && (elementSelector.length > MAX_SELECTOR_LENGTH || /[\r\n]/.test(elementSelector))) {
+    errors.push(`issues[${index}].elementSelector must be a single-line CSS selector under ${MAX_SELECTOR_LENGTH} characters`);
+  }
+  
+  if (errors.length > 0) {
+    return { errors };
+  }
+  
+  return {
+    issue: {
+      title,
+      severity: severity as DetectedIssue['severity'],
+      description,
+      pageUrl,
+      elementSelector,
+      suggestedFix: readOptionalString(candidate.suggestedFix),
+      visualAnalysis: readOptionalString(candidate.visualAnalysis),
+      category
+    },
+    errors
+  };
+}
 
-    // Group events by session
-    const sessions = groupEventsBySession(events);
-    logger.info(`Events grouped into ${sessions.length} user sessions`);
+/**
+ * Parse and validate the model's structured response
+ * @param content Raw message content returned by the model
+ * @returns Valid issues plus any parse or validation errors
+ */
+function parseIssuesResponse(content: string): { issues: DetectedIssue[]; errors: string[] } {
+  // Tolerate code fences in case the model ignores the response format
+  const stripped = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripped);
+  } catch (error) {
+    return { issues: [], errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+  
+  const rawIssues = Array.isArray(parsed)
+    ? parsed
+    : (parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>).issues : undefined);
+  
+  if (!Array.isArray(rawIssues)) {
+    return { issues: [], errors: ['Response must be an object with an "issues" array'] };
+  }
+  
+  const issues: DetectedIssue[] = [];
+  const errors: string[] = [];
+  
+  rawIssues.forEach((raw, index) => {
+    const result = validateDetectedIssue(raw, index);
+    if (result.issue) {
+      issues.push(result.issue);
+    }
+    errors.push(...result.errors);
+  });
+  
+  return { issues, errors };
+}
 
-    // Select most relevant sessions
-    const selectedSessions = selectRelevantSessions(sessions, MAX_SESSIONS);
-    logger.info(`Selected ${selectedSessions.length} sessions for analysis`);
+/**
+ * Request issues from the model as structured JSON, asking the model to repair its
+ * reply when it does not parse or fails field validation
+ * @param provider LLM provider
+ * @param messages Conversation to send
+ * @returns Array of validated issues, or null when no valid response is obtained
+ */
+async function requestStructuredIssues(
+  provider: LlmProvider,
+  messages: LlmMessage[]
+): Promise<DetectedIssue[] | null> {
+  const { maxRepairAttempts } = getConfig().ai;
+  let bestIssues: DetectedIssue[] = [];
+  
+  for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+    const response = await provider.complete({ messages, jsonSchema: ISSUE_RESPONSE_SCHEMA });
+    if (!response) {
+      logger.error(`Empty response from ${provider.name}`);
+      break;
+    }
+    
+    const { issues, errors } = parseIssuesResponse(response);
+    if (errors.length === 0) {
+      logger.info(`Generated ${issues.length} ticket(s) for potential UX issues`);
+      return issues;
+    }
+    
+    if (issues.length > bestIssues.length) {
+      bestIssues = issues;
+    }
+    
+    logger.warn(`${provider.name} response failed validation (attempt ${attempt + 1}): ${errors.join('; ')}`);
+    
+    // Feed the errors back so the model can correct its own output
+    messages.push(
+      { role: 'assistant', content: response },
+      {
+        role: 'user',
+        content: `Your previous response could not be used:\n${errors.map(e => `- ${e}`).join('\n')}\n\nReturn the corrected JSON object only.`
+      }
+    );
+  }
+  
+  if (bestIssues.length > 0) {
+    logger.warn(`Keeping ${bestIssues.length} valid ticket(s) after repair attempts were exhausted`);
+    return bestIssues;
+  }
+  
+  logger.error(`Could not obtain a valid structured response from ${provider.name}`);
+  return null;
+}
 
-    // Select most relevant events from each session
-    const selectedEvents: PostHogEvent[] = [];
-    selectedSessions.forEach(session => {
-      const relevantSessionEvents = selectRelevantEvents(session.events, MAX_EVENTS_PER_SESSION);
-      selectedEvents.push(...relevantSessionEvents);
-    });
-    logger.info(`Selected ${selectedEvents.length} events for analysis`);
+/**
+ * Lists the screenshots recorded in the manifest of the most recent capture run
+ * @returns Screenshots whose files are still on disk
+ */
+function findExistingScreenshots(): ScreenshotRecord[] {
+  try {
+    const manifest = loadLatestScreenshotManifest();
+    if (manifest) {
+      const screenshots = manifest.screenshots.filter(screenshot => fs.existsSync(screenshot.path));
+      logger.info(`Found ${screenshots.length} screenshots from capture run ${manifest.runId}`);
+      return screenshots;
+    }
+  } catch (error) {
+    logger.error(`Error reading screenshot manifest: ${error}`);
+  }
+  
+  return [];
+}
 
-    // Select most relevant screenshots
-    const selectedScreenshots = selectRelevantScreenshots(screenshotFiles, selectedEvents, MAX_SCREENSHOTS);
-    logger.info(`Limiting analysis to ${selectedScreenshots.length} screenshots (out of ${screenshotFiles.length} total)`);
+/**
+ * Sessions and screenshots packed into one analysis request
+ */
+interface PackedRequest {
+  /** Events the sessions were chosen from, for the totals */
+  events: PostHogEvent[];
+  /** Number of sessions the packed ones were chosen from */
+  sessionCount: number;
+  sessions: PackedSession[];
+  screenshots: PackedScreenshot[];
+  /** Synced key moments, of any session */
+  keyMoments: SyncedKeyMoment[];
+  /** Rule-based findings block, or empty */
+  ruleFindingsText: string;
+  /** Description of what was left out, or empty */
+  omittedContext: string;
+  /** Sessions and screenshots that were left out */
+  omitted: OmittedContext[];
+}
 
-    // Prepare content blocks for OpenAI
-    const contentBlocks: { type: string; text?: string; image_url?: { url: string } }[] = [];
+/**
+ * Pack the most valuable sessions and screenshots into the token budget
+ *
+ * The instructions, the reply schema and the rule-based findings are always sent.
+ * Sessions are then added most valuable first, each followed by its screenshots, so
+ * the evidence of a high-value session outranks the events of a low-value one.
+ * Whatever does not fit is skipped, and smaller items are still tried.
+ *
+ * @param provider LLM provider, whose image support decides what screenshots cost
+ * @param events Events the sessions were built from
+ * @param sessions Sessions to choose from
+ * @param screenshotFiles Screenshots to choose from
+ * @param keyMoments Synced key moments
+ * @param ruleIssues Issues found by the rule-based analyzer
+ * @returns The packed request
+ */
+function packAnalysisRequest(
+  provider: LlmProvider,
+  events: PostHogEvent[],
+  sessions: Session[],
+  screenshotFiles: ScreenshotRecord[],
+  keyMoments: SyncedKeyMoment[],
+  ruleIssues: DetectedIssue[]
+): PackedRequest {
+  const limits = getConfig().ai;
+  const budget = createTokenBudget(limits.maxPromptTokens);
+  
+  const ruleFindingsText = ruleIssues.length > 0
+    ? `# Rule-Based Findings\nA rule-based analyzer flagged these candidate issues. Confirm them against the data, refine their descriptions and severity, and drop any the data does not support:\n\n${JSON.stringify(ruleIssues, null, 2)}`
+    : '';
+  budget.take(
+    estimateTextTokens(ANALYSIS_SYSTEM_PROMPT) +
+    estimateTextTokens(JSON.stringify(ISSUE_RESPONSE_SCHEMA)) +
+    estimateTextTokens(ruleFindingsText) +
+    OMITTED_CONTEXT_TOKENS
+  );
+  if (budget.used() > budget.limit) {
+    logger.warn(`The instructions and rule-based findings alone take about ${budget.used()} tokens, over the ${budget.limit}-token budget`);
+  }
+  
+  const selectedScreenshots: PackedScreenshot[] = [];
+  
+  /**
+   * Pack the best screenshots of a session, until the count limit or the budget is reached
+   * @param records Screenshots of the session
+   * @param sessionEvents Events sent for the session
+   * @param sessionMoments Key moments of the session
+   */
+  const packScreenshots = (records: ScreenshotRecord[], sessionEvents: PostHogEvent[], sessionMoments: KeyMoment[]) => {
+    for (const record of selectRelevantScreenshots(records, sessionEvents, records.length, sessionMoments)) {
+      const info = describeScreenshot(record);
+      const elementContext = getElementContextForScreenshot(record, sessionEvents);
+      const tokens = (provider.capabilities.imageInput ? estimateImageTokens(record.viewport) : 0) +
+        estimateTextTokens(info) + estimateTextTokens(elementContext);
+      
+      if (selectedScreenshots.length >= limits.maxScreenshots) {
+        budget.omit({ kind: 'screenshot', id: path.basename(record.path), reason: 'limit', tokens });
+      } else if (!budget.tryTake(tokens)) {
+        budget.omit({ kind: 'screenshot', id: path.basename(record.path), reason: 'budget', tokens });
+      } else {
+        selectedScreenshots.push({ record, info, elementContext });
+      }
+    }
+  };
+  
+  // The session text is rendered again for each candidate, so the JSON is never cut
+  const packedSessions: PackedSession[] = [];
+  let sessionTextTokens = 0;
+  
+  for (const session of rankSessions(sessions, keyMoments)) {
+    const candidate = { session, events: selectRelevantEvents(session.events, limits.maxEventsPerSession) };
+    const sessionScreenshots = screenshotFiles.filter(record => record.sessionId === session.id);
+    const omitSession = (reason: OmittedContext['reason'], tokens: number) => {
+      budget.omit({ kind: 'session', id: session.id, reason, tokens });
+      sessionScreenshots.forEach(record => budget.omit({ kind: 'screenshot', id: path.basename(record.path), reason, tokens: 0 }));
+    };
+    
+    if (packedSessions.length >= limits.maxSessions) {
+      omitSession('limit', estimateTextTokens(JSON.stringify(candidate.events.map(compressEvent), null, 2)));
+      continue;
+    }
     
-    // Add initial text content with event summary
+    const textTokens = estimateTextTokens(renderSessionText(events, sessions.length, [...packedSessions, candidate], keyMoments).join('\n'));
+    if (!budget.tryTake(textTokens - sessionTextTokens)) {
+      omitSession('budget', textTokens - sessionTextTokens);
+      continue;
+    }
+    
+    packedSessions.push(candidate);
+    sessionTextTokens = textTokens;
+    packScreenshots(sessionScreenshots, candidate.events, keyMoments.filter(moment => moment.sessionId === session.id));
+  }
+  
+  // Screenshots left on disk by an earlier run may belong to none of the sessions
+  const sessionIds = new Set(sessions.map(session => session.id));
+  packScreenshots(
+    screenshotFiles.filter(record => !sessionIds.has(record.sessionId)),
+    packedSessions.flatMap(packed => packed.events),
+    keyMoments
+  );
+  
+  const omitted = budget.getOmitted();
+  const omittedContext = describeOmittedContext(omitted, budget.limit);
+  logger.info(`Packed ${packedSessions.length} of ${sessions.length} sessions, ${packedSessions.flatMap(packed => packed.events).length} events and ` +
+    `${selectedScreenshots.length} of ${screenshotFiles.length} screenshots into about ${budget.used()} of ${budget.limit} tokens`);
+  if (omittedContext) {
+    logger.info(`Left out of the analysis request:\n${omittedContext}`);
+  }
+  
+  return {
+    events,
+    sessionCount: sessions.length,
+    sessions: packedSessions,
+    screenshots: selectedScreenshots,
+    keyMoments,
+    ruleFindingsText,
+    omittedContext,
+    omitted
+  };
+}
+
+/**
+ * Send a packed request and validate the issues in the reply
+ *
+ * Screenshots are read from disk here, and personal data is masked before the
+ * request leaves the machine.
+ *
+ * @param provider LLM provider
+ * @param packed Packed sessions and screenshots
+ * @returns Array of validated issues, or null when no valid response is obtained
+ */
+async function sendAnalysisRequest(provider: LlmProvider, packed: PackedRequest): Promise<DetectedIssue[] | null> {
+  const contentBlocks: LlmContentPart[] = renderSessionText(packed.events, packed.sessionCount, packed.sessions, packed.keyMoments, packed.omittedContext)
+    .map(text => ({ type: "text", text }));
+  
+  // Add the rule-based findings as candidates for the model to confirm
+  if (packed.ruleFindingsText) {
     contentBlocks.push({
       type: "text",
-      text: `
-# PostHog Analysis Request
-
-## Event Summary
-- Total Events: ${events.length}
-- Selected Events: ${selectedEvents.length}
-- Number of Sessions: ${sessions.length}
-- Selected Sessions: ${selectedSessions.length}
-
-## Selected Event Types
-${Array.from(new Set(selectedEvents.map(e => e.event))).join(', ')}
-
-## Event Data (Compressed)
-\`\`\`json
-${JSON.stringify(selectedEvents.map(compressEvent), null, 2).substring(0, MAX_JSON_PREVIEW_LENGTH)}
-...
-\`\`\`
-      `.trim()
+      text: packed.ruleFindingsText
     });
-
-    // Add screenshots (if available)
-    for (const screenshot of selectedScreenshots) {
-      try {
-        const screenshotPath = path.join(screenshotDir, screenshot);
-        const base64Image = await readScreenshotFromFile(screenshotPath);
-        
-        if (base64Image) {
-          // Add the image
-          contentBlocks.push({
-            type: "image_url",
-            image_url: {
-              url: `data:image/png;base64,${base64Image}`
-            }
-          });
-          
-          // Add context about the screenshot with timestamp for correlation
-          const sessionMatch = screenshot.match(/session_([^_]+)_time/);
-          const sessionId = sessionMatch ? sessionMatch[1] : 'unknown';
-          const timestamp = screenshot.match(/time_(\d+)\.png/)?.[1] || 'unknown';
-          
-          contentBlocks.push({
-            type: "text",
-            text: `Screenshot Info (${screenshot}):\n- Session ID: ${sessionId}\n- Timestamp: ${timestamp}`
-          });
-          
-          // Add element context if available
-          const elementContext = getElementContextForScreenshot(screenshot, selectedEvents);
-          if (elementContext) {
-            contentBlocks.push({
-              type: "text",
-              text: elementContext
-            });
-          }
-        } else {
+  }
+  
+  // Add screenshots (if available)
+  if (packed.screenshots.length > 0 && !provider.capabilities.imageInput) {
+    logger.info(`Model ${provider.model} does not accept images, describing screenshots in text only`);
+  }
+  for (const { record, info, elementContext } of packed.screenshots) {
+    const screenshot = path.basename(record.path);
+    try {
+      // Add the image, unless the model only reads text
+      if (provider.capabilities.imageInput) {
+        const base64Image = await readScreenshotFromFile(record.path);
+        if (!base64Image) {
           logger.warn(`Invalid base64 data for screenshot: ${screenshot}`);
           contentBlocks.push({
             type: "text",
             text: `[Failed to load screenshot: ${screenshot}]`
           });
+          continue;
         }
-      } catch (error) {
-        logger.error(`Error processing screenshot ${screenshot}: ${error}`);
+        
+        contentBlocks.push({
+          type: "image",
+          mediaType: "image/png",
+          data: base64Image
+        });
+      }
+      
+      // Add context about the screenshot with timestamp for correlation
+      contentBlocks.push({
+        type: "text",
+        text: info
+      });
+      
+      // Add element context if available
+      if (elementContext) {
         contentBlocks.push({
           type: "text",
-          text: `[Error loading screenshot: ${screenshot}]`
+          text: elementContext
         });
       }
+    } catch (error) {
+      logger.error(`Error processing screenshot ${screenshot}: ${error}`);
+      contentBlocks.push({
+        type: "text",
+        text: `[Error loading screenshot: ${screenshot}]`
+      });
     }
+  }
+  
+  // Call the model
+  logger.info(`Sending analysis request to ${provider.name} with ${contentBlocks.length} content blocks`);
+  
+  const messages: LlmMessage[] = [
+    {
+      role: "system",
+      content: ANALYSIS_SYSTEM_PROMPT
+    },
+    {
+      role: "user",
+      content: contentBlocks
+    }
+  ];
+  
+  // Mask personal data before the request leaves the machine; recorded inputs and
+  // screenshots were masked when they were processed, so they are only counted
+  const redactor = createRedactor('LLM request');
+  for (const { session } of packed.sessions) {
+    Object.entries(session.recording?.metadata.maskedInputs || {}).forEach(([rule, count]) => redactor.record('input', rule, count));
+  }
+  if (provider.capabilities.imageInput) {
+    redactor.record('screenshot', 'blur', packed.screenshots.reduce((sum, { record }) => sum + (record.blurredRegions || 0), 0));
+  }
+  const redactedMessages = redactor.redactMessages(messages);
+  if (getConfig().redaction.enabled) {
+    saveRedactionReport(redactor.getReport());
+  }
+  
+  return await requestStructuredIssues(provider, redactedMessages);
+}
 
-    // Call the OpenAI API
-    logger.info(`Sending analysis request to OpenAI with ${contentBlocks.length} content blocks`);
-    
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: `You are an expert UX analyst. Analyze the provided PostHog events and screenshots to identify potential UX issues.
-          
-Focus on:
-1. Dead clicks (user clicked but nothing happened)
-2. Rage clicks (user repeatedly clicked in frustration)
-3. Error states
-4. Confusing navigation
-5. Form submission issues
-6. Performance problems
-
-For each screenshot provided:
-- Describe what you see in the UI
-- Identify any visual issues or problems (misalignments, poor contrast, etc.)
-- Note any elements that appear to be the target of user interaction
-- Describe the visual state of the UI (loading, error, success, etc.)
-- Identify any UI elements that might be causing confusion or frustration
-
-Format each identified issue as a ticket with:
-- Title: Clear, concise description of the issue
-- Priority: High/Medium/Low
-- Description: Detailed explanation including affected user flow
-- Visual Analysis: Describe what you see in the screenshots related to this issue
-- Affected Page: URL where the issue occurs
-- Element: Specific UI element with the issue (use element selector if available)
-- Suggested Fix: Concrete recommendation to resolve the issue
-
-The Visual Analysis section should include detailed descriptions of what you observe in the screenshots, such as:
-- The specific part of the UI where the issue occurs
-- The visual state of elements (e.g., "button appears disabled but is receiving clicks") 
-- Any visual cues that might mislead users
-- Layout or design issues contributing to the problem
+/**
+ * Run an async function over items, with a bounded number of calls in flight
+ * @param items Items to process
+ * @param concurrency Most calls in flight at once
+ * @param fn Function to run for each item
+ * @returns Results in the order of the items
+ */
+async function mapWithConcurrency<T, R>(items: T[], concurrency: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
 
-DO NOT MAKE UP ISSUES THAT ARE NOT EVIDENT IN THE DATA.
-If no issues are detected, create a single ticket stating "No UX issues detected" with appropriate explanation.`
-        },
-        {
-          role: "user",
-          content: contentBlocks as any
-        }
-      ]
-    });
+/**
+ * Issues the model found in one session
+ */
+export interface SessionFindings {
+  /** ID of the session */
+  sessionId: string;
+  /** Validated issues found in the session */
+  issues: DetectedIssue[];
+}
 
-    const response = completion.choices[0].message.content;
-    if (!response) {
-      logger.error('Empty response from OpenAI');
-      return ['Error: Empty response from OpenAI'];
+/**
+ * Merge the issues found in separate sessions into one issue per problem
+ *
+ * Issues with the same fingerprint, that is the same category, page and element,
+ * are one problem. The most severe version is kept, with the number of sessions
+ * it was found in and some of their IDs.
+ *
+ * @param findings Issues found in each session
+ * @returns Issues seen in the most sessions first, then the most severe
+ */
+export function aggregateSessionFindings(findings: SessionFindings[]): DetectedIssue[] {
+  const merged = new Map<string, { issue: DetectedIssue; sessionIds: Set<string> }>();
+  
+  for (const { sessionId, issues } of findings) {
+    for (const issue of issues) {
+      const fingerprint = computeIssueFingerprint(issue);
+      const existing = merged.get(fingerprint);
+      
+      if (!existing) {
+        merged.set(fingerprint, { issue, sessionIds: new Set([sessionId]) });
+        continue;
+      }
+      
+      existing.sessionIds.add(sessionId);
+      if (VALID_SEVERITIES.indexOf(issue.severity) > VALID_SEVERITIES.indexOf(existing.issue.severity)) {
+        existing.issue = issue;
+      }
     }
+  }
+  
+  return Array.from(merged.values())
+    .map(({ issue, sessionIds }) => ({
+      ...issue,
+      sessionCount: sessionIds.size,
+      exampleSessionIds: Array.from(sessionIds).slice(0, MAX_EXAMPLE_SESSIONS)
+    }))
+    .sort((a, b) =>
+      (b.sessionCount - a.sessionCount) ||
+      (VALID_SEVERITIES.indexOf(b.severity) - VALID_SEVERITIES.indexOf(a.severity))
+    );
+}
 
-    // Extract tickets from the response
-    const tickets = response.split('---').filter(Boolean).map(ticket => ticket.trim());
-    logger.info(`Generated ${tickets.length} ticket(s) for potential UX issues`);
-
-    return tickets;
-  } catch (error) {
-    logger.error(`Error analyzing events and drafting tickets: ${error}`);
-    
-    // Return a fallback ticket when API fails
-    return [
-      `Title: Potential UX Issues Detected - Manual Review Required
-Priority: Medium
+/**
+ * Get the rule-based issues whose evidence was found in a session
+ * @param session Session with its events and recording
+ * @param ruleFindings Findings of the rule-based analyzer
+ * @returns Issues of the findings that cite the session
+ */
+function getSessionRuleIssues(session: Session, ruleFindings: RuleFinding[]): DetectedIssue[] {
+  return ruleFindings
+    .filter(finding => finding.sessionIds.includes(session.id))
+    .map(finding => finding.issue);
+}
 
-Description:
+/**
+ * Analyze each session in a request of its own, then merge what was found
+ *
+ * The most valuable sessions are analyzed, up to `ai.maxMappedSessions`, with at
+ * most `ai.concurrency` requests in flight. A session whose request fails adds no
+ * findings; the analysis only fails when every request did.
+ *
+ * @param provider LLM provider
+ * @param sessions Sessions to analyze
+ * @param screenshotFiles Screenshots of the sessions
+ * @param keyMoments Synced key moments
+ * @param ruleFindings Findings of the rule-based analyzer, each given to the sessions it cites
+ * @returns Merged issues, those seen in the most sessions first, or null when no session could be analyzed
+ */
+async function analyzeSessionsSeparately(
+  provider: LlmProvider,
+  sessions: Session[],
+  screenshotFiles: ScreenshotRecord[],
+  keyMoments: SyncedKeyMoment[],
+  ruleFindings: RuleFinding[]
+): Promise<DetectedIssue[] | null> {
+  const { concurrency, maxMappedSessions } = getConfig().ai;
+  const mappedSessions = rankSessions(sessions, keyMoments).slice(0, maxMappedSessions);
+  logger.info(`Analyzing ${mappedSessions.length} of ${sessions.length} sessions one by one, ${Math.min(concurrency, mappedSessions.length)} at a time`);
+  
+  let failures = 0;
+  const findings = await mapWithConcurrency(mappedSessions, concurrency, async (session): Promise<SessionFindings> => {
+    try {
+      const packed = packAnalysisRequest(
+        provider,
+        session.events,
+        [session],
+        screenshotFiles.filter(record => record.sessionId === session.id),
+        keyMoments.filter(moment => moment.sessionId === session.id),
+        getSessionRuleIssues(session, ruleFindings)
+      );
+      if (packed.sessions.length === 0) {
+        logger.warn(`Session ${session.id} does not fit in the ${getConfig().ai.maxPromptTokens}-token budget, skipping it`);
+        return { sessionId: session.id, issues: [] };
+      }
+      
+      const issues = await sendAnalysisRequest(provider, packed);
+      if (!issues) {
+        failures++;
+      }
+      return { sessionId: session.id, issues: issues || [] };
+    } catch (error) {
+      if (isLlmCacheMissError(error)) throw error;
+      failures++;
+      logger.error(`Error analyzing session ${session.id}: ${error}`);
+      return { sessionId: session.id, issues: [] };
+    }
+  });
+  
+  if (mappedSessions.length > 0 && failures === mappedSessions.length) {
+    logger.error('Every session analysis failed');
+    return null;
+  }
+  
+  const issues = aggregateSessionFindings(findings);
+  const findingCount = findings.reduce((sum, finding) => sum + finding.issues.length, 0);
+  logger.info(`Merged ${findingCount} finding(s) from ${mappedSessions.length} sessions into ${issues.length} issue(s)`);
+  return issues;
+}
 
-## Automated Analysis Failed
+/**
+ * Issues drafted by an analysis, and whether it completed
+ */
+export interface AnalysisResult {
+  /** Validated issues, or the fallback issues when the model could not be used */
+  issues: DetectedIssue[];
+  /**
+   * `analyzed` when the analysis completed; `rules-fallback` when the model could
+   * not be used and the rule-based issues were returned in its place, and
+   * `manual-review` when a manual review ticket was
+   */
+  status: 'analyzed' | 'rules-fallback' | 'manual-review';
+}
 
-The AI analysis of PostHog events failed to complete. A manual review of the data is recommended.
+/**
+ * Analyze events and draft tickets for detected issues
+ * 
+ * When RRweb context is supplied, the synced key moments are added to the prompt
+ * and only the screenshots captured for this run are attached. Screenshots are
+ * described in text only when the model does not accept images.
+ * 
+ * With the `single` strategy, the most valuable sessions are packed into one
+ * request. With `map-reduce`, each session is analyzed on its own and the findings
+ * are merged, so issues seen in many sessions outrank one-off glitches. `auto`
+ * sends one request when every session fits in it, and analyzes sessions
+ * separately otherwise.
+ * 
+ * Issues found by the rule-based analyzer are given to the model to confirm and
+ * refine, and are returned unchanged when the model cannot be used. Without them,
+ * a ticket asking for a manual review is returned instead.
+ * 
+ * @param events Array of PostHog events
+ * @param rrwebContext Optional RRweb sessions, synced key moments and screenshots
+ * @param llmProvider Provider to use instead of the configured one
+ * @param ruleFindings Findings of the rule-based analyzer
+ * @returns Validated issues, and whether they came from the model
+ * @throws Error if the LLM cache is in `replay` mode and has no reply for a request
+ */
+export async function analyzeEventsAndDraftTickets(
+  events: PostHogEvent[],
+  rrwebContext?: RRwebAnalysisContext,
+  llmProvider?: LlmProvider,
+  ruleFindings: RuleFinding[] = []
+): Promise<AnalysisResult> {
+  // Check if there are any events to analyze
+  if (!events.length) {
+    logger.warn('No events available for analysis');
+    return { issues: [], status: 'analyzed' };
+  }
+  
+  const ruleIssues = ruleFindings.map(finding => finding.issue);
+  let issues: DetectedIssue[] | null = null;
+  try {
 
-### Event Summary
-- Total Events: ${events.length}
-- Event Types: ${Array.from(new Set(events.map(e => e.event))).join(', ')}
-- Unique Users: ${new Set(events.map(e => e.distinct_id)).size}
+    // Initialize the LLM provider
+    const provider = llmProvider || createCachedProvider(createProviderFromConfig(), ANALYSIS_PROMPT_VERSION);
+    logger.info(`Using ${provider.name} provider with model ${provider.model}`);
 
-### Recommendation
-Please review the raw PostHog data in the dashboard to identify potential UX issues manually.
-    
+    // Use the screenshots captured for this run, or fall back to any left on disk
+    const screenshotFiles = rrwebContext ? rrwebContext.screenshots : findExistingScreenshots();
+    const keyMoments = rrwebContext?.keyMoments || [];
 
-Affected Page: ✅ N/A
-Element: N/A
+    // Join events with their recordings into sessions
+    const sessions = buildSessions(events, rrwebContext?.sessions);
+    logger.info(`Events grouped into ${sessions.length} user sessions`);
 
-Suggested Fix: Manual review of the data in PostHog dashboard is required`
-    ];
+    const { strategy } = getConfig().ai;
+    const packed = strategy !== 'map-reduce'
+      ? packAnalysisRequest(provider, events, sessions, screenshotFiles, keyMoments, ruleIssues)
+      : null;
+    if (packed && (strategy === 'single' || !packed.omitted.some(item => item.kind === 'session'))) {
+      issues = await sendAnalysisRequest(provider, packed);
+    } else {
+      if (packed) {
+        logger.info('Not every session fits in one request, analyzing sessions separately');
+      }
+      issues = await analyzeSessionsSeparately(provider, sessions, screenshotFiles, keyMoments, ruleFindings);
+    }
+  } catch (error) {
+    // A replayed analysis must match its recording, so a cache miss is not papered over
+    if (isLlmCacheMissError(error)) throw error;
+    logger.error(`Error analyzing events and drafting tickets: ${error}`);
+  }
+  
+  if (issues) {
+    return { issues, status: 'analyzed' };
   }
-}
\ No newline at end of file
+  
+  // Return the rule-based issues, or a manual review ticket, when the API fails
+  return ruleIssues.length > 0
+    ? { issues: ruleIssues, status: 'rules-fallback' }
+    : { issues: [createManualReviewTicket(events)], status: 'manual-review' };
+}
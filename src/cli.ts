@@ -0,0 +1,193 @@
+import { parseArgs } from 'util';
+import { IssueSpotterConfig } from './config';
+
+// Constants
+const RELATIVE_TIME_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+};
+
+/**
+ * Subcommands understood by the command-line interface
+ */
+export type CliCommand = 'analyze' | 'watch' | 'inspect-rrweb' | 'screenshots' | 'doctor' | 'help';
+
+/**
+ * Format used for results written to stdout and the output directory
+ */
+export type OutputFormat = 'text' | 'json';
+
+/**
+ * How issues are detected, see the `analysisMode` setting
+ */
+type AnalysisMode = IssueSpotterConfig['analysisMode'];
+
+/**
+ * Parsed command-line options
+ */
+export interface CliOptions {
+  /** Subcommand to run */
+  command: CliCommand;
+  /** Recording file or directory given as the positional argument of inspect-rrweb and screenshots */
+  file?: string;
+  /** Only consider events and key moments after this time */
+  after?: Date;
+  /** Only consider events and key moments before this time */
+  before?: Date;
+  /** PostHog events exported to a JSON file, used instead of fetching from PostHog */
+  eventsFile?: string;
+  /** Recording files or directories used instead of the configured RRweb source */
+  rrwebFiles: string[];
+  /** Output format */
+  format: OutputFormat;
+  /** Directory for the report and screenshots */
+  outputDir?: string;
+  /** Minutes between runs in watch mode */
+  intervalMinutes?: number;
+  /** Capture screenshots, overriding the includeScreenshots setting */
+  screenshots?: boolean;
+  /** Exit with a non-zero code when new or regressed issues are found */
+  failOnIssues: boolean;
+  /** Analysis mode, overriding the analysisMode setting */
+  analysisMode?: AnalysisMode;
+  /** Configuration file, overriding ISSUE_SPOTTER_CONFIG */
+  configPath?: string;
+  /** Configuration profile, overriding ISSUE_SPOTTER_PROFILE */
+  profile?: string;
+}
+
+const COMMANDS: CliCommand[] = ['analyze', 'watch', 'inspect-rrweb', 'screenshots', 'doctor', 'help'];
+const ANALYSIS_MODES: AnalysisMode[] = ['llm', 'rules', 'hybrid'];
+
+export const USAGE = `
+Usage: issue-spotter [command] [options]
+
+Commands:
+  analyze                 Run one analysis and exit
+  watch                   Run an analysis every --interval minutes (default)
+  inspect-rrweb <file>    List the sessions and key moments in a recording file or directory, without AI
+  screenshots <file>      Capture key moment screenshots from a recording file or directory
+  doctor                  Check the environment and external API connections
+
+Options:
+  --after <time>          Only use events after this time (ISO date, or relative such as 30m, 24h, 7d)
+  --before <time>         Only use events before this time
+  --events <file>         Read PostHog events from a JSON export instead of the API
+  --rrweb <file>          Read RRweb sessions from this recording file or directory (repeatable)
+  --format <text|json>    Output format (default: text)
+  --output-dir <dir>      Write the report and screenshots to this directory
+  --interval <minutes>    Minutes between runs in watch mode
+  --screenshots           Capture screenshots (overrides the includeScreenshots setting)
+  --no-screenshots        Do not capture screenshots
+  --fail-on-issues        Exit with code 2 when new or regressed issues are found
+  --mode <mode>           llm, rules (no AI) or hybrid (rules pre-filter the LLM),
+                          overriding the analysisMode setting
+  --config <file>         Read settings from this JSON configuration file
+  --profile <name>        Apply this profile from the configuration file
+  -h, --help              Show this help
+`.trim();
+
+/**
+ * Parse a time argument given as an ISO date or as a duration before now
+ * @param value Argument value, e.g. `2025-03-01T00:00:00Z` or `24h`
+ * @param flag Flag name, used in error messages
+ * @param now Reference time for relative values
+ * @returns Parsed date
+ * @throws Error if the value is neither a date nor a relative duration
+ */
+export function parseTimeArgument(value: string, flag: string, now: Date = new Date()): Date {
+  const relative = value.match(/^(\d+)([mhd])$/);
+  if (relative) {
+    return new Date(now.getTime() - parseInt(relative[1], 10) * RELATIVE_TIME_UNITS_MS[relative[2]]);
+  }
+  
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid value for --${flag}: "${value}" (expected an ISO date or a duration such as 24h)`);
+  }
+  return date;
+}
+
+/**
+ * Parse command-line arguments
+ *
+ * Running without a command keeps the original behaviour of checking periodically.
+ *
+ * @param argv Arguments after the script name
+ * @returns Parsed options
+ * @throws Error on unknown commands, unknown flags or invalid values
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      after: { type: 'string' },
+      before: { type: 'string' },
+      events: { type: 'string' },
+      rrweb: { type: 'string', multiple: true },
+      format: { type: 'string' },
+      'output-dir': { type: 'string' },
+      interval: { type: 'string' },
+      screenshots: { type: 'boolean' },
+      'no-screenshots': { type: 'boolean' },
+      'fail-on-issues': { type: 'boolean' },
+      mode: { type: 'string' },
+      config: { type: 'string' },
+      profile: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+  
+  const [commandArg, file] = positionals;
+  const command = (values.help ? 'help' : commandArg || 'watch') as CliCommand;
+  if (!COMMANDS.includes(command)) {
+    throw new Error(`Unknown command "${commandArg}"`);
+  }
+  
+  if ((command === 'inspect-rrweb' || command === 'screenshots') && !file) {
+    throw new Error(`The ${command} command needs a recording file or directory`);
+  }
+  
+  const format = (values.format || 'text') as OutputFormat;
+  if (format !== 'text' && format !== 'json') {
+    throw new Error(`Invalid value for --format: "${values.format}" (expected text or json)`);
+  }
+  
+  const analysisMode = values.mode as AnalysisMode | undefined;
+  if (analysisMode !== undefined && !ANALYSIS_MODES.includes(analysisMode)) {
+    throw new Error(`Invalid value for --mode: "${values.mode}" (expected ${ANALYSIS_MODES.join(', ')})`);
+  }
+  
+  let intervalMinutes: number | undefined;
+  if (values.interval !== undefined) {
+    intervalMinutes = parseInt(values.interval, 10);
+    if (isNaN(intervalMinutes) || intervalMinutes <= 0) {
+      throw new Error(`Invalid value for --interval: "${values.interval}" (expected a positive number of minutes)`);
+    }
+  }
+  
+  const after = values.after ? parseTimeArgument(values.after, 'after') : undefined;
+  const before = values.before ? parseTimeArgument(values.before, 'before') : undefined;
+  if (after && before && after >= before) {
+    throw new Error('--after must be earlier than --before');
+  }
+  
+  return {
+    command,
+    file,
+    after,
+    before,
+    eventsFile: values.events,
+    rrwebFiles: values.rrweb || [],
+    format,
+    outputDir: values['output-dir'],
+    intervalMinutes,
+    screenshots: values['no-screenshots'] ? false : values.screenshots,
+    failOnIssues: values['fail-on-issues'] === true,
+    analysisMode,
+    configPath: values.config,
+    profile: values.profile
+  };
+}
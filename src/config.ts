@@ -0,0 +1,819 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// Constants
+const DEFAULT_CONFIG_FILENAME = 'issue-spotter.config.json';
+const ENV_OVERRIDE_PREFIX = 'ISSUE_SPOTTER__';
+
+/**
+ * Thresholds of the key moment detectors that run on RRweb sessions
+ */
+export interface DetectorThresholds {
+  rageClick: {
+    /** Clicks in the same area needed to count as a rage click */
+    minClicks: number;
+    /** Maximum time between consecutive clicks */
+    maxIntervalMs: number;
+    /** Maximum distance between clicks in the same area */
+    radiusPx: number;
+  };
+  navigationLoop: {
+    /** Visits to the same URL needed to count as a loop */
+    minVisits: number;
+    /** Time window in which the visits must happen */
+    windowMs: number;
+  };
+  rapidScrolling: {
+    /** Scroll events needed to count as rapid scrolling */
+    minScrollEvents: number;
+    /** Time window in which the scroll events must happen */
+    windowMs: number;
+  };
+  mouseHovering: {
+    /** Minimum time between the mouse moves being compared */
+    minIdleMs: number;
+    /** Maximum distance the cursor may move while hovering */
+    radiusPx: number;
+  };
+  hesitation: {
+    /** Shortest pause between interactions that counts as hesitation */
+    minPauseMs: number;
+    /** Longest pause that still counts, longer pauses are treated as breaks */
+    maxPauseMs: number;
+  };
+  multipleSubmissions: {
+    /** Submit clicks needed to count as repeated submissions */
+    minClicks: number;
+    /** Time window in which the clicks must happen */
+    windowMs: number;
+  };
+  formAbandonment: {
+    /** Inputs needed before leaving a form counts as abandonment */
+    minInputs: number;
+  };
+  horizontalScroll: {
+    /** Viewports narrower than this are treated as mobile */
+    maxViewportWidth: number;
+  };
+  shortSession: {
+    /** Sessions shorter than this count as short */
+    maxDurationMs: number;
+    /** Sessions with more page views than this are never short */
+    maxPageViews: number;
+  };
+}
+
+/**
+ * Complete, validated application configuration
+ */
+export interface IssueSpotterConfig {
+  /** Minutes between checks in watch mode */
+  checkIntervalMinutes: number;
+  /** Capture screenshots from RRweb sessions */
+  includeScreenshots: boolean;
+  /** Enable detailed logging and stack traces */
+  debugMode: boolean;
+  /** How issues are detected: by the LLM, by local rules only, or by rules that pre-filter the LLM */
+  analysisMode: 'llm' | 'rules' | 'hybrid';
+  posthog: {
+    /** PostHog instance URL */
+    host: string;
+    /** Project ID required by HogQL and session recordings */
+    projectId?: string;
+    /** Hard cap on the total number of events fetched per run */
+    maxEvents: number;
+    /** Number of events requested per page, capped at maxEvents when fetching */
+    pageSize: number;
+    /** File that stores the timestamp of the newest processed event */
+    cursorPath: string;
+    /** API used to read events */
+    eventsSource: 'events-api' | 'hogql';
+    /** Maximum number of recordings downloaded per run */
+    maxRecordings: number;
+    /** Inactivity after which events without a `$session_id` start a new session */
+    sessionTimeoutMs: number;
+    /** Events a session needs to be worth downloading */
+    interestingSessionMinEvents: number;
+    /** Weight of a rage click when ranking sessions for download */
+    rageclickSessionWeight: number;
+  };
+  rrweb: {
+    /** Where RRweb recordings come from */
+    source: 'file' | 'posthog';
+    /** Export file read when the source is `file` */
+    dataFile: string;
+    /** Window for matching key moments with nearby PostHog events */
+    syncWindowMs: number;
+  };
+  ai: {
+    /** LLM provider used for analysis */
+    provider: 'openai' | 'anthropic' | 'azure' | 'local' | 'fake';
+    /** Model (the deployment name for Azure), defaults to the provider's usual model */
+    model?: string;
+    /** API endpoint for Azure, Anthropic or an OpenAI-compatible local server */
+    baseUrl?: string;
+    /** Azure OpenAI API version */
+    apiVersion?: string;
+    /** Whether the model accepts screenshots, overriding the provider's default */
+    imageInput?: boolean;
+    /** Structured output support, overriding the provider's default */
+    jsonMode?: 'schema' | 'object' | 'none';
+    /** Reply returned by the fake provider */
+    fakeResponseFile?: string;
+    /** One request for the most valuable sessions, a request per session with merged findings, or one request when every session fits */
+    strategy: 'auto' | 'single' | 'map-reduce';
+    /** Analysis requests in flight at once when sessions are analyzed separately */
+    concurrency: number;
+    /** Most sessions analyzed separately, the most valuable first */
+    maxMappedSessions: number;
+    /** Estimated tokens the analysis request may take, images included */
+    maxPromptTokens: number;
+    /** Most screenshots attached to the analysis request */
+    maxScreenshots: number;
+    /** Most sessions included in the analysis request; the token budget usually stops first */
+    maxSessions: number;
+    /** Events included per session */
+    maxEventsPerSession: number;
+    /** Window for finding events around a screenshot */
+    contextWindowMs: number;
+    /** Follow-up requests made when the response fails validation */
+    maxRepairAttempts: number;
+  };
+  detectors: DetectorThresholds;
+  detection: {
+    /** Detectors that are not run, by name (e.g. "MouseHovering") */
+    disabledDetectors: string[];
+    /** Modules exporting custom detectors, relative to the working directory */
+    customDetectors: string[];
+  };
+  rules: {
+    /** Findings scoring below this are dropped */
+    minScore: number;
+    /** Score from which a finding is medium severity */
+    mediumSeverityScore: number;
+    /** Score from which a finding is high severity */
+    highSeverityScore: number;
+  };
+  screenshots: {
+    /** Directory that holds the capture runs */
+    dir: string;
+    /** Screenshots captured per session */
+    maxPerSession: number;
+    /** Most recent capture runs to keep */
+    retentionRuns: number;
+    /** Remove capture runs older than this many days */
+    retentionDays?: number;
+    /** Time the replay is given to settle before each screenshot */
+    waitMs: number;
+    /** Replay viewport width */
+    viewportWidth: number;
+    /** Replay viewport height */
+    viewportHeight: number;
+  };
+  issueStore: {
+    /** JSON-lines file where issues are tracked across runs */
+    path: string;
+    /** Days an issue must go unreported before it counts as regressed */
+    regressionDays: number;
+  };
+  sinks: {
+    /** Ticket trackers that new and regressed issues are filed in */
+    enabled: ('github' | 'jira' | 'linear' | 'webhook')[];
+    /** Log the requests instead of sending them */
+    dryRun: boolean;
+    github: {
+      /** Repository as owner/name */
+      repository?: string;
+      /** API URL, for GitHub Enterprise */
+      apiUrl?: string;
+      /** Branch that screenshots are committed to, embedded in the issue when set */
+      evidenceBranch?: string;
+    };
+    jira: {
+      /** Site URL, e.g. https://acme.atlassian.net */
+      baseUrl?: string;
+      /** Account the API token belongs to */
+      email?: string;
+      /** Key of the project issues are created in */
+      projectKey?: string;
+      /** Issue type name, defaults to Bug */
+      issueType?: string;
+    };
+    linear: {
+      /** Team issues are created in */
+      teamId?: string;
+      /** GraphQL endpoint */
+      apiUrl?: string;
+    };
+    webhook: {
+      /** URL the tickets are posted to */
+      url?: string;
+    };
+  };
+  redaction: {
+    /** Mask personal data before anything is sent to the LLM or a ticket sink */
+    enabled: boolean;
+    /** Kinds of personal data masked wherever they appear in text */
+    patterns: {
+      email: boolean;
+      phone: boolean;
+      /** Card numbers that pass the Luhn check */
+      card: boolean;
+      /** API keys, bearer tokens, JWTs and credentials in URLs */
+      token: boolean;
+    };
+    /** Input types whose recorded values are masked, as in rrweb's `maskInputOptions` */
+    maskInputOptions: {
+      password: boolean;
+      email: boolean;
+      tel: boolean;
+      text: boolean;
+      textarea: boolean;
+      select: boolean;
+      number: boolean;
+      search: boolean;
+      url: boolean;
+      date: boolean;
+    };
+    /** CSS selectors of inputs whose values are masked whatever their type */
+    maskInputSelectors: string[];
+    /** Blur masked inputs in screenshots */
+    blurScreenshots: boolean;
+    /** JSON-lines file that records what was redacted from each request and ticket batch */
+    auditPath: string;
+  };
+  llmCache: {
+    /** Reuse and store replies, serve replies from the cache only, or leave the cache alone */
+    mode: 'read-write' | 'replay' | 'off';
+    /** Directory with one file per cached reply */
+    dir: string;
+    /** Hours a cached reply is reused */
+    ttlHours: number;
+    /** Size of the cache directory above which the least recently used replies are removed */
+    maxSizeMb: number;
+  };
+}
+
+/**
+ * Options for loading the configuration
+ */
+export interface LoadConfigOptions {
+  /** Config file, defaults to ISSUE_SPOTTER_CONFIG or ./issue-spotter.config.json when present */
+  configPath?: string;
+  /** Profile applied on top of the base settings, defaults to ISSUE_SPOTTER_PROFILE */
+  profile?: string;
+  /** Environment to read overrides from */
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Validation rule for a single setting
+ */
+type SettingSpec =
+  | { type: 'integer' | 'number'; min: number; optional?: boolean; env?: string }
+  | { type: 'boolean'; optional?: boolean; env?: string }
+  | { type: 'string'; optional?: boolean; env?: string }
+  | { type: 'stringList'; values?: string[]; optional?: boolean; env?: string }
+  | { type: 'enum'; values: string[]; optional?: boolean; env?: string };
+
+/**
+ * Validation rules mirroring the shape of the configuration
+ */
+type ConfigSchema<T> = {
+  [K in keyof T]-?: NonNullable<T[K]> extends string | number | boolean | string[] ? SettingSpec : ConfigSchema<NonNullable<T[K]>>;
+};
+
+const positiveInteger = (env?: string): SettingSpec => ({ type: 'integer', min: 1, env });
+const nonNegativeInteger = (env?: string): SettingSpec => ({ type: 'integer', min: 0, env });
+
+/**
+ * Settings used when neither the config file nor the environment provides a value
+ */
+const DEFAULT_CONFIG: IssueSpotterConfig = {
+  checkIntervalMinutes: 15,
+  includeScreenshots: false,
+  debugMode: false,
+  analysisMode: 'llm',
+  posthog: {
+    host: 'https://app.posthog.com',
+    maxEvents: 100,
+    pageSize: 100,
+    cursorPath: path.join('.issue-spotter', 'posthog-cursor.json'),
+    eventsSource: 'events-api',
+    maxRecordings: 5,
+    sessionTimeoutMs: 30 * 60 * 1000,
+    interestingSessionMinEvents: 5,
+    rageclickSessionWeight: 5
+  },
+  rrweb: {
+    source: 'file',
+    dataFile: 'RRweb data.json',
+    syncWindowMs: 30000
+  },
+  ai: {
+    provider: 'openai',
+    strategy: 'auto',
+    concurrency: 4,
+    maxMappedSessions: 100,
+    maxPromptTokens: 24000,
+    maxScreenshots: 3,
+    maxSessions: 20,
+    maxEventsPerSession: 10,
+    contextWindowMs: 5000,
+    maxRepairAttempts: 2
+  },
+  detectors: {
+    rageClick: { minClicks: 3, maxIntervalMs: 1000, radiusPx: 20 },
+    navigationLoop: { minVisits: 3, windowMs: 120000 },
+    rapidScrolling: { minScrollEvents: 8, windowMs: 5000 },
+    mouseHovering: { minIdleMs: 3000, radiusPx: 30 },
+    hesitation: { minPauseMs: 10000, maxPauseMs: 300000 },
+    multipleSubmissions: { minClicks: 3, windowMs: 10000 },
+    formAbandonment: { minInputs: 2 },
+    horizontalScroll: { maxViewportWidth: 768 },
+    shortSession: { maxDurationMs: 10000, maxPageViews: 2 }
+  },
+  detection: {
+    disabledDetectors: [],
+    customDetectors: []
+  },
+  rules: {
+    minScore: 2,
+    mediumSeverityScore: 4,
+    highSeverityScore: 9
+  },
+  screenshots: {
+    dir: 'screenshots',
+    maxPerSession: 5,
+    retentionRuns: 10,
+    waitMs: 500,
+    viewportWidth: 1280,
+    viewportHeight: 800
+  },
+  issueStore: {
+    path: path.join('.issue-spotter', 'issues.jsonl'),
+    regressionDays: 7
+  },
+  sinks: {
+    enabled: [],
+    dryRun: false,
+    github: {},
+    jira: {},
+    linear: {},
+    webhook: {}
+  },
+  redaction: {
+    enabled: true,
+    patterns: { email: true, phone: true, card: true, token: true },
+    maskInputOptions: {
+      password: true,
+      email: true,
+      tel: true,
+      text: false,
+      textarea: false,
+      select: false,
+      number: false,
+      search: false,
+      url: false,
+      date: false
+    },
+    maskInputSelectors: ['.rr-mask', '.ph-no-capture', '[autocomplete^="cc-"]', '[data-private]'],
+    blurScreenshots: true,
+    auditPath: path.join('.issue-spotter', 'redaction-audit.jsonl')
+  },
+  llmCache: {
+    mode: 'read-write',
+    dir: path.join('.issue-spotter', 'llm-cache'),
+    ttlHours: 168,
+    maxSizeMb: 100
+  }
+};
+
+/**
+ * Validation rules, including the environment variables that override each setting
+ */
+const CONFIG_SCHEMA: ConfigSchema<IssueSpotterConfig> = {
+  checkIntervalMinutes: positiveInteger('CHECK_INTERVAL_MINUTES'),
+  includeScreenshots: { type: 'boolean', env: 'INCLUDE_SCREENSHOTS' },
+  debugMode: { type: 'boolean', env: 'DEBUG_MODE' },
+  analysisMode: { type: 'enum', values: ['llm', 'rules', 'hybrid'], env: 'ANALYSIS_MODE' },
+  posthog: {
+    host: { type: 'string', env: 'POSTHOG_HOST' },
+    projectId: { type: 'string', optional: true, env: 'POSTHOG_PROJECT_ID' },
+    maxEvents: positiveInteger('MAX_EVENTS_TO_ANALYZE'),
+    pageSize: positiveInteger('POSTHOG_PAGE_SIZE'),
+    cursorPath: { type: 'string', env: 'POSTHOG_CURSOR_PATH' },
+    eventsSource: { type: 'enum', values: ['events-api', 'hogql'], env: 'POSTHOG_EVENTS_SOURCE' },
+    maxRecordings: positiveInteger('POSTHOG_MAX_RECORDINGS'),
+    sessionTimeoutMs: positiveInteger(),
+    interestingSessionMinEvents: positiveInteger(),
+    rageclickSessionWeight: nonNegativeInteger()
+  },
+  rrweb: {
+    source: { type: 'enum', values: ['file', 'posthog'], env: 'RRWEB_SOURCE' },
+    dataFile: { type: 'string' },
+    syncWindowMs: positiveInteger()
+  },
+  ai: {
+    provider: { type: 'enum', values: ['openai', 'anthropic', 'azure', 'local', 'fake'], env: 'LLM_PROVIDER' },
+    model: { type: 'string', optional: true, env: 'LLM_MODEL' },
+    baseUrl: { type: 'string', optional: true, env: 'LLM_BASE_URL' },
+    apiVersion: { type: 'string', optional: true, env: 'AZURE_OPENAI_API_VERSION' },
+    imageInput: { type: 'boolean', optional: true, env: 'LLM_IMAGE_INPUT' },
+    jsonMode: { type: 'enum', values: ['schema', 'object', 'none'], optional: true, env: 'LLM_JSON_MODE' },
+    fakeResponseFile: { type: 'string', optional: true, env: 'LLM_FAKE_RESPONSE_FILE' },
+    strategy: { type: 'enum', values: ['auto', 'single', 'map-reduce'], env: 'LLM_STRATEGY' },
+    concurrency: positiveInteger('LLM_CONCURRENCY'),
+    maxMappedSessions: positiveInteger(),
+    maxPromptTokens: positiveInteger('LLM_MAX_PROMPT_TOKENS'),
+    maxScreenshots: nonNegativeInteger(),
+    maxSessions: positiveInteger(),
+    maxEventsPerSession: positiveInteger(),
+    contextWindowMs: positiveInteger(),
+    maxRepairAttempts: nonNegativeInteger()
+  },
+  detectors: {
+    rageClick: { minClicks: positiveInteger(), maxIntervalMs: positiveInteger(), radiusPx: nonNegativeInteger() },
+    navigationLoop: { minVisits: positiveInteger(), windowMs: positiveInteger() },
+    rapidScrolling: { minScrollEvents: positiveInteger(), windowMs: positiveInteger() },
+    mouseHovering: { minIdleMs: positiveInteger(), radiusPx: nonNegativeInteger() },
+    hesitation: { minPauseMs: positiveInteger(), maxPauseMs: positiveInteger() },
+    multipleSubmissions: { minClicks: positiveInteger(), windowMs: positiveInteger() },
+    formAbandonment: { minInputs: positiveInteger() },
+    horizontalScroll: { maxViewportWidth: positiveInteger() },
+    shortSession: { maxDurationMs: positiveInteger(), maxPageViews: nonNegativeInteger() }
+  },
+  detection: {
+    disabledDetectors: { type: 'stringList', env: 'DISABLED_DETECTORS' },
+    customDetectors: { type: 'stringList', env: 'CUSTOM_DETECTORS' }
+  },
+  rules: {
+    minScore: nonNegativeInteger(),
+    mediumSeverityScore: positiveInteger(),
+    highSeverityScore: positiveInteger()
+  },
+  screenshots: {
+    dir: { type: 'string', env: 'SCREENSHOTS_DIR' },
+    maxPerSession: positiveInteger(),
+    retentionRuns: positiveInteger('SCREENSHOT_RETENTION_RUNS'),
+    retentionDays: { type: 'integer', min: 1, optional: true, env: 'SCREENSHOT_RETENTION_DAYS' },
+    waitMs: nonNegativeInteger(),
+    viewportWidth: positiveInteger(),
+    viewportHeight: positiveInteger()
+  },
+  issueStore: {
+    path: { type: 'string', env: 'ISSUE_STORE_PATH' },
+    regressionDays: positiveInteger('ISSUE_REGRESSION_DAYS')
+  },
+  sinks: {
+    enabled: { type: 'stringList', values: ['github', 'jira', 'linear', 'webhook'], env: 'TICKET_SINKS' },
+    dryRun: { type: 'boolean', env: 'TICKET_SINK_DRY_RUN' },
+    github: {
+      repository: { type: 'string', optional: true, env: 'GITHUB_REPOSITORY' },
+      apiUrl: { type: 'string', optional: true, env: 'GITHUB_API_URL' },
+      evidenceBranch: { type: 'string', optional: true, env: 'GITHUB_EVIDENCE_BRANCH' }
+    },
+    jira: {
+      baseUrl: { type: 'string', optional: true, env: 'JIRA_BASE_URL' },
+      email: { type: 'string', optional: true, env: 'JIRA_EMAIL' },
+      projectKey: { type: 'string', optional: true, env: 'JIRA_PROJECT_KEY' },
+      issueType: { type: 'string', optional: true, env: 'JIRA_ISSUE_TYPE' }
+    },
+    linear: {
+      teamId: { type: 'string', optional: true, env: 'LINEAR_TEAM_ID' },
+      apiUrl: { type: 'string', optional: true, env: 'LINEAR_API_URL' }
+    },
+    webhook: {
+      url: { type: 'string', optional: true, env: 'TICKET_WEBHOOK_URL' }
+    }
+  },
+  redaction: {
+    enabled: { type: 'boolean', env: 'REDACTION_ENABLED' },
+    patterns: {
+      email: { type: 'boolean' },
+      phone: { type: 'boolean' },
+      card: { type: 'boolean' },
+      token: { type: 'boolean' }
+    },
+    maskInputOptions: {
+      password: { type: 'boolean' },
+      email: { type: 'boolean' },
+      tel: { type: 'boolean' },
+      text: { type: 'boolean' },
+      textarea: { type: 'boolean' },
+      select: { type: 'boolean' },
+      number: { type: 'boolean' },
+      search: { type: 'boolean' },
+      url: { type: 'boolean' },
+      date: { type: 'boolean' }
+    },
+    maskInputSelectors: { type: 'stringList', env: 'REDACTION_MASK_INPUT_SELECTORS' },
+    blurScreenshots: { type: 'boolean', env: 'REDACTION_BLUR_SCREENSHOTS' },
+    auditPath: { type: 'string', env: 'REDACTION_AUDIT_PATH' }
+  },
+  llmCache: {
+    mode: { type: 'enum', values: ['read-write', 'replay', 'off'], env: 'LLM_CACHE_MODE' },
+    dir: { type: 'string', env: 'LLM_CACHE_DIR' },
+    ttlHours: positiveInteger('LLM_CACHE_TTL_HOURS'),
+    maxSizeMb: positiveInteger('LLM_CACHE_MAX_SIZE_MB')
+  }
+};
+
+// Configuration shared by all modules, loaded on first use
+let activeConfig: IssueSpotterConfig | null = null;
+
+/**
+ * Check whether a schema node describes a single setting rather than a group
+ * @param node Schema node
+ * @returns True for setting rules
+ */
+function isSettingSpec(node: unknown): node is SettingSpec {
+  return typeof (node as SettingSpec).type === 'string';
+}
+
+/**
+ * Convert a camelCase key to the SCREAMING_SNAKE_CASE used in env var names
+ * @param key Config key
+ * @returns Env var segment
+ */
+function toEnvSegment(key: string): string {
+  return key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+/**
+ * Check a value against a setting's rule
+ * @param spec Setting rule
+ * @param value Value to check
+ * @returns Error message, or null when the value is valid
+ */
+function validateSetting(spec: SettingSpec, value: unknown): string | null {
+  if (value === undefined) {
+    return spec.optional ? null : 'is required';
+  }
+  
+  switch (spec.type) {
+    case 'integer':
+    case 'number':
+      if (typeof value !== 'number' || isNaN(value) || (spec.type === 'integer' && !Number.isInteger(value))) {
+        return `expected ${spec.type === 'integer' ? 'an integer' : 'a number'}, got ${JSON.stringify(value)}`;
+      }
+      return value < spec.min ? `must be at least ${spec.min}, got ${value}` : null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `expected true or false, got ${JSON.stringify(value)}`;
+    case 'string':
+      return typeof value === 'string' && value.trim() !== '' ? null : `expected a non-empty string, got ${JSON.stringify(value)}`;
+    case 'stringList':
+      if (!Array.isArray(value) || !value.every(item => typeof item === 'string' && item.trim() !== '')) {
+        return `expected a list of non-empty strings, got ${JSON.stringify(value)}`;
+      }
+      return !spec.values || value.every(item => spec.values!.includes(item))
+        ? null
+        : `expected values from ${spec.values.map(v => `"${v}"`).join(', ')}, got ${JSON.stringify(value)}`;
+    case 'enum':
+      return spec.values.includes(value as string)
+        ? null
+        : `expected one of ${spec.values.map(v => `"${v}"`).join(', ')}, got ${JSON.stringify(value)}`;
+  }
+}
+
+/**
+ * Convert an environment variable to the type a setting expects
+ * @param spec Setting rule
+ * @param raw Raw env var value
+ * @returns Parsed value; invalid numbers become NaN so validation reports them
+ */
+function parseEnvValue(spec: SettingSpec, raw: string): unknown {
+  switch (spec.type) {
+    case 'integer':
+    case 'number':
+      return /^-?\d+(\.\d+)?$/.test(raw.trim()) ? Number(raw) : NaN;
+    case 'boolean':
+      return raw === 'true' ? true : raw === 'false' ? false : raw;
+    case 'stringList':
+      return raw.split(',').map(item => item.trim()).filter(Boolean);
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Merge a partial configuration layer into a configuration object, validating as it goes
+ * @param target Configuration being built, modified in place
+ * @param layer Partial configuration from a file or profile
+ * @param schema Schema node for this level
+ * @param source Description of the layer, used in error messages
+ * @param errors Collected error messages
+ * @param prefix Dotted path of this level
+ */
+function mergeLayer(
+  target: Record<string, any>,
+  layer: Record<string, any>,
+  schema: Record<string, any>,
+  source: string,
+  errors: string[],
+  prefix: string = ''
+): void {
+  for (const [key, value] of Object.entries(layer)) {
+    const settingPath = `${prefix}${key}`;
+    const node = schema[key];
+    
+    if (!node) {
+      const known = Object.keys(schema).join(', ');
+      errors.push(`${source}: unknown setting "${settingPath}" (known settings${prefix ? ` in ${prefix.slice(0, -1)}` : ''}: ${known})`);
+      continue;
+    }
+    
+    if (isSettingSpec(node)) {
+      const error = validateSetting(node, value === null ? undefined : value);
+      if (error) {
+        errors.push(`${source}: ${settingPath} ${error}`);
+      } else {
+        target[key] = value === null ? undefined : value;
+      }
+      continue;
+    }
+    
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push(`${source}: ${settingPath} must be an object`);
+      continue;
+    }
+    
+    mergeLayer(target[key], value, node, source, errors, `${settingPath}.`);
+  }
+}
+
+/**
+ * Apply environment variable overrides
+ *
+ * Each setting can be set with ISSUE_SPOTTER__<GROUP>__<SETTING>, e.g.
+ * ISSUE_SPOTTER__DETECTORS__RAGE_CLICK__MIN_CLICKS. Long-standing variables such as
+ * CHECK_INTERVAL_MINUTES keep working for the settings they always controlled.
+ *
+ * @param target Configuration being built, modified in place
+ * @param schema Schema node for this level
+ * @param env Environment to read
+ * @param errors Collected error messages
+ * @param keys Path of this level
+ */
+function applyEnvOverrides(
+  target: Record<string, any>,
+  schema: Record<string, any>,
+  env: NodeJS.ProcessEnv,
+  errors: string[],
+  keys: string[] = []
+): void {
+  for (const [key, node] of Object.entries(schema)) {
+    const settingKeys = [...keys, key];
+    
+    if (!isSettingSpec(node)) {
+      applyEnvOverrides(target[key], node, env, errors, settingKeys);
+      continue;
+    }
+    
+    const names = [`${ENV_OVERRIDE_PREFIX}${settingKeys.map(toEnvSegment).join('__')}`];
+    if (node.env) names.push(node.env);
+    
+    const name = names.find(candidate => env[candidate] !== undefined && env[candidate] !== '');
+    if (!name) continue;
+    
+    const value = parseEnvValue(node, env[name]!);
+    const error = validateSetting(node, value);
+    if (error) {
+      errors.push(`environment variable ${name} (${settingKeys.join('.')}) ${error}`);
+    } else {
+      target[key] = value;
+    }
+  }
+}
+
+/**
+ * Check rules that involve more than one setting
+ * @param config Merged configuration
+ * @param errors Collected error messages
+ */
+function validateCrossFieldRules(config: IssueSpotterConfig, errors: string[]): void {
+  if (config.detectors.hesitation.minPauseMs >= config.detectors.hesitation.maxPauseMs) {
+    errors.push('detectors.hesitation.minPauseMs must be less than detectors.hesitation.maxPauseMs');
+  }
+  if (config.rules.mediumSeverityScore > config.rules.highSeverityScore) {
+    errors.push('rules.mediumSeverityScore must not exceed rules.highSeverityScore');
+  }
+  
+  // Tokens stay in the environment and are checked when the sinks are created
+  const requiredSinkSettings: Record<IssueSpotterConfig['sinks']['enabled'][number], string[]> = {
+    github: ['repository'],
+    jira: ['baseUrl', 'email', 'projectKey'],
+    linear: ['teamId'],
+    webhook: ['url']
+  };
+  for (const sink of config.sinks.enabled) {
+    const settings: Record<string, unknown> = config.sinks[sink];
+    for (const key of requiredSinkSettings[sink].filter(key => settings[key] === undefined)) {
+      errors.push(`sinks.${sink}.${key} is required when the ${sink} sink is enabled`);
+    }
+  }
+}
+
+/**
+ * Resolve which config file to read
+ * @param options Load options
+ * @param env Environment to read
+ * @returns Path of the config file, or undefined when none is configured or present
+ */
+function resolveConfigPath(options: LoadConfigOptions, env: NodeJS.ProcessEnv): string | undefined {
+  const explicitPath = options.configPath || env.ISSUE_SPOTTER_CONFIG;
+  if (explicitPath) {
+    return explicitPath;
+  }
+  
+  const defaultPath = path.join(process.cwd(), DEFAULT_CONFIG_FILENAME);
+  return fs.existsSync(defaultPath) ? defaultPath : undefined;
+}
+
+/**
+ * Load and validate the configuration
+ *
+ * Settings are layered: built-in defaults, then the config file, then the selected
+ * profile from the file's `profiles` section, then environment variables. All
+ * problems are collected and reported together.
+ *
+ * @param options Config file, profile and environment to use
+ * @returns Validated configuration
+ * @throws Error listing every invalid or unknown setting
+ */
+export function loadConfig(options: LoadConfigOptions = {}): IssueSpotterConfig {
+  const env = options.env || process.env;
+  const config: IssueSpotterConfig = JSON.parse(JSON.stringify(DEFAULT_CONFIG));
+  const errors: string[] = [];
+  
+  const configPath = resolveConfigPath(options, env);
+  const profile = options.profile || env.ISSUE_SPOTTER_PROFILE;
+  
+  if (configPath) {
+    let file: Record<string, any>;
+    try {
+      file = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Could not read config file ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    if (typeof file !== 'object' || file === null || Array.isArray(file)) {
+      throw new Error(`Config file ${configPath} must contain a JSON object`);
+    }
+    
+    const { profiles = {}, ...base } = file;
+    mergeLayer(config, base, CONFIG_SCHEMA, configPath, errors);
+    
+    if (profile) {
+      if (!profiles[profile]) {
+        const available = Object.keys(profiles);
+        throw new Error(
+          `Profile "${profile}" is not defined in ${configPath}` +
+          (available.length > 0 ? ` (available profiles: ${available.join(', ')})` : ' (the file has no profiles)')
+        );
+      }
+      mergeLayer(config, profiles[profile], CONFIG_SCHEMA, `${configPath} profile "${profile}"`, errors);
+    }
+  } else if (profile) {
+    throw new Error(`Profile "${profile}" was requested but no config file was found (looked for ${DEFAULT_CONFIG_FILENAME})`);
+  }
+  
+  applyEnvOverrides(config, CONFIG_SCHEMA, env, errors);
+  
+  if (errors.length === 0) {
+    validateCrossFieldRules(config, errors);
+  }
+  
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+  
+  return config;
+}
+
+/**
+ * Load the configuration and make it the one returned by getConfig
+ * @param options Config file, profile and environment to use
+ * @returns Validated configuration
+ * @throws Error listing every invalid or unknown setting
+ */
+export function initConfig(options: LoadConfigOptions = {}): IssueSpotterConfig {
+  activeConfig = loadConfig(options);
+  return activeConfig;
+}
+
+/**
+ * Get the active configuration, loading it from the default locations on first use
+ * @returns Validated configuration
+ * @throws Error listing every invalid or unknown setting
+ */
+export function getConfig(): IssueSpotterConfig {
+  if (!activeConfig) {
+    activeConfig = loadConfig();
+  }
+  return activeConfig;
+}
@@ -0,0 +1,143 @@
+// Constants
+const CHARS_PER_TOKEN = 4;
+const MAX_LISTED_OMISSIONS = 5;
+
+/**
+ * Something left out of the analysis request
+ */
+export interface OmittedContext {
+  /** What was left out */
+  kind: 'session' | 'screenshot';
+  /** Session ID, or screenshot file name */
+  id: string;
+  /** Whether a count limit was reached or the tokens did not fit */
+  reason: 'limit' | 'budget';
+  /** Estimated tokens it would have taken */
+  tokens: number;
+}
+
+/**
+ * Tracks the tokens taken by an analysis request and what was left out of it
+ */
+export interface TokenBudget {
+  /** Tokens available */
+  limit: number;
+  /**
+   * Get the tokens taken so far
+   * @returns Estimated tokens
+   */
+  used(): number;
+  /**
+   * Take tokens if they fit in what is left
+   * @param tokens Estimated tokens
+   * @returns True when they were taken
+   */
+  tryTake(tokens: number): boolean;
+  /**
+   * Take tokens whether or not they fit, for content that is always sent
+   * @param tokens Estimated tokens
+   */
+  take(tokens: number): void;
+  /**
+   * Record something that was left out
+   * @param item What was left out and why
+   */
+  omit(item: OmittedContext): void;
+  /**
+   * Get everything left out, in the order it was recorded
+   * @returns Omitted sessions and screenshots
+   */
+  getOmitted(): OmittedContext[];
+}
+
+/**
+ * Estimate the tokens of a text
+ *
+ * Counts about four characters per token, which is close for English and JSON
+ * with the tokenizers of the supported models, without loading one.
+ *
+ * @param text Text to estimate
+ * @returns Estimated tokens
+ */
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate the tokens of an image
+ *
+ * Takes the larger of OpenAI's count (85 tokens plus 170 per 512px tile, once the
+ * image is scaled to fit 2048px and then to a 768px short side) and Anthropic's
+ * (a token per 750 pixels, once the long side is scaled to 1568px), so the
+ * estimate holds for every provider.
+ *
+ * @param size Image size in pixels
+ * @returns Estimated tokens
+ */
+export function estimateImageTokens(size: { width: number; height: number }): number {
+  const { width, height } = size;
+  if (width <= 0 || height <= 0) return 0;
+  
+  const fitScale = Math.min(1, 2048 / Math.max(width, height));
+  const tileScale = fitScale * Math.min(1, 768 / (Math.min(width, height) * fitScale));
+  const tiles = Math.ceil(width * tileScale / 512) * Math.ceil(height * tileScale / 512);
+  const openAiTokens = 85 + 170 * tiles;
+  
+  const pixelScale = Math.min(1, 1568 / Math.max(width, height));
+  const anthropicTokens = Math.ceil(width * height * pixelScale * pixelScale / 750);
+  
+  return Math.max(openAiTokens, anthropicTokens);
+}
+
+/**
+ * Create a token budget
+ * @param limit Tokens available
+ * @returns An empty budget
+ */
+export function createTokenBudget(limit: number): TokenBudget {
+  let used = 0;
+  const omitted: OmittedContext[] = [];
+  
+  return {
+    limit,
+    used: () => used,
+    tryTake(tokens) {
+      if (used + tokens > limit) return false;
+      used += tokens;
+      return true;
+    },
+    take(tokens) {
+      used += tokens;
+    },
+    omit(item) {
+      omitted.push(item);
+    },
+    getOmitted: () => [...omitted]
+  };
+}
+
+/**
+ * Describe what was left out of a request, for the log and the model
+ * @param omitted Omitted sessions and screenshots
+ * @param limit Token budget of the request
+ * @returns One sentence per kind, listing the first few IDs; empty when nothing was left out
+ */
+export function describeOmittedContext(omitted: OmittedContext[], limit: number): string {
+  const describe = (kind: OmittedContext['kind']) => {
+    const items = omitted.filter(item => item.kind === kind);
+    if (items.length === 0) return '';
+    
+    const overBudget = items.filter(item => item.reason === 'budget').length;
+    const reasons = [
+      overBudget > 0 ? `${overBudget} did not fit in the ${limit}-token budget` : '',
+      items.length > overBudget ? `${items.length - overBudget} were over the count limit` : ''
+    ].filter(Boolean).join(', ');
+    const listed = items.slice(0, MAX_LISTED_OMISSIONS).map(item => item.id).join(', ');
+    const more = items.length > MAX_LISTED_OMISSIONS ? ` and ${items.length - MAX_LISTED_OMISSIONS} more` : '';
+    const tokens = items.reduce((sum, item) => sum + item.tokens, 0);
+    
+    return `${items.length} lower-ranked ${kind}(s) left out (${reasons}; about ${tokens} tokens): ${listed}${more}`;
+  };
+  
+  return [describe('session'), describe('screenshot')].filter(Boolean).join('\n');
+}
@@ -1,6 +1,9 @@
 import fs from 'fs';
 import dotenv from 'dotenv';
 import path from 'path';
+import { getConfig } from './config';
+import { LLM_API_KEY_ENV_VARS, createProviderFromConfig } from './llm';
+import { SINK_TOKEN_ENV_VARS } from './sinks';
 
 /**
  * Logger interface to maintain consistency with other modules
@@ -12,16 +15,29 @@ interface Logger {
   debug: (message: string) => void;
 }
 
+/**
+ * Check whether debug logging is enabled in the configuration
+ *
+ * @returns True in debug mode; false when the configuration is invalid
+ */
+function isDebugMode(): boolean {
+  try {
+    return getConfig().debugMode;
+  } catch {
+    return false;
+  }
+}
+
 // Create a logger consistent with other modules
 const logger: Logger = {
-  info: (message: string) => console.log(`[INFO] ${message}`),
+  info: (message: string) => console.error(`[INFO] ${message}`),
   warn: (message: string) => console.warn(`[WARN] ${message}`),
   error: (message: string, error?: unknown) => {
     console.error(`[ERROR] ${message}`);
     if (error) {
       if (error instanceof Error) {
         console.error(`       ${error.message}`);
-        if (process.env.DEBUG_MODE === 'true' && error.stack) {
+        if (isDebugMode() && error.stack) {
           console.error(`       ${error.stack}`);
         }
       } else {
@@ -30,23 +46,38 @@ const logger: Logger = {
     }
   },
   debug: (message: string) => {
-    if (process.env.DEBUG_MODE === 'true') {
-      console.log(`[DEBUG] ${message}`);
+    if (isDebugMode()) {
+      console.error(`[DEBUG] ${message}`);
     }
   }
 };
 
 /**
- * Required environment variables for the application
+ * Required environment variables for the application; the other settings have
+ * defaults in the configuration file
  */
 const REQUIRED_ENV_VARS = [
-  'POSTHOG_API_KEY',
-  'OPENAI_API_KEY',
-  'POSTHOG_HOST',
-  'CHECK_INTERVAL_MINUTES',
-  'MAX_EVENTS_TO_ANALYZE'
+  'POSTHOG_API_KEY'
 ];
 
+/**
+ * Required environment variables, including the API key of the configured LLM
+ * provider and the credentials of the enabled ticket sinks
+ *
+ * @returns Names of the required variables
+ */
+function getRequiredEnvVars(): string[] {
+  try {
+    const { analysisMode, ai, sinks } = getConfig();
+    const keyVar = analysisMode === 'rules' ? undefined : LLM_API_KEY_ENV_VARS[ai.provider];
+    const sinkVars = sinks.enabled.flatMap(sink => SINK_TOKEN_ENV_VARS[sink]);
+    return [...REQUIRED_ENV_VARS, ...(keyVar ? [keyVar] : []), ...sinkVars];
+  } catch {
+    // An invalid configuration is reported separately
+    return REQUIRED_ENV_VARS;
+  }
+}
+
 /**
  * Check if a file exists at the specified path
  * 
@@ -85,7 +116,7 @@ function safeReadFile(filePath: string): string | null {
  * @returns Safely formatted string representation of the API key
  */
 function formatSensitiveValue(key: string, value: string): string {
-  if (key.includes('API_KEY') || key.includes('SECRET') || key.includes('PASSWORD')) {
+  if (key.includes('API_KEY') || key.includes('TOKEN') || key.includes('SECRET') || key.includes('PASSWORD')) {
     return `${value.substring(0, 5)}... (${value.length} chars)`;
   }
   return value;
@@ -103,6 +134,7 @@ export function verifyEnvironmentSetup(): {
   loadedVars: number;
 } {
   logger.info('===== Environment Configuration Verification =====');
+  const requiredEnvVars = getRequiredEnvVars();
 
   // Check for .env file
   const envPath = path.resolve(process.cwd(), '.env');
@@ -121,12 +153,12 @@ export function verifyEnvironmentSetup(): {
     
     if (!envContent) {
       logger.error('Failed to read .env file content');
-      return { envFileExists: fileExists, missingKeys: REQUIRED_ENV_VARS, loadedVars: 0 };
+      return { envFileExists: fileExists, missingKeys: requiredEnvVars, loadedVars: 0 };
     }
     
     // Check for required keys
     logger.info('\nRequired configuration keys:');
-    REQUIRED_ENV_VARS.forEach(key => {
+    requiredEnvVars.forEach(key => {
       const keyExists = envContent.includes(`${key}=`);
       logger.info(`- ${key}: ${keyExists ? '✓ Present' : '✗ Missing'}`);
       
@@ -140,7 +172,7 @@ export function verifyEnvironmentSetup(): {
     
     // Verify loaded values (showing only first few characters for API keys)
     logger.info('\nEnvironment variables loaded into process:');
-    REQUIRED_ENV_VARS.forEach(key => {
+    requiredEnvVars.forEach(key => {
       const value = process.env[key];
       
       if (value) {
@@ -155,7 +187,7 @@ export function verifyEnvironmentSetup(): {
     });
   } else {
     logger.error('\nERROR: .env file missing - please create one based on .env.example');
-    missingKeys.push(...REQUIRED_ENV_VARS);
+    missingKeys.push(...requiredEnvVars);
   }
   
   logger.info('\n=================================================');
@@ -174,19 +206,19 @@ export function verifyEnvironmentSetup(): {
  */
 export async function testExternalConnections(): Promise<{
   posthog: boolean;
-  openai: boolean;
+  llm: boolean | null;
 }> {
   logger.info('Testing external API connections...');
   
   const results = {
     posthog: false,
-    openai: false
+    llm: false as boolean | null
   };
   
   // Test PostHog connection
   try {
     const posthogKey = process.env.POSTHOG_API_KEY;
-    const posthogHost = process.env.POSTHOG_HOST;
+    const posthogHost = getConfig().posthog.host;
     
     if (!posthogKey || !posthogHost) {
       logger.warn('Missing PostHog configuration, skipping connection test');
@@ -203,25 +235,19 @@ export async function testExternalConnections(): Promise<{
     logger.error('PostHog connection test failed', error);
   }
   
-  // Test OpenAI connection
+  // Test the LLM provider connection, unless analysis runs on rules alone
+  if (getConfig().analysisMode === 'rules') {
+    logger.info('LLM connection test: skipped, analysis mode is rules');
+    results.llm = null;
+    return results;
+  }
+  
   try {
-    const openaiKey = process.env.OPENAI_API_KEY;
-    
-    if (!openaiKey) {
-      logger.warn('Missing OpenAI configuration, skipping connection test');
-    } else {
-      const response = await fetch('https://api.openai.com/v1/models', {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${openaiKey}`
-        }
-      });
-      
-      results.openai = response.status === 200;
-      logger.info(`OpenAI connection test: ${results.openai ? '✓' : '✗'}`);
-    }
+    const provider = createProviderFromConfig();
+    results.llm = await provider.testConnection();
+    logger.info(`LLM (${provider.name}) connection test: ${results.llm ? '✓' : '✗'}`);
   } catch (error) {
-    logger.error('OpenAI connection test failed', error);
+    logger.error('LLM connection test failed', error);
   }
   
   return results;
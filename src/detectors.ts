@@ -0,0 +1,771 @@
+import * as path from 'path';
+import { DetectorThresholds, IssueSpotterConfig, getConfig } from './config';
+import { KeyMoment, ProcessedRRwebData, ProcessedRRwebEvent } from './rrweb';
+
+// Constants
+const EVENT_CONTEXT_WINDOW_SIZE = 5;
+
+// Create a simple logger
+const logger = {
+  info: (message: string) => console.error(`[INFO] ${message}`),
+  warn: (message: string) => console.warn(`[WARN] ${message}`),
+  error: (message: string, error?: unknown) => {
+    console.error(`[ERROR] ${message}`);
+    if (error) {
+      if (error instanceof Error) {
+        console.error(`       ${error.message}`);
+      } else {
+        console.error(`       ${String(error)}`);
+      }
+    }
+  }
+};
+
+/**
+ * What a detector gets to know about the session besides its events
+ */
+export interface DetectorContext {
+  /** Thresholds from the `detectors` section of the config */
+  thresholds: DetectorThresholds;
+  /** URL of the last page of the session, for moments about the whole session */
+  url: string;
+  /**
+   * URL of the page an event occurred on, for moments about that event
+   * @param event One of the session's events
+   */
+  urlOf(event: ProcessedRRwebEvent): string;
+  /**
+   * Events around an event, trimmed for use as the `context` of a key moment
+   * @param index Index of the event in the session's events
+   * @param windowSize Events to include before and after
+   */
+  eventsAround(index: number, windowSize?: number): ProcessedRRwebEvent[];
+}
+
+/**
+ * Finds one kind of key moment in a session
+ *
+ * Custom detectors report their findings as `Custom` key moments.
+ */
+export interface Detector {
+  /** Unique name, used to enable or disable the detector */
+  name: string;
+  /**
+   * Find key moments in a session
+   * @param session Session with its events in chronological order
+   * @param context Thresholds, page URL and helpers
+   * @returns Key moments found, in any order
+   */
+  detect(session: ProcessedRRwebData, context: DetectorContext): KeyMoment[];
+}
+
+/**
+ * Detectors available for a run, with the ones to use
+ */
+export interface DetectorRegistry {
+  /**
+   * Add a detector, enabled
+   * @throws Error when a detector with the same name is already registered
+   */
+  register(detector: Detector): void;
+  /**
+   * Enable or disable a registered detector
+   * @throws Error when no detector has this name
+   */
+  setEnabled(name: string, enabled: boolean): void;
+  /** Registered detectors in registration order, built-ins first */
+  list(): { name: string; enabled: boolean; builtIn: boolean }[];
+  /** Enabled detectors in registration order */
+  getEnabled(): Detector[];
+}
+
+// Elements users expect to react to a click
+const INTERACTIVE_TAGS = new Set<string>(['BUTTON', 'A', 'INPUT', 'SELECT', 'TEXTAREA', 'LABEL']);
+
+/**
+ * Helper function to get context around an event (events before and after)
+ * @param events Array of processed events
+ * @param currentIndex Index of the current event
+ * @param windowSize Number of events to include before and after
+ * @returns Array of events providing context
+ */
+function getContextAroundEvent(
+  events: ProcessedRRwebEvent[],
+  currentIndex: number,
+  windowSize: number = EVENT_CONTEXT_WINDOW_SIZE
+): ProcessedRRwebEvent[] {
+  // Validate inputs
+  if (!events || !Array.isArray(events) || events.length === 0) {
+    return [];
+  }
+  
+  if (currentIndex < 0 || currentIndex >= events.length) {
+    return [];
+  }
+  
+  const startIdx = Math.max(0, currentIndex - windowSize);
+  const endIdx = Math.min(events.length - 1, currentIndex + windowSize);
+  
+  return events.slice(startIdx, endIdx + 1).map(e => {
+    // Filter out large properties to keep context size manageable
+    const { type, timestamp, details, pageIndex, element } = e;
+    let simplifiedDetails = { ...details };
+    
+    // Remove verbose properties
+    if (simplifiedDetails.positions && simplifiedDetails.positions.length > 3) {
+      simplifiedDetails.positions = simplifiedDetails.positions.slice(0, 3);
+    }
+    
+    return { type, timestamp, details: simplifiedDetails, pageIndex, element };
+  });
+}
+
+/**
+ * Check whether an event is a mouse interaction of one of the given kinds
+ * @param event Processed event
+ * @param interactionTypes Accepted interaction types, e.g. 'Click'
+ * @returns True for matching mouse interactions
+ */
+function isMouseInteraction(event: ProcessedRRwebEvent, ...interactionTypes: string[]): boolean {
+  return event.type === 'IncrementalSnapshot' &&
+    event.details.incrementalType === 'MouseInteraction' &&
+    (interactionTypes.length === 0 || interactionTypes.includes(event.details.interactionType));
+}
+
+/**
+ * Check whether an event is an incremental snapshot of the given kind
+ * @param event Processed event
+ * @param incrementalType Incremental type, e.g. 'Scroll'
+ * @returns True for matching incremental snapshots
+ */
+function isIncremental(event: ProcessedRRwebEvent, incrementalType: string): boolean {
+  return event.type === 'IncrementalSnapshot' && event.details.incrementalType === incrementalType;
+}
+
+/**
+ * Check whether an element submits a form
+ * @param element Element of an event
+ * @returns True for submit buttons and controls styled as submit or send buttons
+ */
+function isSubmitControl(element: ProcessedRRwebEvent['element']): boolean {
+  return !!element &&
+    ((element.tag === 'BUTTON' && !!element.attributes && element.attributes.type === 'submit') ||
+     (!!element.className && (element.className.includes('submit') || element.className.includes('send'))));
+}
+
+/**
+ * Check whether an event reports a JavaScript error
+ * @param event Processed event
+ * @returns True for error events
+ */
+function isErrorEvent(event: ProcessedRRwebEvent): boolean {
+  return isIncremental(event, 'Canvas') && !!event.details.error;
+}
+
+/**
+ * Multiple rapid clicks in the same area
+ */
+const rageClickDetector: Detector = {
+  name: 'RageClick',
+  detect({ events, sessionId }, { thresholds, urlOf, eventsAround }) {
+    const { minClicks, maxIntervalMs, radiusPx } = thresholds.rageClick;
+    const keyMoments: KeyMoment[] = [];
+    let clickEvents: ProcessedRRwebEvent[] = [];
+    let lastClickTime = 0;
+    
+    events.forEach((event, i) => {
+      if (!isMouseInteraction(event, 'Click', 'MouseDown')) return;
+      
+      clickEvents.push(event);
+      
+      // Check for multiple clicks in quick succession
+      if (event.timestamp - lastClickTime < maxIntervalMs) {
+        if (clickEvents.length >= minClicks) {
+          // Check if clicks are in the same area
+          const sameAreaClicks = clickEvents.filter(click => {
+            if (!click.element || !event.element) return false;
+            
+            const xDistance = Math.abs((click.element.position?.x || 0) - (event.element.position?.x || 0));
+            const yDistance = Math.abs((click.element.position?.y || 0) - (event.element.position?.y || 0));
+            
+            return xDistance < radiusPx && yDistance < radiusPx;
+          });
+          
+          if (sameAreaClicks.length >= minClicks) {
+            keyMoments.push({
+              type: 'RageClick',
+              timestamp: event.timestamp,
+              clickCount: sameAreaClicks.length,
+              element: event.element,
+              url: urlOf(event),
+              context: eventsAround(i, 5),
+              sessionId
+            });
+            
+            clickEvents = [];
+          }
+        }
+      } else {
+        clickEvents = [event];
+      }
+      
+      lastClickTime = event.timestamp;
+    });
+    
+    return keyMoments;
+  }
+};
+
+/**
+ * Clicks on elements that do not look interactive
+ */
+const deadClickDetector: Detector = {
+  name: 'DeadClick',
+  detect({ events, sessionId }, { urlOf, eventsAround }) {
+    const keyMoments: KeyMoment[] = [];
+    
+    events.forEach((event, i) => {
+      const element = event.element;
+      if (!isMouseInteraction(event, 'Click', 'MouseDown') || !element) return;
+      
+      if (!INTERACTIVE_TAGS.has(element.tag) &&
+          !(element.className && element.className.includes('btn')) &&
+          !(element.className && element.className.includes('button')) &&
+          !(element.attributes && element.attributes['role'] === 'button') &&
+          !(element.attributes && element.attributes.onclick)) {
+        
+        keyMoments.push({
+          type: 'DeadClick',
+          timestamp: event.timestamp,
+          element,
+          url: urlOf(event),
+          context: eventsAround(i, 3),
+          sessionId
+        });
+      }
+    });
+    
+    return keyMoments;
+  }
+};
+
+/**
+ * Forms filled in and left without submitting, by navigating away or ending the session
+ */
+const formAbandonmentDetector: Detector = {
+  name: 'FormAbandonment',
+  detect({ events, sessionId }, { thresholds, urlOf, eventsAround }) {
+    const keyMoments: KeyMoment[] = [];
+    let formInteractions: ProcessedRRwebEvent[] = [];
+    let currentFormId: string | null = null;
+    let lastInputValue: string | undefined = undefined;
+    
+    events.forEach((event, i) => {
+      // Check for form abandonment when navigating away, before looking at the new page
+      const previousEvent = events[i - 1];
+      if (previousEvent && event.pageIndex !== previousEvent.pageIndex && currentFormId && formInteractions.length > 0) {
+        // Check if a submit click happened shortly before navigation
+        const formId = currentFormId;
+        const submissionFound = events
+          .slice(Math.max(0, i - 10), i)
+          .some(e =>
+            isMouseInteraction(e, 'Click') &&
+            e.element &&
+            ((e.element.tag === 'BUTTON' && e.element.attributes && e.element.attributes.type === 'submit') ||
+             (e.element.attributes && e.element.attributes['form'] === formId))
+          );
+        
+        if (!submissionFound && formInteractions.length >= thresholds.formAbandonment.minInputs) {
+          keyMoments.push({
+            type: 'FormAbandonment',
+            timestamp: event.timestamp,
+            formId,
+            interactionCount: formInteractions.length,
+            lastValue: lastInputValue,
+            // The form is on the page being left
+            url: urlOf(previousEvent),
+            context: eventsAround(i, 10),
+            sessionId
+          });
+        }
+        
+        // Reset form tracking
+        formInteractions = [];
+        currentFormId = null;
+      }
+      
+      // Keep track of all form interactions
+      if (isIncremental(event, 'Input')) {
+        formInteractions.push(event);
+        lastInputValue = event.details.value === null ? undefined : event.details.value;
+        
+        if (event.element && event.element.attributes && event.element.attributes['form']) {
+          currentFormId = event.element.attributes['form'] || `form-${formInteractions.length}`;
+        }
+      }
+    });
+    
+    // Check for form abandonment at the end of the session
+    if (currentFormId && formInteractions.length > 0) {
+      // If the session ended with form inputs without submission
+      keyMoments.push({
+        type: 'FormAbandonment',
+        timestamp: events[events.length - 1].timestamp,
+        formId: currentFormId,
+        interactionCount: formInteractions.length,
+        lastValue: lastInputValue,
+        url: urlOf(events[events.length - 1]),
+        formCompleted: false,
+        sessionId
+      });
+    }
+    
+    return keyMoments;
+  }
+};
+
+/**
+ * Repeated visits to the same URL in a short time
+ */
+const navigationLoopDetector: Detector = {
+  name: 'NavigationLoop',
+  detect({ pages, sessionId }, { thresholds }) {
+    const { minVisits, windowMs } = thresholds.navigationLoop;
+    const keyMoments: KeyMoment[] = [];
+    const visits = pages.filter(page => page.url);
+    
+    visits.forEach((page, i) => {
+      const recentVisits = visits
+        .slice(0, i + 1)
+        .filter(visit => visit.entryTime > page.entryTime - windowMs && visit.url === page.url);
+      
+      if (recentVisits.length >= minVisits) {
+        keyMoments.push({
+          type: 'NavigationLoop',
+          timestamp: page.entryTime,
+          url: page.url,
+          frequency: recentVisits.length,
+          timeWindow: windowMs,
+          sessionId
+        });
+      }
+    });
+    
+    return keyMoments;
+  }
+};
+
+/**
+ * Many scroll events in a short time, potentially looking for something
+ */
+const rapidScrollingDetector: Detector = {
+  name: 'RapidScrolling',
+  detect({ events, sessionId }, { thresholds, urlOf, eventsAround }) {
+    const { minScrollEvents, windowMs } = thresholds.rapidScrolling;
+    const keyMoments: KeyMoment[] = [];
+    let scrollEvents: ProcessedRRwebEvent[] = [];
+    
+    events.forEach((event, i) => {
+      if (!isIncremental(event, 'Scroll')) return;
+      
+      scrollEvents.push(event);
+      
+      const recentScrolls = scrollEvents.filter(e =>
+        e.timestamp > event.timestamp - windowMs
+      );
+      
+      if (recentScrolls.length >= minScrollEvents) {
+        keyMoments.push({
+          type: 'RapidScrolling',
+          timestamp: event.timestamp,
+          scrollCount: recentScrolls.length,
+          duration: event.timestamp - recentScrolls[0].timestamp,
+          url: urlOf(event),
+          context: eventsAround(i, 5),
+          sessionId
+        });
+        
+        // Reset to avoid duplicate detection
+        scrollEvents = scrollEvents.slice(-2);
+      }
+    });
+    
+    return keyMoments;
+  }
+};
+
+/**
+ * Cursor staying in the same area for an extended period
+ */
+const mouseHoveringDetector: Detector = {
+  name: 'MouseHovering',
+  detect({ events, sessionId }, { thresholds, urlOf, eventsAround }) {
+    const { minIdleMs, radiusPx } = thresholds.mouseHovering;
+    const keyMoments: KeyMoment[] = [];
+    const mouseMovements: ProcessedRRwebEvent[] = [];
+    let lastMouseMoveTime = 0;
+    
+    events.forEach((event, i) => {
+      if (!isIncremental(event, 'MouseMove')) return;
+      
+      mouseMovements.push(event);
+      
+      // If we have multiple mouse move events in same area over time
+      if (mouseMovements.length >= 3 && event.timestamp - lastMouseMoveTime > minIdleMs) {
+        const lastMoves = mouseMovements.slice(-3);
+        
+        // Check if mouse has stayed within a small area
+        const positions = lastMoves.map(m => {
+          if (m.details && m.details.positions && m.details.positions.length > 0) {
+            return {
+              x: m.details.positions[0].x,
+              y: m.details.positions[0].y
+            };
+          }
+          // Default position if not available
+          return { x: 0, y: 0 };
+        });
+        
+        // Only proceed if all positions are valid
+        const allPositionsValid = positions.every(pos => pos.x !== 0 || pos.y !== 0);
+        
+        const allPositionsWithinRange = positions.every((pos, idx) => {
+          if (idx === 0) return true;
+          
+          const prevPos = positions[idx - 1];
+          return Math.abs(pos.x - prevPos.x) < radiusPx && Math.abs(pos.y - prevPos.y) < radiusPx;
+        });
+        
+        if (allPositionsValid && allPositionsWithinRange) {
+          keyMoments.push({
+            type: 'MouseHovering',
+            timestamp: event.timestamp,
+            duration: event.timestamp - lastMoves[0].timestamp,
+            position: positions[positions.length - 1],
+            url: urlOf(event),
+            context: eventsAround(i, 3),
+            sessionId
+          });
+        }
+      }
+      
+      lastMouseMoveTime = event.timestamp;
+    });
+    
+    return keyMoments;
+  }
+};
+
+/**
+ * Long pauses between interactions
+ */
+const hesitationDetector: Detector = {
+  name: 'Hesitation',
+  detect({ events, sessionId }, { thresholds, urlOf, eventsAround }) {
+    const { minPauseMs, maxPauseMs } = thresholds.hesitation;
+    const keyMoments: KeyMoment[] = [];
+    
+    for (let i = 1; i < events.length; i++) {
+      const event = events[i];
+      const prevEvent = events[i - 1];
+      const timeDiff = event.timestamp - prevEvent.timestamp;
+      
+      // Only consider pauses during active interaction sessions, not between page loads
+      if (timeDiff > minPauseMs &&
+          timeDiff < maxPauseMs && // Longer pauses are normal breaks
+          prevEvent.type === 'IncrementalSnapshot' &&
+          (isIncremental(event, 'MouseInteraction') || isIncremental(event, 'Input'))) {
+        
+        keyMoments.push({
+          type: 'Hesitation',
+          timestamp: event.timestamp,
+          durationMs: timeDiff,
+          beforeEvent: prevEvent,
+          afterEvent: event,
+          url: urlOf(event),
+          context: eventsAround(i, 5),
+          sessionId
+        });
+      }
+    }
+    
+    return keyMoments;
+  }
+};
+
+/**
+ * Submit controls clicked several times in a short period
+ */
+const multipleSubmissionsDetector: Detector = {
+  name: 'MultipleSubmissions',
+  detect({ events, sessionId }, { thresholds, urlOf, eventsAround }) {
+    const { minClicks, windowMs } = thresholds.multipleSubmissions;
+    const keyMoments: KeyMoment[] = [];
+    
+    events.forEach((event, i) => {
+      const element = event.element;
+      if (!isMouseInteraction(event, 'Click') || !element || !isSubmitControl(element)) return;
+      
+      // Check for repeated submission clicks in a short period
+      const recentSubmissions = events
+        .slice(Math.max(0, i - 20), i)
+        .filter(e =>
+          isMouseInteraction(e) &&
+          e.timestamp > event.timestamp - windowMs &&
+          isSubmitControl(e.element)
+        );
+      
+      if (recentSubmissions.length + 1 >= minClicks) {
+        keyMoments.push({
+          type: 'MultipleSubmissions',
+          timestamp: event.timestamp,
+          count: recentSubmissions.length + 1,
+          element,
+          url: urlOf(event),
+          context: eventsAround(i, 10),
+          sessionId
+        });
+      }
+    });
+    
+    return keyMoments;
+  }
+};
+
+/**
+ * Horizontal scrolling on mobile size viewports
+ */
+const horizontalScrollMobileDetector: Detector = {
+  name: 'HorizontalScrollMobile',
+  detect({ events, pages, sessionId }, { thresholds, urlOf }) {
+    const keyMoments: KeyMoment[] = [];
+    
+    for (const event of events) {
+      // The viewport the page was entered with
+      const viewport = pages[event.pageIndex]?.viewport || { width: 0, height: 0 };
+      
+      if (isIncremental(event, 'Scroll') && event.details.x > 0 &&
+          viewport.width < thresholds.horizontalScroll.maxViewportWidth) {
+        keyMoments.push({
+          type: 'HorizontalScrollMobile',
+          timestamp: event.timestamp,
+          viewport,
+          scrollX: event.details.x,
+          url: urlOf(event),
+          sessionId
+        });
+      }
+    }
+    
+    return keyMoments;
+  }
+};
+
+/**
+ * JavaScript errors encountered during the session
+ */
+const jsErrorDetector: Detector = {
+  name: 'JSError',
+  detect({ events, sessionId }, { urlOf }) {
+    return events.filter(isErrorEvent).map((event): KeyMoment => ({
+      type: 'JSError',
+      timestamp: event.timestamp,
+      error: event.details.error,
+      url: urlOf(event),
+      sessionId
+    }));
+  }
+};
+
+/**
+ * Users leaving quickly after few page views
+ */
+const shortSessionDetector: Detector = {
+  name: 'ShortSession',
+  detect({ pages, sessionId, metadata }, { thresholds, url }) {
+    const { maxDurationMs, maxPageViews } = thresholds.shortSession;
+    const pageCount = pages.length;
+    
+    if (metadata.duration >= maxDurationMs || pageCount > maxPageViews) {
+      return [];
+    }
+    
+    return [{
+      type: 'ShortSession',
+      timestamp: metadata.startTime,
+      durationMs: metadata.duration,
+      pageCount,
+      url,
+      sessionId
+    }];
+  }
+};
+
+/**
+ * General session statistics, so the LLM sees more than the flagged patterns
+ */
+const sessionMetricsDetector: Detector = {
+  name: 'SessionMetrics',
+  detect({ events, pages, sessionId, metadata }) {
+    return [{
+      type: 'SessionMetrics',
+      timestamp: metadata.startTime,
+      duration: metadata.duration,
+      clickCount: events.filter(e => isMouseInteraction(e, 'Click')).length,
+      inputCount: events.filter(e => isIncremental(e, 'Input')).length,
+      pageViewCount: pages.length,
+      errorCount: events.filter(isErrorEvent).length,
+      url: metadata.url,
+      sessionId
+    }];
+  }
+};
+
+/**
+ * Detectors that ship with the tool, in the order their moments are reported
+ */
+export const BUILT_IN_DETECTORS: readonly Detector[] = [
+  navigationLoopDetector,
+  jsErrorDetector,
+  rageClickDetector,
+  deadClickDetector,
+  formAbandonmentDetector,
+  rapidScrollingDetector,
+  mouseHoveringDetector,
+  hesitationDetector,
+  multipleSubmissionsDetector,
+  horizontalScrollMobileDetector,
+  shortSessionDetector,
+  sessionMetricsDetector
+];
+
+/**
+ * Create a registry holding the built-in detectors, all enabled
+ * @returns Detector registry
+ */
+export function createDetectorRegistry(): DetectorRegistry {
+  const entries: { detector: Detector; enabled: boolean; builtIn: boolean }[] =
+    BUILT_IN_DETECTORS.map(detector => ({ detector, enabled: true, builtIn: true }));
+  
+  const findEntry = (name: string) => {
+    const entry = entries.find(candidate => candidate.detector.name === name);
+    if (!entry) {
+      throw new Error(`Unknown detector "${name}" (known detectors: ${entries.map(e => e.detector.name).join(', ')})`);
+    }
+    return entry;
+  };
+  
+  return {
+    register(detector) {
+      if (entries.some(entry => entry.detector.name === detector.name)) {
+        throw new Error(`A detector named "${detector.name}" is already registered`);
+      }
+      entries.push({ detector, enabled: true, builtIn: false });
+    },
+    setEnabled(name, enabled) {
+      findEntry(name).enabled = enabled;
+    },
+    list() {
+      return entries.map(({ detector, enabled, builtIn }) => ({ name: detector.name, enabled, builtIn }));
+    },
+    getEnabled() {
+      return entries.filter(entry => entry.enabled).map(entry => entry.detector);
+    }
+  };
+}
+
+/**
+ * Load custom detectors from a module
+ *
+ * The module exports a detector or an array of detectors, as its default export,
+ * as `detector` or as `detectors`. Relative paths are resolved from the working directory.
+ *
+ * @param modulePath Path of a JavaScript module, or a TypeScript one when running under ts-node
+ * @returns Detectors exported by the module
+ * @throws Error when the module cannot be loaded or exports no valid detector
+ */
+export function loadCustomDetectors(modulePath: string): Detector[] {
+  const resolvedPath = path.resolve(modulePath);
+  
+  let exported: any;
+  try {
+    exported = require(resolvedPath);
+  } catch (error) {
+    throw new Error(`Could not load detectors from ${modulePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  
+  const candidate = exported?.default ?? exported?.detectors ?? exported?.detector;
+  const detectors: unknown[] = Array.isArray(candidate) ? candidate : [candidate];
+  
+  detectors.forEach((detector: any, index) => {
+    if (!detector || typeof detector.name !== 'string' || !detector.name || typeof detector.detect !== 'function') {
+      throw new Error(`${modulePath}: export ${index} is not a detector (expected an object with a name and a detect function)`);
+    }
+  });
+  
+  return detectors as Detector[];
+}
+
+/**
+ * Build the detector registry described by the config: the built-ins, plus the
+ * custom detectors, minus the disabled ones
+ * @param settings Detection settings, defaults to the `detection` section of the config
+ * @returns Detector registry
+ * @throws Error when a custom detector cannot be loaded or a disabled detector does not exist
+ */
+export function createDetectorRegistryFromConfig(
+  settings: IssueSpotterConfig['detection'] = getConfig().detection
+): DetectorRegistry {
+  const registry = createDetectorRegistry();
+  
+  for (const modulePath of settings.customDetectors) {
+    loadCustomDetectors(modulePath).forEach(detector => registry.register(detector));
+  }
+  
+  for (const name of settings.disabledDetectors) {
+    registry.setEnabled(name, false);
+  }
+  
+  return registry;
+}
+
+/**
+ * Run detectors over a session
+ *
+ * A detector that throws is logged and skipped, so one faulty custom detector does
+ * not stop the analysis.
+ *
+ * @param session Processed session
+ * @param detectors Detectors to run
+ * @param thresholds Detector thresholds
+ * @returns Key moments in chronological order; moments at the same time keep detector order
+ */
+export function runDetectors(
+  session: ProcessedRRwebData,
+  detectors: Detector[],
+  thresholds: DetectorThresholds
+): KeyMoment[] {
+  const { events, pages, metadata } = session;
+  
+  // Session-wide moments are attributed to the last page visited, or the recorded page
+  const url: string = pages?.[pages.length - 1]?.url || metadata?.url || '';
+  
+  const context: DetectorContext = {
+    thresholds,
+    url,
+    urlOf: event => event.url || url,
+    eventsAround: (index, windowSize) => getContextAroundEvent(events, index, windowSize)
+  };
+  
+  const keyMoments: KeyMoment[] = [];
+  for (const detector of detectors) {
+    try {
+      keyMoments.push(...detector.detect(session, context));
+    } catch (error) {
+      logger.error(`Detector ${detector.name} failed on session ${session.sessionId}`, error);
+    }
+  }
+  
+  // Array.prototype.sort is stable, so ties stay in detector order
+  return keyMoments.sort((a, b) => a.timestamp - b.timestamp);
+}
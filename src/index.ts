@@ -1,35 +1,58 @@
+#!/usr/bin/env node
 import dotenv from 'dotenv';
-import { fetchPostHogEvents, PostHogEvent } from './posthog';
-import { analyzeEventsAndDraftTickets } from './ai';
+import {
+  fetchPostHogEvents,
+  loadPostHogEventsFile,
+  advancePostHogCursor,
+  fetchSessionRecordings,
+  selectInterestingSessionIds,
+  PostHogEvent,
+  DetectedIssue
+} from './posthog';
+import { analyzeEventsAndDraftTickets, mapSeverityToPriority, AnalysisResult, RRwebAnalysisContext } from './ai';
 import * as path from 'path';
-import { loadRRwebData, syncWithPostHogEvents, ProcessedRRwebData } from './rrweb';
-import { captureScreenshotsFromRRwebSessions } from './screenshot';
+import { streamRRwebData, processRRwebExport, syncKeyMomentsWithPostHogEvents, extractKeyMoments, describeKeyMoment, describePageTimeline, getKeyMomentName, KeyMoment, ProcessedRRwebData, PageSegment } from './rrweb';
+import { captureScreenshotsFromRRwebSessions, ScreenshotRecord } from './screenshot';
+import { computeIssueFingerprint, markIssuesFiled, recordIssues, TrackedIssue } from './issueStore';
+import { createSinksFromConfig, publishTickets, selectEvidenceScreenshots, TicketSink } from './sinks';
+import { parseCliArgs, CliOptions, USAGE } from './cli';
+import { verifyEnvironmentSetup, testExternalConnections } from './debugUtils';
+import { initConfig, IssueSpotterConfig } from './config';
+import { evaluateRules } from './rules';
+import { buildSessions } from './sessions';
+import { createDetectorRegistryFromConfig } from './detectors';
 import * as fs from 'fs';
 
 // Load environment variables
 dotenv.config();
 
 // Constants
-const DEFAULT_CHECK_INTERVAL_MINUTES = 15;
-const RRWEB_DATA_FILENAME = 'RRweb data.json';
-
-// Configuration from environment variables
-const config = {
-  checkIntervalMinutes: parseInt(process.env.CHECK_INTERVAL_MINUTES || String(DEFAULT_CHECK_INTERVAL_MINUTES), 10),
-  includeScreenshots: process.env.INCLUDE_SCREENSHOTS === 'true',
-  debugMode: process.env.DEBUG_MODE === 'true'
-};
+const SCREENSHOTS_SUBDIRECTORY = 'screenshots';
+const EXIT_CODE_ISSUES_FOUND = 2;
+
+// Configuration from the config file and environment, loaded once the command line is parsed
+let config: IssueSpotterConfig;
+
+/**
+ * Issues reported by a run, and whether its events were analyzed
+ */
+interface RunOutcome {
+  /** New and regressed issues */
+  reportable: TrackedIssue[];
+  /** False when the model could not be used and only fallback issues were produced */
+  analyzed: boolean;
+}
 
 // Create a logger
 const logger = {
-  info: (message: string) => console.log(`[INFO] ${message}`),
+  info: (message: string) => console.error(`[INFO] ${message}`),
   warn: (message: string) => console.warn(`[WARN] ${message}`),
   error: (message: string, error?: unknown) => {
     console.error(`[ERROR] ${message}`);
     if (error) {
       if (error instanceof Error) {
         console.error(`       ${error.message}`);
-        if (config.debugMode && error.stack) {
+        if (config?.debugMode && error.stack) {
           console.error(`       ${error.stack}`);
         }
       } else {
@@ -38,8 +61,8 @@ const logger = {
     }
   },
   debug: (message: string) => {
-    if (config.debugMode) {
-      console.log(`[DEBUG] ${message}`);
+    if (config?.debugMode) {
+      console.error(`[DEBUG] ${message}`);
     }
   }
 };
@@ -48,17 +71,17 @@ const logger = {
  * Display an ASCII art logo
  */
 function displayLogo(): void {
-  console.log(); // Empty line for spacing
-  console.log(`     _    ___   _                                      _   _            `);
-  console.log(`    / \\  |_ _| (_)___ ___ _   _  ___   ___ _ __   ___ | |_| |_ ___ _ __ `);
-  console.log(`   / _ \\  | |  | / __/ __| | | |/ _ \\ / __| '_ \\ / _ \\| __| __/ _ \\ '__|`);
-  console.log(`  / ___ \\ | |  | \\__ \\__ \\ |_| |  __/ \\__ \\ |_) | (_) | |_| ||  __/ |   `);
-  console.log(` /_/   \\_\\___| |_|___/___/\\__,_|\\___| |___/ .__/ \\___/ \\__|\\__\\___|_|   `);
-  console.log(`                                          |_|                           `);
-  console.log();
-  console.log(`                 👁️  Automatically Detect UX Issues  👁️                 `);
-  console.log(`                 📝  Generate Actionable Tickets  📝                 `);
-  console.log();
+  console.error(); // Empty line for spacing
+  console.error(`     _    ___   _                                      _   _            `);
+  console.error(`    / \\  |_ _| (_)___ ___ _   _  ___   ___ _ __   ___ | |_| |_ ___ _ __ `);
+  console.error(`   / _ \\  | |  | / __/ __| | | |/ _ \\ / __| '_ \\ / _ \\| __| __/ _ \\ '__|`);
+  console.error(`  / ___ \\ | |  | \\__ \\__ \\ |_| |  __/ \\__ \\ |_) | (_) | |_| ||  __/ |   `);
+  console.error(` /_/   \\_\\___| |_|___/___/\\__,_|\\___| |___/ .__/ \\___/ \\__|\\__\\___|_|   `);
+  console.error(`                                          |_|                           `);
+  console.error();
+  console.error(`                 👁️  Automatically Detect UX Issues  👁️                 `);
+  console.error(`                 📝  Generate Actionable Tickets  📝                 `);
+  console.error();
 }
 
 /**
@@ -74,175 +97,685 @@ function formatDate(date: Date): string {
  * The main entry point of the application
  */
 async function main(): Promise<void> {
-  // Display the cool ASCII art logo
-  displayLogo();
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(process.argv.slice(2));
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : String(error));
+    console.error(`\n${USAGE}`);
+    process.exit(1);
+  }
   
-  logger.info('🔍 AI Issue Spotter starting up...');
+  // An invalid configuration is reported by doctor, and stops every other command
+  let configError: string | undefined;
+  try {
+    config = initConfig({ configPath: options.configPath, profile: options.profile });
+  } catch (error) {
+    configError = error instanceof Error ? error.message : String(error);
+    if (options.command !== 'doctor') {
+      logger.error(configError);
+      process.exit(1);
+    }
+  }
   
-  // Log configuration
+  // Without a configuration there is nothing to override, doctor reports the error instead
+  if (!configError) {
+    if (options.screenshots !== undefined) {
+      config.includeScreenshots = options.screenshots;
+    }
+    if (options.intervalMinutes !== undefined) {
+      config.checkIntervalMinutes = options.intervalMinutes;
+    }
+    if (options.analysisMode !== undefined) {
+      config.analysisMode = options.analysisMode;
+    }
+  }
+  
+  switch (options.command) {
+    case 'help':
+      console.error(USAGE);
+      return;
+    case 'analyze':
+      process.exitCode = await runAnalyzeCommand(options);
+      return;
+    case 'watch':
+      await runWatchCommand(options);
+      return;
+    case 'inspect-rrweb':
+      await runInspectRRwebCommand(options);
+      return;
+    case 'screenshots':
+      await runScreenshotsCommand(options);
+      return;
+    case 'doctor':
+      process.exitCode = await runDoctorCommand(options, configError);
+      return;
+  }
+}
+
+/**
+ * Log the active configuration
+ */
+function logConfiguration(): void {
   logger.info(`Configuration:`);
   logger.info(`- Check interval: ${config.checkIntervalMinutes} minutes`);
   logger.info(`- Include screenshots: ${config.includeScreenshots}`);
+  logger.info(`- RRweb source: ${config.rrweb.source}`);
+  logger.info(`- Analysis mode: ${config.analysisMode}`);
+  logger.info(`- LLM provider: ${config.ai.provider}${config.ai.model ? ` (${config.ai.model})` : ''}`);
+  logger.info(`- LLM strategy: ${config.ai.strategy}, ${config.ai.maxPromptTokens} tokens per request, ${config.ai.concurrency} request(s) at a time`);
+  logger.info(`- Key moment detectors: ${createDetectorRegistryFromConfig().getEnabled().map(detector => detector.name).join(', ')}`);
+  logger.info(`- Redaction: ${config.redaction.enabled ? `enabled, audit in ${config.redaction.auditPath}` : 'disabled'}`);
+  logger.info(`- LLM cache: ${config.llmCache.mode === 'off' ? 'off' : `${config.llmCache.mode} in ${config.llmCache.dir}, ${config.llmCache.ttlHours} hours`}`);
   logger.info(`- Debug mode: ${config.debugMode}`);
+}
+
+/**
+ * Run a single analysis, write the report and exit
+ * @param options Parsed command-line options
+ * @returns Process exit code, 1 when the run failed
+ */
+async function runAnalyzeCommand(options: CliOptions): Promise<number> {
+  logger.info('🔍 AI Issue Spotter running a single analysis...');
+  logConfiguration();
   
+  let reportable: TrackedIssue[];
   try {
-    // Run the check immediately once
-    await checkForIssues();
-    
-    // Then set up interval for periodic checks
-    const intervalMs = config.checkIntervalMinutes * 60 * 1000;
-    logger.info(`Setting up periodic checks every ${config.checkIntervalMinutes} minutes`);
-    setInterval(checkForIssues, intervalMs);
+    reportable = await checkForIssues(options);
   } catch (error) {
-    logger.error('Error in main process:', error);
-    process.exit(1);
+    logger.error('Error during issue check:', error);
+    return 1;
+  }
+  writeReport(options, reportable);
+  
+  return options.failOnIssues && reportable.length > 0 ? EXIT_CODE_ISSUES_FOUND : 0;
+}
+
+/**
+ * Run an analysis now and then every check interval
+ * @param options Parsed command-line options
+ */
+async function runWatchCommand(options: CliOptions): Promise<void> {
+  // Display the cool ASCII art logo
+  displayLogo();
+  
+  logger.info('🔍 AI Issue Spotter starting up...');
+  logConfiguration();
+  
+  // A failed check is logged and the next one runs as planned
+  const runCheck = async () => {
+    try {
+      writeReport(options, await checkForIssues(options));
+    } catch (error) {
+      logger.error('Error during issue check:', error);
+    }
+  };
+  
+  // Schedule each check once the previous one has settled, so slow runs never overlap
+  const intervalMs = config.checkIntervalMinutes * 60 * 1000;
+  const scheduleNextCheck = () => {
+    setTimeout(async () => {
+      await runCheck();
+      scheduleNextCheck();
+    }, intervalMs);
+  };
+  
+  // Run the check immediately once
+  await runCheck();
+  
+  logger.info(`Setting up periodic checks every ${config.checkIntervalMinutes} minutes`);
+  scheduleNextCheck();
+}
+
+/**
+ * List the sessions and key moments in an RRweb export without calling the AI
+ * @param options Parsed command-line options
+ */
+async function runInspectRRwebCommand(options: CliOptions): Promise<void> {
+  const detectors = createDetectorRegistryFromConfig().getEnabled();
+  const summary = {
+    sessions: [] as { sessionId: string; userId?: string; url: string; startTime: string; durationMs: number; eventCount: number; pages: PageSegment[]; timeline: string }[],
+    keyMoments: [] as KeyMoment[]
+  };
+  
+  // Sessions are read one at a time, so only their summaries are kept
+  for await (const session of streamRRwebData(options.file!)) {
+    summary.sessions.push({
+      sessionId: session.sessionId,
+      userId: session.metadata.userId,
+      url: session.metadata.url,
+      startTime: new Date(session.metadata.startTime).toISOString(),
+      durationMs: session.metadata.duration,
+      eventCount: session.events.length,
+      pages: session.pages,
+      timeline: describePageTimeline(session)
+    });
+    summary.keyMoments.push(
+      ...extractKeyMoments([session], config.detectors, detectors).filter(moment => isWithinRange(moment.timestamp, options))
+    );
+  }
+  const { keyMoments } = summary;
+  
+  const text = [
+    `Sessions (${summary.sessions.length}):`,
+    ...summary.sessions.map(session =>
+      `- ${session.sessionId}${session.userId ? ` (${session.userId})` : ''}  ${session.startTime}  ${Math.round(session.durationMs / 1000)}s  ${session.eventCount} events  ${session.pages.length > 1 ? session.timeline : session.url}`
+    ),
+    '',
+    `Key moments (${keyMoments.length}):`,
+    ...keyMoments.map(moment =>
+      `- ${new Date(moment.timestamp).toISOString()}  ${getKeyMomentName(moment)}  [${moment.sessionId}]  ${describeKeyMoment(moment)}`
+    )
+  ].join('\n');
+  
+  emitOutput(options, 'key-moments', summary, text);
+}
+
+/**
+ * Capture key moment screenshots from an RRweb export
+ * @param options Parsed command-line options
+ */
+async function runScreenshotsCommand(options: CliOptions): Promise<void> {
+  const source = streamRRwebFiles([options.file!]);
+  const { keyMoments: allKeyMoments } = await extractKeyMomentsFromSource(source);
+  const keyMoments = allKeyMoments.filter(moment => isWithinRange(moment.timestamp, options));
+  
+  // The export is read a second time to replay the sessions
+  const screenshots = await captureScreenshotsFromRRwebSessions(
+    source(),
+    undefined,
+    keyMoments,
+    options.outputDir ? path.join(options.outputDir, SCREENSHOTS_SUBDIRECTORY) : undefined
+  );
+  
+  const text = screenshots
+    .map(screenshot => `${screenshot.path}  ${screenshot.momentType || 'interaction'} (${screenshot.phase})`)
+    .join('\n');
+  
+  emitOutput(options, 'screenshots', screenshots, text || 'No screenshots captured');
+}
+
+/**
+ * Check the configuration, the environment and the external API connections
+ * @param options Parsed command-line options
+ * @param configError Problems found while loading the configuration
+ * @returns Process exit code, non-zero when anything is invalid, missing or unreachable
+ */
+async function runDoctorCommand(options: CliOptions, configError?: string): Promise<number> {
+  const environment = verifyEnvironmentSetup();
+  const canConnect = !configError && environment.missingKeys.length === 0;
+  const connections = canConnect ? await testExternalConnections() : null;
+  
+  // Custom detector modules are loaded now, so broken paths show up before a run
+  let detectors: { name: string; enabled: boolean; builtIn: boolean }[] | null = null;
+  let detectorError: string | undefined;
+  if (!configError) {
+    try {
+      detectors = createDetectorRegistryFromConfig().list();
+    } catch (error) {
+      detectorError = error instanceof Error ? error.message : String(error);
+    }
+  }
+  
+  const healthy = canConnect && !detectorError && !!connections && connections.posthog && connections.llm !== false;
+  const customDetectors = (detectors || []).filter(detector => !detector.builtIn).map(detector => detector.name);
+  
+  const text = [
+    `Configuration: ${configError ? `✗ ${configError}` : '✓'}`,
+    `Detectors: ${detectorError ? `✗ ${detectorError}` : detectors
+      ? `✓ ${detectors.filter(detector => detector.enabled).length} of ${detectors.length} enabled${customDetectors.length > 0 ? ` (custom: ${customDetectors.join(', ')})` : ''}`
+      : 'not checked'}`,
+    `Environment: ${environment.missingKeys.length === 0 ? '✓' : `✗ missing ${environment.missingKeys.join(', ')}`}`,
+    `PostHog: ${connections ? (connections.posthog ? '✓' : '✗') : 'not tested'}`,
+    `LLM (${config?.ai.provider || 'unknown'}): ${connections ? (connections.llm === null ? 'not used' : connections.llm ? '✓' : '✗') : 'not tested'}`
+  ].join('\n');
+  
+  emitOutput(options, 'doctor', { healthy, configError: configError || null, detectorError: detectorError || null, detectors, environment, connections }, text);
+  return healthy ? 0 : 1;
+}
+
+/**
+ * Write the issues reported by a run in the requested format
+ * @param options Parsed command-line options
+ * @param records Issues reported in the run
+ */
+function writeReport(options: CliOptions, records: TrackedIssue[]): void {
+  // An empty text report on stdout would only print a blank line
+  if (options.format === 'text' && !options.outputDir && records.length === 0) {
+    return;
+  }
+  
+  emitOutput(options, 'report', records, formatIssueTickets(records));
+}
+
+/**
+ * Print a command's result to stdout, or write it to the output directory
+ * @param options Parsed command-line options
+ * @param name Base name of the file written to the output directory
+ * @param data Result in JSON form
+ * @param text Result in text form
+ */
+function emitOutput(options: CliOptions, name: string, data: unknown, text: string): void {
+  const content = options.format === 'json' ? JSON.stringify(data, null, 2) : text;
+  
+  if (!options.outputDir) {
+    process.stdout.write(`${content}\n`);
+    return;
   }
+  
+  fs.mkdirSync(options.outputDir, { recursive: true });
+  const outputPath = path.join(options.outputDir, `${name}.${options.format === 'json' ? 'json' : 'txt'}`);
+  fs.writeFileSync(outputPath, `${content}\n`);
+  logger.info(`Wrote ${outputPath}`);
+}
+
+/**
+ * Check whether a timestamp falls within the time range given on the command line
+ * @param timestamp Timestamp in milliseconds
+ * @param options Parsed command-line options
+ * @returns True when the timestamp is within the range
+ */
+function isWithinRange(timestamp: number, options: CliOptions): boolean {
+  return (!options.after || timestamp > options.after.getTime()) &&
+    (!options.before || timestamp < options.before.getTime());
 }
 
 /**
  * Check for potential UX issues by analyzing PostHog events and RRweb data
+ * 
+ * The PostHog cursor is only used and advanced for open-ended runs against the
+ * API, so ad-hoc time ranges and exported files can be analyzed repeatedly.
+ * 
+ * @param options Parsed command-line options
+ * @returns Issues reported in this run
+ * @throws Error if the events cannot be fetched, or the ticket sinks are misconfigured
+ */
+async function checkForIssues(options: CliOptions): Promise<TrackedIssue[]> {
+  logger.info(`${formatDate(new Date())} - Checking for potential UX issues...`);
+  
+  const useCursor = !options.eventsFile && !options.after && !options.before;
+  
+  // Sinks are created first, so missing credentials stop the run before any analysis is paid for
+  const sinks = createSinksFromConfig();
+  
+  // 1. Fetch events from PostHog that arrived since the last completed run
+  const events = options.eventsFile
+    ? loadPostHogEventsFile(options.eventsFile, { after: options.after, before: options.before })
+    : await fetchPostHogEvents({ useCursor, after: options.after, before: options.before });
+  logger.info(`Fetched ${events.length} events from ${options.eventsFile || 'PostHog'}`);
+  
+  if (events.length === 0) {
+    logger.warn('No events to analyze');
+    return [];
+  }
+  
+  // 2. Load RRweb recordings if any are available
+  const rrwebSource = await loadRRwebSessions(events, options.rrwebFiles);
+  
+  const { reportable, analyzed } = rrwebSource
+    ? await processWithRRwebData(rrwebSource, events, options, sinks)
+    : await processWithoutRRwebData(events, sinks);
+  
+  // 3. Only move the cursor once the events have been analyzed, so they are retried after an LLM outage
+  if (useCursor && analyzed) {
+    advancePostHogCursor(events);
+  } else if (useCursor) {
+    logger.warn('The analysis did not complete, the PostHog cursor was not advanced');
+  }
+  return reportable;
+}
+
+/**
+ * RRweb sessions that can be read more than once; each call starts from the first session
+ */
+type RRwebSessionSource = () => AsyncIterable<ProcessedRRwebData> | ProcessedRRwebData[];
+
+/**
+ * Stream the sessions of RRweb export files, one file after the other
+ * @param filePaths RRweb export files
+ * @returns Session source that reads the files again on every call
+ */
+function streamRRwebFiles(filePaths: string[]): RRwebSessionSource {
+  return async function* () {
+    for (const filePath of filePaths) {
+      yield* streamRRwebData(filePath);
+    }
+  };
+}
+
+/**
+ * Read every session of a source once and extract its key moments
+ * 
+ * Sessions are processed one at a time and their events are dropped afterwards,
+ * so memory use does not grow with the size of the recordings.
+ * 
+ * @param source RRweb sessions
+ * @returns Key moments, and the sessions with their metadata but without events
  */
-async function checkForIssues(): Promise<void> {
+async function extractKeyMomentsFromSource(source: RRwebSessionSource): Promise<{ sessions: ProcessedRRwebData[]; keyMoments: KeyMoment[] }> {
+  const detectors = createDetectorRegistryFromConfig().getEnabled();
+  const sessions: ProcessedRRwebData[] = [];
+  const keyMoments: KeyMoment[] = [];
+  
+  for await (const session of source()) {
+    keyMoments.push(...extractKeyMoments([session], config.detectors, detectors));
+    sessions.push({ ...session, events: [], rawEvents: [] });
+  }
+  
+  return { sessions, keyMoments };
+}
+
+/**
+ * Find the RRweb sessions for this run
+ * 
+ * Export files given on the command line take precedence. With the PostHog source,
+ * recordings are downloaded on demand for the sessions that look interesting in
+ * the fetched events; otherwise the local export file is streamed.
+ * 
+ * @param events PostHog events fetched in this run
+ * @param rrwebFiles RRweb export files given on the command line
+ * @returns Source of the sessions, or null when none are available
+ */
+async function loadRRwebSessions(events: PostHogEvent[], rrwebFiles: string[] = []): Promise<RRwebSessionSource | null> {
   try {
-    logger.info(`${formatDate(new Date())} - Checking for potential UX issues...`);
-    
-    // 1. Fetch events from PostHog
-    const events = await fetchPostHogEvents();
-    logger.info(`Fetched ${events.length} events from PostHog`);
-    
-    if (events.length === 0) {
-      logger.warn('No events to analyze');
-      return;
+    if (rrwebFiles.length > 0) {
+      logger.info(`Streaming sessions from ${rrwebFiles.length} RRweb file(s)`);
+      return streamRRwebFiles(rrwebFiles);
     }
     
-    // 2. Check if RRweb data is available and load it
-    const rrwebDataPath = path.join(process.cwd(), RRWEB_DATA_FILENAME);
+    if (config.rrweb.source === 'posthog') {
+      const sessionIds = selectInterestingSessionIds(events);
+      if (sessionIds.length === 0) {
+        logger.info('No interesting sessions with recordings found, proceeding with standard analysis');
+        return null;
+      }
+      
+      const processedRRwebData = processRRwebExport(await fetchSessionRecordings(sessionIds));
+      logger.info(`Loaded ${processedRRwebData.length} sessions from PostHog recordings`);
+      return processedRRwebData.length > 0 ? () => processedRRwebData : null;
+    }
     
-    if (fs.existsSync(rrwebDataPath)) {
-      await processWithRRwebData(rrwebDataPath, events);
-    } else {
+    const rrwebDataPath = path.resolve(config.rrweb.dataFile);
+    if (!fs.existsSync(rrwebDataPath)) {
       logger.info(`No RRweb data found at ${rrwebDataPath}, proceeding with standard analysis`);
-      await processWithoutRRwebData(events);
+      return null;
     }
+    
+    return streamRRwebFiles([rrwebDataPath]);
   } catch (error) {
-    logger.error('Error during issue check:', error);
+    logger.error('Error loading RRweb data:', error);
+    return null;
   }
 }
 
 /**
  * Process data with RRweb recordings available
- * @param rrwebDataPath Path to the RRweb data file
+ * 
+ * The sessions are read twice: once to extract key moments, and again to replay
+ * the sessions that have any for screenshots. Recordings that cannot be read fall
+ * back to standard processing; errors from the analysis itself are thrown.
+ * 
+ * @param rrwebSource RRweb sessions
  * @param events PostHog events
+ * @param options Parsed command-line options
+ * @param sinks Ticket sinks new and regressed issues are filed in
+ * @returns Issues reported in this run
  */
-async function processWithRRwebData(rrwebDataPath: string, events: PostHogEvent[]): Promise<void> {
+async function processWithRRwebData(
+  rrwebSource: RRwebSessionSource,
+  events: PostHogEvent[],
+  options: CliOptions,
+  sinks: TicketSink[]
+): Promise<RunOutcome> {
+  let sessions: ProcessedRRwebData[];
+  let keyMoments: KeyMoment[];
+  
   try {
-    // Load and process the RRweb data
-    const processedRRwebData = loadRRwebData(rrwebDataPath);
-    logger.info(`Loaded ${processedRRwebData.length} sessions from RRweb data`);
-    
-    if (processedRRwebData.length === 0) {
-      logger.warn('No RRweb sessions found in data file');
-      await processWithoutRRwebData(events);
-      return;
-    }
-    
-    // Synchronize RRweb data with PostHog events to identify key moments
-    const syncResult = syncWithPostHogEvents(processedRRwebData, events);
-    const { rrwebKeyMoments } = syncResult;
-    
-    logger.info(`Identified ${rrwebKeyMoments.length} key moments across RRweb sessions`);
-    
-    // Only capture screenshots for sessions with identified key moments
-    const sessionsWithKeyMoments = processedRRwebData.filter(session => 
-      rrwebKeyMoments.some(moment => moment.sessionId === session.sessionId)
-    );
-    
-    logger.info(`Found ${sessionsWithKeyMoments.length} sessions with key moments`);
-    
-    if (sessionsWithKeyMoments.length === 0) {
-      logger.warn('No sessions with key moments found, proceeding with standard analysis');
-      await processWithoutRRwebData(events);
-      return;
+    ({ sessions, keyMoments } = await extractKeyMomentsFromSource(rrwebSource));
+  } catch (error) {
+    logger.error('Error reading RRweb data:', error);
+    return await processWithoutRRwebData(events, sinks);
+  }
+  
+  logger.info(`Loaded ${sessions.length} RRweb sessions`);
+  
+  if (sessions.length === 0) {
+    logger.warn('No RRweb sessions found, proceeding with standard analysis');
+    return await processWithoutRRwebData(events, sinks);
+  }
+  
+  // Synchronize the key moments with PostHog events
+  const { rrwebKeyMoments } = syncKeyMomentsWithPostHogEvents(keyMoments, events, sessions);
+  
+  logger.info(`Identified ${rrwebKeyMoments.length} key moments across RRweb sessions`);
+  
+  // Only capture screenshots for sessions with identified key moments
+  const keyMomentSessionIds = new Set(rrwebKeyMoments.map(moment => moment.sessionId));
+  const sessionsWithKeyMoments = sessions.filter(session => keyMomentSessionIds.has(session.sessionId));
+  
+  logger.info(`Found ${sessionsWithKeyMoments.length} sessions with key moments`);
+  
+  if (sessionsWithKeyMoments.length === 0) {
+    logger.warn('No sessions with key moments found, proceeding with standard analysis');
+    return await processWithoutRRwebData(events, sinks);
+  }
+  
+  // Capture screenshots specifically for these sessions
+  let screenshots: ScreenshotRecord[] = [];
+  if (config.includeScreenshots) {
+    try {
+      screenshots = await captureScreenshotsFromRRwebSessions(
+        filterSessions(rrwebSource, keyMomentSessionIds),
+        undefined,
+        rrwebKeyMoments,
+        options.outputDir ? path.join(options.outputDir, SCREENSHOTS_SUBDIRECTORY) : undefined
+      );
+      logger.info(`Captured ${screenshots.length} screenshots from RRweb sessions`);
+    } catch (error) {
+      logger.error('Error capturing screenshots:', error);
     }
-    
-    // Capture screenshots specifically for these sessions
-    let screenshotPaths: string[] = [];
-    
-    if (config.includeScreenshots) {
-      try {
-        screenshotPaths = await captureScreenshotsFromRRwebSessions(sessionsWithKeyMoments);
-        logger.info(`Captured ${screenshotPaths.length} screenshots from RRweb sessions`);
-      } catch (error) {
-        logger.error('Error capturing screenshots:', error);
-      }
-    } else {
-      logger.info('Screenshot capture disabled by configuration');
+  } else {
+    logger.info('Screenshot capture disabled by configuration');
+  }
+  
+  // Analyze events and generate issue tickets
+  logger.info(`Analyzing ${events.length} events for potential UX issues...`);
+  
+  // Analyze events together with the replay key moments and screenshots
+  const analysis = await detectIssues(events, {
+    sessions,
+    keyMoments: rrwebKeyMoments,
+    screenshots
+  });
+  
+  return await reportIssues(analysis, sinks, screenshots);
+}
+
+/**
+ * Read the sessions of a source again, keeping only some of them
+ * @param source RRweb sessions
+ * @param sessionIds IDs of the sessions to keep
+ * @returns The kept sessions, in source order
+ */
+async function* filterSessions(source: RRwebSessionSource, sessionIds: Set<string>): AsyncGenerator<ProcessedRRwebData> {
+  for await (const session of source()) {
+    if (sessionIds.has(session.sessionId)) {
+      yield session;
     }
-    
-    // Analyze events and generate issue tickets
-    logger.info(`Analyzing ${events.length} events for potential UX issues...`);
-    
-    // Now analyze events with the screenshots
-    const tickets = await analyzeEventsAndDraftTickets(events);
-    displayIssueTickets(tickets);
-  } catch (error) {
-    logger.error('Error processing RRweb data:', error);
-    // Fall back to standard processing
-    await processWithoutRRwebData(events);
   }
 }
 
 /**
  * Process data without RRweb recordings
  * @param events PostHog events
+ * @param sinks Ticket sinks new and regressed issues are filed in
+ * @returns Issues reported in this run
  */
-async function processWithoutRRwebData(events: PostHogEvent[]): Promise<void> {
+async function processWithoutRRwebData(events: PostHogEvent[], sinks: TicketSink[]): Promise<RunOutcome> {
   logger.info(`Processing with standard analysis (no RRweb data)`);
-  const tickets = await analyzeEventsAndDraftTickets(events);
-  displayIssueTickets(tickets);
+  const analysis = await detectIssues(events);
+  return await reportIssues(analysis, sinks);
+}
+
+/**
+ * Detect issues using the configured analysis mode
+ * 
+ * In `rules` mode no LLM is called. In `hybrid` mode the rules act as a pre-filter:
+ * the LLM is skipped when they find nothing, and otherwise only sees the sessions
+ * they flagged, falling back to the rule-based issues if the LLM is unavailable.
+ * 
+ * @param events PostHog events
+ * @param rrwebContext RRweb sessions, synced key moments and screenshots, when available
+ * @returns Detected issues, and whether the analysis completed
+ */
+async function detectIssues(events: PostHogEvent[], rrwebContext?: RRwebAnalysisContext): Promise<AnalysisResult> {
+  if (config.analysisMode === 'llm') {
+    return await analyzeEventsAndDraftTickets(events, rrwebContext);
+  }
+  
+  const findings = evaluateRules(events, rrwebContext?.keyMoments || []);
+  logger.info(`Rules found ${findings.length} candidate issue(s)`);
+  
+  if (config.analysisMode === 'rules') {
+    return { issues: findings.map(finding => finding.issue), status: 'analyzed' };
+  }
+  if (findings.length === 0) {
+    logger.info('Skipping the LLM, no candidate issues to confirm');
+    return { issues: [], status: 'analyzed' };
+  }
+  
+  // Only send the sessions the rules flagged
+  const flaggedSessionIds = new Set(findings.flatMap(finding => finding.sessionIds));
+  const flaggedEvents = buildSessions(events)
+    .filter(session => flaggedSessionIds.has(session.id))
+    .flatMap(session => session.events);
+  const candidateContext = rrwebContext && {
+    sessions: rrwebContext.sessions.filter(session => flaggedSessionIds.has(session.sessionId)),
+    keyMoments: rrwebContext.keyMoments.filter(moment => flaggedSessionIds.has(moment.sessionId)),
+    screenshots: rrwebContext.screenshots.filter(screenshot => flaggedSessionIds.has(screenshot.sessionId))
+  };
+  logger.info(`Sending ${flaggedEvents.length || events.length} events from ${flaggedSessionIds.size} flagged session(s) to the LLM`);
+  
+  return await analyzeEventsAndDraftTickets(
+    flaggedEvents.length > 0 ? flaggedEvents : events,
+    candidateContext,
+    undefined,
+    findings
+  );
+}
+
+/**
+ * Record detected issues in the issue store, then display and file only those that are new or regressed
+ * 
+ * Issues are marked as filed per sink once the sink accepted them, so an issue a
+ * sink failed to file is filed there again by the next run that sees it. A manual
+ * review ticket only says that the LLM could not be used, so it is shown but
+ * neither recorded nor filed.
+ * 
+ * @param analysis Issues detected in this run
+ * @param sinks Ticket sinks to file the issues in
+ * @param screenshots Screenshots captured in this run, attached to tickets as evidence
+ * @returns The new and regressed issues
+ */
+async function reportIssues(analysis: AnalysisResult, sinks: TicketSink[], screenshots: ScreenshotRecord[] = []): Promise<RunOutcome> {
+  const analyzed = analysis.status === 'analyzed';
+  
+  if (analysis.status === 'manual-review') {
+    const now = new Date().toISOString();
+    const reportable: TrackedIssue[] = analysis.issues.map(issue => ({
+      fingerprint: computeIssueFingerprint(issue),
+      issue,
+      firstSeen: now,
+      lastSeen: now,
+      occurrences: 1,
+      status: 'new'
+    }));
+    displayIssueTickets(reportable);
+    return { reportable, analyzed };
+  }
+  
+  const tracked = recordIssues(analysis.issues, { fallback: analysis.status === 'rules-fallback' });
+  const reportable = tracked.filter(record => record.status !== 'recurring');
+  
+  const recurringCount = tracked.length - reportable.length;
+  if (recurringCount > 0) {
+    logger.info(`Skipping ${recurringCount} issue(s) already reported in earlier runs`);
+  }
+  
+  displayIssueTickets(reportable);
+  
+  const unfiled = tracked.filter(record => record.filedIn && sinks.some(sink => !record.filedIn!.includes(sink.name)));
+  if (unfiled.length > 0) {
+    logger.info(`Filing ${unfiled.length} ticket(s) in ${sinks.map(sink => sink.name).join(', ')}`);
+    const results = await publishTickets(
+      unfiled.map(record => ({
+        issue: record.issue,
+        fingerprint: record.fingerprint,
+        screenshotPaths: selectEvidenceScreenshots(record.issue, screenshots),
+        filedIn: record.filedIn
+      })),
+      sinks
+    );
+    markIssuesFiled(
+      results
+        .filter(result => !result.dryRun && result.fingerprint)
+        .map(result => ({ fingerprint: result.fingerprint!, sink: result.sink }))
+    );
+  }
+  
+  return { reportable, analyzed };
 }
 
 /**
- * Display generated issue tickets in a formatted way
- * @param tickets Array of ticket strings
+ * Log how many issue tickets were generated, the tickets themselves are written by the report
+ * @param records Array of tracked issues
  */
-function displayIssueTickets(tickets: string[]): void {
-  if (!tickets || tickets.length === 0) {
-    logger.info('No issues detected by AI');
+function displayIssueTickets(records: TrackedIssue[]): void {
+  if (!records || records.length === 0) {
+    logger.info('No new issues detected');
     return;
   }
   
-  logger.info(`Generated ${tickets.length} ticket(s) for potential UX issues\n`);
+  logger.info(`Generated ${records.length} ticket(s) for potential UX issues`);
+}
+
+/**
+ * Format issue tickets as the text shown on the console and written to text reports
+ * @param records Array of tracked issues
+ * @returns Formatted tickets
+ */
+function formatIssueTickets(records: TrackedIssue[]): string {
+  const lines: string[] = [];
   
-  tickets.forEach((ticket, index) => {
-    console.log('\n======== DRAFT TICKET ========');
+  records.forEach(({ issue, status, fingerprint, firstSeen, occurrences }) => {
+    lines.push('\n======== DRAFT TICKET ========');
+    lines.push(`Title: ${issue.title}`);
+    lines.push(`Priority: ${mapSeverityToPriority(issue.severity)}`);
+    lines.push(`Status: ${status === 'regressed' ? `Regressed (first seen ${firstSeen}, ${occurrences} occurrences)` : 'New'}`);
+    lines.push(`Fingerprint: ${fingerprint}`);
+    lines.push('\nDescription:');
+    lines.push(issue.description);
     
-    // Split the ticket into sections and format them
-    const sections = ticket.split(/\n\s*(?=- )/g);
+    // Highlight the visual analysis when the model provided one
+    if (issue.visualAnalysis) {
+      lines.push('\n🔍 VISUAL ANALYSIS:');
+      lines.push(issue.visualAnalysis);
+    }
     
-    // Print the title section normally
-    console.log(sections[0]);
+    lines.push(`\nAffected Page: ${issue.pageUrl || 'N/A'}`);
+    lines.push(`Element: ${issue.elementSelector || 'N/A'}`);
+    if (issue.sessionCount) {
+      lines.push(`Sessions: ${issue.sessionCount} (e.g. ${(issue.exampleSessionIds || []).join(', ')})`);
+    }
     
-    // Format and print remaining sections with proper spacing
-    if (sections.length > 1) {
-      for (let i = 1; i < sections.length; i++) {
-        const section = sections[i].trim();
-        
-        // Check if this is the Visual Analysis section and highlight it
-        if (section.startsWith('- Visual Analysis:')) {
-          console.log('\n🔍 VISUAL ANALYSIS:');
-          console.log(section.replace('- Visual Analysis:', '').trim());
-        } else {
-          console.log('\n' + section);
-        }
-      }
-    } else {
-      // If no sections were detected, just print the whole ticket
-      console.log(ticket);
+    if (issue.suggestedFix) {
+      lines.push(`\nSuggested Fix: ${issue.suggestedFix}`);
     }
     
-    console.log('==============================\n');
+    lines.push('==============================\n');
   });
+  
+  return lines.join('\n');
 }
 
 // Start the application
@@ -0,0 +1,305 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { DetectedIssue, IssueCategory } from './posthog';
+import { getConfig } from './config';
+
+// Constants
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Create a simple logger
+const logger = {
+  info: (message: string) => console.error(`[INFO] ${message}`),
+  warn: (message: string) => console.warn(`[WARN] ${message}`),
+  error: (message: string, error?: unknown) => {
+    console.error(`[ERROR] ${message}`);
+    if (error) {
+      if (error instanceof Error) {
+        console.error(`       ${error.message}`);
+      } else {
+        console.error(`       ${String(error)}`);
+      }
+    }
+  }
+};
+
+/**
+ * An issue as persisted in the store, with its sighting history
+ */
+export interface StoredIssue {
+  /** Stable identifier derived from page, element and category */
+  fingerprint: string;
+  /** Most recent version of the issue as drafted by the analyzer */
+  issue: DetectedIssue;
+  /** ISO timestamp of the run that first reported the issue */
+  firstSeen: string;
+  /** ISO timestamp of the most recent run that reported the issue */
+  lastSeen: string;
+  /** Number of times the issue has been reported */
+  occurrences: number;
+  /** Ticket sinks the issue was filed in since it was last new or regressed */
+  filedIn?: string[];
+  /** Set while the issue has only been reported by the rules standing in for a failed LLM analysis */
+  fallback?: boolean;
+}
+
+/**
+ * Whether an issue reported in this run is new, came back after going quiet, or is already known
+ */
+export type IssueStatus = 'new' | 'regressed' | 'recurring';
+
+/**
+ * A stored issue together with its status for the current run
+ */
+export interface TrackedIssue extends StoredIssue {
+  /** Status of the issue in the current run */
+  status: IssueStatus;
+}
+
+/**
+ * Options for recording a run's issues in the store
+ */
+export interface RecordIssuesOptions {
+  /** Path of the JSON-lines store file */
+  storePath?: string;
+  /** Time of the run, defaults to now */
+  now?: Date;
+  /** How long an issue must go unreported before it counts as regressed */
+  regressionWindowMs?: number;
+  /** The issues come from the rules standing in for a failed LLM analysis */
+  fallback?: boolean;
+}
+
+/**
+ * Keywords used to infer a category for issues that do not carry one
+ */
+const CATEGORY_KEYWORDS: [IssueCategory, RegExp][] = [
+  ['rage_click', /rage[\s-]?click/i],
+  ['dead_click', /dead[\s-]?click|unresponsive|non-interactive/i],
+  ['form_abandonment', /form|abandon/i],
+  ['navigation', /navigat|loop|redirect/i],
+  ['error', /error|exception|crash/i],
+  ['performance', /slow|performance|load(ing)? time/i],
+  ['visual', /contrast|layout|overlap|misalign/i]
+];
+
+/**
+ * Resolve the category of an issue, inferring it from the title when missing
+ * @param issue Issue to categorize
+ * @returns Issue category
+ */
+function resolveCategory(issue: DetectedIssue): IssueCategory {
+  if (issue.category) return issue.category;
+  
+  const match = CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(issue.title));
+  return match ? match[0] : 'other';
+}
+
+/**
+ * Normalize a page URL so that the same page matches across runs
+ *
+ * Query strings and fragments are dropped, and numeric or UUID path segments are
+ * replaced with a placeholder so that /orders/123 and /orders/456 are one page.
+ *
+ * @param pageUrl URL to normalize
+ * @returns Normalized URL, or empty string when absent
+ */
+export function normalizePageUrl(pageUrl?: string): string {
+  if (!pageUrl) return '';
+  
+  try {
+    const url = new URL(pageUrl);
+    const pathname = url.pathname
+      .split('/')
+      .map(segment => /^\d+$/.test(segment) || /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment) ? ':id' : segment)
+      .join('/')
+      .replace(/\/+$/, '');
+    
+    return `${url.host.toLowerCase()}${pathname || '/'}`;
+  } catch {
+    return pageUrl.trim().toLowerCase();
+  }
+}
+
+/**
+ * Normalize a CSS selector so that cosmetic differences do not change the fingerprint
+ * @param selector Selector to normalize
+ * @returns Normalized selector, or empty string when absent
+ */
+export function normalizeElementSelector(selector?: string): string {
+  if (!selector) return '';
+  
+  return selector
+    .replace(/:nth-(child|of-type)\([^)]*\)/g, '')
+    .replace(/\s*>\s*/g, ' > ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Compute a stable fingerprint for an issue from its page, element and category
+ * @param issue Issue to fingerprint
+ * @returns Hex fingerprint
+ */
+export function computeIssueFingerprint(issue: DetectedIssue): string {
+  const key = [
+    resolveCategory(issue),
+    normalizePageUrl(issue.pageUrl),
+    normalizeElementSelector(issue.elementSelector)
+  ].join('|');
+  
+  return crypto.createHash('sha256').update(key).digest('hex').substring(0, 16);
+}
+
+/**
+ * Load the issue store from disk
+ * @param storePath Path of the JSON-lines store file
+ * @returns Map of fingerprint to stored issue
+ */
+export function loadIssueStore(storePath: string = getConfig().issueStore.path): Map<string, StoredIssue> {
+  const store = new Map<string, StoredIssue>();
+  
+  if (!fs.existsSync(storePath)) {
+    return store;
+  }
+  
+  const lines = fs.readFileSync(storePath, 'utf8').split('\n');
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    
+    try {
+      const record = JSON.parse(line) as StoredIssue;
+      if (record.fingerprint) {
+        store.set(record.fingerprint, record);
+      }
+    } catch (error) {
+      logger.warn(`Skipping malformed line ${index + 1} in issue store ${storePath}`);
+    }
+  });
+  
+  return store;
+}
+
+/**
+ * Write the issue store to disk, replacing the previous file atomically
+ * @param store Map of fingerprint to stored issue
+ * @param storePath Path of the JSON-lines store file
+ */
+export function saveIssueStore(store: Map<string, StoredIssue>, storePath: string = getConfig().issueStore.path): void {
+  fs.mkdirSync(path.dirname(storePath), { recursive: true });
+  
+  const content = Array.from(store.values())
+    .map(record => JSON.stringify(record))
+    .join('\n');
+  
+  const tempPath = `${storePath}.tmp`;
+  fs.writeFileSync(tempPath, content ? `${content}\n` : '');
+  fs.renameSync(tempPath, storePath);
+}
+
+/**
+ * Record the issues found in a run and classify each as new, regressed or recurring
+ *
+ * Issues with the same fingerprint within one run are merged. An issue counts as
+ * regressed when it had not been reported for longer than the regression window.
+ * New and regressed issues start out filed in no sink; recurring ones keep the
+ * sinks they were filed in, so a filing that failed can be retried. An issue only
+ * known from a rules fallback counts as new once the LLM analysis reports it.
+ *
+ * @param issues Issues detected in this run
+ * @param options Store location, run time and regression window
+ * @returns Tracked issues for this run, one per fingerprint
+ */
+export function recordIssues(issues: DetectedIssue[], options?: RecordIssuesOptions): TrackedIssue[] {
+  const settings = getConfig().issueStore;
+  const storePath = options?.storePath || settings.path;
+  const now = (options?.now || new Date()).toISOString();
+  const regressionWindowMs = options?.regressionWindowMs ?? settings.regressionDays * DAY_MS;
+  
+  const store = loadIssueStore(storePath);
+  const tracked = new Map<string, TrackedIssue>();
+  
+  for (const issue of issues) {
+    const fingerprint = computeIssueFingerprint(issue);
+    
+    // Merge duplicates reported within this run
+    const seenThisRun = tracked.get(fingerprint);
+    if (seenThisRun) {
+      seenThisRun.occurrences++;
+      store.set(fingerprint, toStoredIssue(seenThisRun));
+      continue;
+    }
+    
+    const stored = store.get(fingerprint);
+    const existing = stored?.fallback && !options?.fallback ? undefined : stored;
+    let status: IssueStatus = 'new';
+    
+    if (existing) {
+      const quietForMs = Date.parse(now) - Date.parse(existing.lastSeen);
+      status = quietForMs > regressionWindowMs ? 'regressed' : 'recurring';
+    }
+    
+    const record: TrackedIssue = {
+      fingerprint,
+      issue,
+      firstSeen: existing?.firstSeen || now,
+      lastSeen: now,
+      occurrences: (existing?.occurrences || 0) + 1,
+      filedIn: status === 'recurring' ? (existing?.filedIn ?? []) : [],
+      ...(options?.fallback && (!existing || existing.fallback) ? { fallback: true } : {}),
+      status
+    };
+    
+    tracked.set(fingerprint, record);
+    store.set(fingerprint, toStoredIssue(record));
+  }
+  
+  try {
+    saveIssueStore(store, storePath);
+  } catch (error) {
+    logger.error(`Failed to save issue store to ${storePath}`, error);
+  }
+  
+  const results = Array.from(tracked.values());
+  logger.info(
+    `Issue store: ${results.filter(r => r.status === 'new').length} new, ` +
+    `${results.filter(r => r.status === 'regressed').length} regressed, ` +
+    `${results.filter(r => r.status === 'recurring').length} recurring`
+  );
+  
+  return results;
+}
+
+/**
+ * Record the sinks issues were filed in, so they are not filed there again
+ * @param filings Fingerprint of each filed issue and the sink it was filed in
+ * @param storePath Path of the JSON-lines store file
+ */
+export function markIssuesFiled(filings: { fingerprint: string; sink: string }[], storePath: string = getConfig().issueStore.path): void {
+  if (filings.length === 0) return;
+  
+  const store = loadIssueStore(storePath);
+  for (const { fingerprint, sink } of filings) {
+    const record = store.get(fingerprint);
+    if (record && !record.filedIn?.includes(sink)) {
+      record.filedIn = [...(record.filedIn || []), sink];
+    }
+  }
+  
+  try {
+    saveIssueStore(store, storePath);
+  } catch (error) {
+    logger.error(`Failed to save issue store to ${storePath}`, error);
+  }
+}
+
+/**
+ * Strip the per-run status from a tracked issue before persisting it
+ * @param record Tracked issue
+ * @returns Stored issue
+ */
+function toStoredIssue(record: TrackedIssue): StoredIssue {
+  const { status, ...stored } = record;
+  return stored;
+}
@@ -0,0 +1,186 @@
+// Character codes the scanner reacts to
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+const COLON = 0x3a;
+const COMMA = 0x2c;
+const OPEN_BRACE = 0x7b;
+const CLOSE_BRACE = 0x7d;
+const OPEN_BRACKET = 0x5b;
+const CLOSE_BRACKET = 0x5d;
+
+/**
+ * Check whether a character code is JSON whitespace
+ * @param code Character code
+ * @returns True for spaces, tabs and line breaks
+ */
+function isWhitespace(code: number): boolean {
+  return code === 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+/**
+ * Parse the elements of one array inside a JSON document as the text streams in
+ *
+ * Only one element is held in memory at a time, so documents much larger than the
+ * available memory can be read as long as each element fits. Everything outside the
+ * array is skipped without being parsed, and reading stops once the array ends.
+ *
+ * @param chunks Text of the document, in chunks of any size
+ * @param arrayKey Key of the array in the top-level object, e.g. `sessions`; omit when the document itself is the array
+ * @returns Parsed elements, in document order
+ * @throws Error when an element is not valid JSON or the array is not found
+ */
+export async function* streamJsonArray(chunks: AsyncIterable<string>, arrayKey?: string): AsyncGenerator<unknown> {
+  // Depth of the array whose elements are yielded, once it has been found
+  const targetDepth = arrayKey === undefined ? 1 : 2;
+  let inTarget = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  
+  // Top-level keys, read to find the array
+  let key = '';
+  let readingKey = false;
+  let lastKey: string | null = null;
+  let pendingKey: string | null = null;
+  
+  // Element being collected: text from earlier chunks, and where it starts in this one
+  let element = '';
+  let elementStart = -1;
+  let elementCount = 0;
+  
+  const parseElement = (text: string): unknown => {
+    elementCount++;
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Invalid JSON in element ${elementCount}${arrayKey ? ` of "${arrayKey}"` : ''}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+  
+  for await (const chunk of chunks) {
+    const parsed: unknown[] = [];
+    
+    for (let i = 0; i < chunk.length; i++) {
+      const code = chunk.charCodeAt(i);
+      
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (code === BACKSLASH) {
+          escaped = true;
+        } else if (code === QUOTE) {
+          inString = false;
+          if (readingKey) {
+            lastKey = key;
+          }
+        } else if (readingKey) {
+          key += chunk[i];
+        }
+        continue;
+      }
+      
+      // Between elements of the target array
+      if (inTarget && depth === targetDepth && elementStart === -1 && element === '') {
+        if (isWhitespace(code) || code === COMMA) continue;
+        if (code === CLOSE_BRACKET) {
+          yield* parsed;
+          return;
+        }
+        elementStart = i;
+      }
+      
+      // Strings, numbers and literals end at the next separator
+      if (inTarget && depth === targetDepth && (code === COMMA || code === CLOSE_BRACKET)) {
+        parsed.push(parseElement(element + chunk.slice(elementStart, i)));
+        element = '';
+        elementStart = -1;
+        if (code === CLOSE_BRACKET) {
+          yield* parsed;
+          return;
+        }
+        continue;
+      }
+      
+      switch (code) {
+        case QUOTE:
+          inString = true;
+          // Strings at the top level that do not follow a colon are keys
+          readingKey = !inTarget && depth === 1 && pendingKey === null;
+          key = '';
+          break;
+        case COLON:
+          if (!inTarget && depth === 1) pendingKey = lastKey;
+          break;
+        case COMMA:
+          if (!inTarget && depth === 1) pendingKey = null;
+          break;
+        case OPEN_BRACKET:
+          if (!inTarget && ((arrayKey === undefined && depth === 0) || (depth === 1 && pendingKey === arrayKey))) {
+            inTarget = true;
+          }
+          depth++;
+          break;
+        case OPEN_BRACE:
+          depth++;
+          break;
+        case CLOSE_BRACE:
+        case CLOSE_BRACKET:
+          depth--;
+          // Objects and arrays end with their closing character
+          if (inTarget && depth === targetDepth) {
+            parsed.push(parseElement(element + chunk.slice(elementStart, i + 1)));
+            element = '';
+            elementStart = -1;
+          }
+          break;
+      }
+    }
+    
+    // Carry the unfinished element over to the next chunk
+    if (elementStart !== -1) {
+      element += chunk.slice(elementStart);
+      elementStart = 0;
+    }
+    
+    yield* parsed;
+  }
+  
+  throw new Error(arrayKey ? `No "${arrayKey}" array found in the document` : 'The document is not a JSON array');
+}
+
+/**
+ * Parse newline-delimited JSON as the text streams in, one value per line
+ * @param chunks Text of the document, in chunks of any size
+ * @returns Parsed values of the non-empty lines, in order
+ * @throws Error naming the line that is not valid JSON
+ */
+export async function* streamJsonLines(chunks: AsyncIterable<string>): AsyncGenerator<unknown> {
+  let buffered = '';
+  let lineNumber = 0;
+  
+  const parseLine = (line: string): unknown => {
+    lineNumber++;
+    try {
+      return JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Invalid JSON on line ${lineNumber}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+  
+  for await (const chunk of chunks) {
+    const lines = (buffered + chunk).split('\n');
+    buffered = lines.pop() || '';
+    
+    for (const line of lines) {
+      if (line.trim() === '') {
+        lineNumber++;
+        continue;
+      }
+      yield parseLine(line);
+    }
+  }
+  
+  if (buffered.trim() !== '') {
+    yield parseLine(buffered);
+  }
+}
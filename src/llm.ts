@@ -0,0 +1,491 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import dotenv from 'dotenv';
+import OpenAI, { AzureOpenAI } from 'openai';
+import { ChatCompletionContentPart, ChatCompletionCreateParamsNonStreaming, ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { IssueSpotterConfig, getConfig } from './config';
+
+// Load environment variables
+dotenv.config();
+
+// Constants
+const DEFAULT_ANTHROPIC_BASE_URL = 'https://api.anthropic.com';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+const ANTHROPIC_MAX_TOKENS = 4096;
+const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+const EMPTY_ISSUES_RESPONSE = '{ "issues": [] }';
+
+/**
+ * Names of the supported LLM providers
+ */
+export type LlmProviderName = IssueSpotterConfig['ai']['provider'];
+
+/**
+ * What a provider and model can do, used to shape the request
+ */
+export interface LlmCapabilities {
+  /** The model accepts images alongside text */
+  imageInput: boolean;
+  /**
+   * How structured output is enforced: `schema` validates against a JSON schema,
+   * `object` only guarantees a JSON object, `none` relies on the prompt alone
+   */
+  jsonMode: 'schema' | 'object' | 'none';
+}
+
+/**
+ * Part of a message's content
+ */
+export type LlmContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mediaType: string; data: string };
+
+/**
+ * A message in a conversation with the model
+ */
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  /** Plain text, or text and base64 images */
+  content: string | LlmContentPart[];
+}
+
+/**
+ * JSON schema the reply must conform to
+ */
+export interface LlmJsonSchema {
+  /** Schema name, reported by some providers in errors */
+  name: string;
+  /** JSON schema of the reply object */
+  schema: Record<string, any>;
+}
+
+/**
+ * Request for a single completion
+ */
+export interface LlmRequest {
+  messages: LlmMessage[];
+  /** Ask for a JSON reply matching this schema */
+  jsonSchema?: LlmJsonSchema;
+}
+
+/**
+ * A chat model that analysis requests can be sent to
+ */
+export interface LlmProvider {
+  /** Provider name used in logs */
+  name: LlmProviderName;
+  /** Model the requests are sent to */
+  model: string;
+  /** What the model supports */
+  capabilities: LlmCapabilities;
+  /**
+   * Request a completion
+   * @param request Conversation and output requirements
+   * @returns Text of the reply, or null when the model returned nothing
+   */
+  complete(request: LlmRequest): Promise<string | null>;
+  /**
+   * Check that the provider is reachable with the configured credentials
+   * @returns True when a request succeeded
+   */
+  testConnection(): Promise<boolean>;
+}
+
+/**
+ * Options shared by all providers
+ */
+interface BaseProviderOptions {
+  /** Model to use */
+  model: string;
+  /** Capabilities that differ from the provider's defaults */
+  capabilities?: Partial<LlmCapabilities>;
+}
+
+/**
+ * Options for the OpenAI provider
+ */
+export interface OpenAiProviderOptions extends BaseProviderOptions {
+  /** OpenAI API key */
+  apiKey: string;
+}
+
+/**
+ * Options for the Azure OpenAI provider
+ */
+export interface AzureOpenAiProviderOptions extends BaseProviderOptions {
+  /** Azure OpenAI API key */
+  apiKey: string;
+  /** Resource endpoint, e.g. https://example.openai.azure.com */
+  endpoint: string;
+  /** API version, defaults to a recent GA version */
+  apiVersion?: string;
+}
+
+/**
+ * Options for the Anthropic provider
+ */
+export interface AnthropicProviderOptions extends BaseProviderOptions {
+  /** Anthropic API key */
+  apiKey: string;
+  /** API base URL, override for a proxy or a local stand-in */
+  baseUrl?: string;
+}
+
+/**
+ * Options for OpenAI-compatible local servers such as Ollama or llama.cpp
+ */
+export interface LocalProviderOptions extends BaseProviderOptions {
+  /** Base URL of the OpenAI-compatible API, defaults to Ollama's */
+  baseUrl?: string;
+  /** API key, for servers started with one */
+  apiKey?: string;
+}
+
+/**
+ * Options for the deterministic fake provider
+ */
+export interface FakeProviderOptions {
+  /** Replies returned in order; the last one is repeated once they run out */
+  responses?: string[];
+  /** Capabilities that differ from the fake's defaults */
+  capabilities?: Partial<LlmCapabilities>;
+}
+
+/**
+ * Provider returned by createFakeProvider, recording the requests it receives
+ */
+export interface FakeLlmProvider extends LlmProvider {
+  /** Requests received so far */
+  requests: LlmRequest[];
+}
+
+/**
+ * Models used when the configuration does not name one
+ */
+const DEFAULT_MODELS: Partial<Record<LlmProviderName, string>> = {
+  openai: 'gpt-4o',
+  anthropic: 'claude-3-5-sonnet-latest',
+  fake: 'fake'
+};
+
+/**
+ * Environment variable holding each provider's API key, for providers that need one
+ */
+export const LLM_API_KEY_ENV_VARS: Partial<Record<LlmProviderName, string>> = {
+  openai: 'OPENAI_API_KEY',
+  azure: 'AZURE_OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY'
+};
+
+/**
+ * Join the text parts of a message, dropping images
+ * @param content Message content
+ * @returns Plain text
+ */
+function contentToText(content: LlmMessage['content']): string {
+  if (typeof content === 'string') return content;
+  return content
+    .filter((part): part is Extract<LlmContentPart, { type: 'text' }> => part.type === 'text')
+    .map(part => part.text)
+    .join('\n\n');
+}
+
+/**
+ * Adapt a request to the provider's capabilities
+ *
+ * Images are dropped for text-only models, and when the schema cannot be enforced
+ * it is spelled out in an extra system message instead.
+ *
+ * @param request Request to adapt
+ * @param capabilities Provider capabilities
+ * @returns Messages to send
+ */
+function prepareMessages(request: LlmRequest, capabilities: LlmCapabilities): LlmMessage[] {
+  const messages = request.messages.map(message => {
+    if (capabilities.imageInput || typeof message.content === 'string') return message;
+    return { ...message, content: message.content.filter(part => part.type === 'text') };
+  });
+
+  if (request.jsonSchema && capabilities.jsonMode !== 'schema') {
+    messages.unshift({
+      role: 'system',
+      content: `Reply with a single JSON object, without any other text, that matches this JSON schema:\n${JSON.stringify(request.jsonSchema.schema)}`
+    });
+  }
+
+  return messages;
+}
+
+/**
+ * Cut the JSON object out of a reply that may wrap it in prose or a code fence
+ * @param text Reply text
+ * @returns The outermost JSON object, or the text unchanged when there is none
+ */
+function extractJsonObject(text: string): string {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start !== -1 && end > start ? text.slice(start, end + 1) : text;
+}
+
+/**
+ * Convert messages to the Chat Completions format
+ * @param messages Messages to convert
+ * @returns Chat Completions messages
+ */
+function toChatCompletionMessages(messages: LlmMessage[]): ChatCompletionMessageParam[] {
+  return messages.map((message): ChatCompletionMessageParam => {
+    if (message.role !== 'user' || typeof message.content === 'string') {
+      return { role: message.role, content: contentToText(message.content) } as ChatCompletionMessageParam;
+    }
+
+    return {
+      role: 'user',
+      content: message.content.map((part): ChatCompletionContentPart => part.type === 'text'
+        ? { type: 'text', text: part.text }
+        : { type: 'image_url', image_url: { url: `data:${part.mediaType};base64,${part.data}` } })
+    };
+  });
+}
+
+/**
+ * Create a provider for any API that implements OpenAI's Chat Completions
+ * @param name Provider name
+ * @param client Client configured for the API
+ * @param model Model, or deployment name for Azure
+ * @param capabilities Model capabilities
+ * @returns LLM provider
+ */
+function createChatCompletionsProvider(
+  name: LlmProviderName,
+  client: OpenAI,
+  model: string,
+  capabilities: LlmCapabilities
+): LlmProvider {
+  return {
+    name,
+    model,
+    capabilities,
+    async complete(request: LlmRequest): Promise<string | null> {
+      const params: ChatCompletionCreateParamsNonStreaming = {
+        model,
+        messages: toChatCompletionMessages(prepareMessages(request, capabilities))
+      };
+
+      if (request.jsonSchema && capabilities.jsonMode === 'schema') {
+        params.response_format = { type: 'json_schema', json_schema: { ...request.jsonSchema, strict: true } };
+      } else if (request.jsonSchema && capabilities.jsonMode === 'object') {
+        params.response_format = { type: 'json_object' };
+      }
+
+      const completion = await client.chat.completions.create(params);
+      const content = completion.choices[0]?.message.content;
+      if (!content) return null;
+
+      return request.jsonSchema && capabilities.jsonMode === 'none' ? extractJsonObject(content) : content;
+    },
+    async testConnection(): Promise<boolean> {
+      try {
+        await client.models.list();
+        return true;
+      } catch {
+        return false;
+      }
+    }
+  };
+}
+
+/**
+ * Create a provider backed by the OpenAI API
+ * @param options OpenAI provider options
+ * @returns OpenAI provider
+ */
+export function createOpenAiProvider(options: OpenAiProviderOptions): LlmProvider {
+  return createChatCompletionsProvider(
+    'openai',
+    new OpenAI({ apiKey: options.apiKey }),
+    options.model,
+    { imageInput: true, jsonMode: 'schema', ...options.capabilities }
+  );
+}
+
+/**
+ * Create a provider backed by an Azure OpenAI resource
+ * @param options Azure OpenAI provider options; the model is the deployment name
+ * @returns Azure OpenAI provider
+ */
+export function createAzureOpenAiProvider(options: AzureOpenAiProviderOptions): LlmProvider {
+  return createChatCompletionsProvider(
+    'azure',
+    new AzureOpenAI({
+      apiKey: options.apiKey,
+      endpoint: options.endpoint,
+      apiVersion: options.apiVersion || DEFAULT_AZURE_API_VERSION
+    }),
+    options.model,
+    { imageInput: true, jsonMode: 'schema', ...options.capabilities }
+  );
+}
+
+/**
+ * Create a provider for an OpenAI-compatible local server such as Ollama or llama.cpp
+ *
+ * Local models are assumed to be text-only and to support only JSON object mode
+ * unless the configuration says otherwise.
+ *
+ * @param options Local provider options
+ * @returns Local provider
+ */
+export function createLocalProvider(options: LocalProviderOptions): LlmProvider {
+  return createChatCompletionsProvider(
+    'local',
+    new OpenAI({ baseURL: options.baseUrl || DEFAULT_LOCAL_BASE_URL, apiKey: options.apiKey || 'local' }),
+    options.model,
+    { imageInput: false, jsonMode: 'object', ...options.capabilities }
+  );
+}
+
+/**
+ * Create a provider backed by Anthropic's Messages API
+ *
+ * The Messages API has no JSON mode, so when a schema is requested the reply is
+ * prefilled with an opening brace and the JSON object is cut out of the result.
+ *
+ * @param options Anthropic provider options
+ * @returns Anthropic provider
+ */
+export function createAnthropicProvider(options: AnthropicProviderOptions): LlmProvider {
+  const baseUrl = (options.baseUrl || DEFAULT_ANTHROPIC_BASE_URL).replace(/\/+$/, '');
+  const capabilities: LlmCapabilities = { imageInput: true, jsonMode: 'none', ...options.capabilities };
+  const headers = {
+    'x-api-key': options.apiKey,
+    'anthropic-version': ANTHROPIC_API_VERSION
+  };
+
+  return {
+    name: 'anthropic',
+    model: options.model,
+    capabilities,
+    async complete(request: LlmRequest): Promise<string | null> {
+      const prepared = prepareMessages(request, capabilities);
+      const system = prepared.filter(message => message.role === 'system').map(message => contentToText(message.content));
+      const messages = prepared
+        .filter(message => message.role !== 'system')
+        .map(message => ({
+          role: message.role,
+          content: typeof message.content === 'string'
+            ? message.content
+            : message.content.map(part => part.type === 'text'
+              ? { type: 'text', text: part.text }
+              : { type: 'image', source: { type: 'base64', media_type: part.mediaType, data: part.data } })
+        }));
+
+      const prefill = request.jsonSchema ? '{' : '';
+      if (prefill) {
+        messages.push({ role: 'assistant', content: prefill });
+      }
+
+      const response = await axios.post(`${baseUrl}/v1/messages`, {
+        model: options.model,
+        max_tokens: ANTHROPIC_MAX_TOKENS,
+        system: system.join('\n\n') || undefined,
+        messages
+      }, { headers });
+
+      const text = (response.data?.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('');
+      if (!text) return null;
+
+      return request.jsonSchema ? extractJsonObject(prefill + text) : text;
+    },
+    async testConnection(): Promise<boolean> {
+      try {
+        const response = await axios.get(`${baseUrl}/v1/models`, { headers });
+        return response.status === 200;
+      } catch {
+        return false;
+      }
+    }
+  };
+}
+
+/**
+ * Create a deterministic provider that never touches the network
+ *
+ * Without scripted responses it reports no issues, which lets the whole pipeline
+ * run offline.
+ *
+ * @param options Scripted responses and capabilities
+ * @returns Fake provider that records every request
+ */
+export function createFakeProvider(options: FakeProviderOptions = {}): FakeLlmProvider {
+  const responses = options.responses && options.responses.length > 0 ? options.responses : [EMPTY_ISSUES_RESPONSE];
+  const requests: LlmRequest[] = [];
+
+  return {
+    name: 'fake',
+    model: DEFAULT_MODELS.fake!,
+    capabilities: { imageInput: true, jsonMode: 'schema', ...options.capabilities },
+    requests,
+    async complete(request: LlmRequest): Promise<string | null> {
+      requests.push(request);
+      return responses[Math.min(requests.length, responses.length) - 1];
+    },
+    async testConnection(): Promise<boolean> {
+      return true;
+    }
+  };
+}
+
+/**
+ * Create the provider selected in the configuration
+ *
+ * API keys are read from the environment; see LLM_API_KEY_ENV_VARS.
+ *
+ * @param config AI settings, defaults to the active configuration
+ * @returns Configured LLM provider
+ * @throws Error if a required API key, endpoint or model is missing
+ */
+export function createProviderFromConfig(config: IssueSpotterConfig['ai'] = getConfig().ai): LlmProvider {
+  const capabilities: Partial<LlmCapabilities> = {};
+  if (config.imageInput !== undefined) capabilities.imageInput = config.imageInput;
+  if (config.jsonMode !== undefined) capabilities.jsonMode = config.jsonMode;
+
+  const model = config.model || DEFAULT_MODELS[config.provider];
+  if (!model) {
+    throw new Error(`The ${config.provider} LLM provider needs a model (ai.model or LLM_MODEL)`);
+  }
+
+  const keyVar = LLM_API_KEY_ENV_VARS[config.provider];
+  const apiKey = keyVar ? process.env[keyVar] : undefined;
+  if (keyVar && !apiKey) {
+    throw new Error(`The ${config.provider} LLM provider requires ${keyVar}`);
+  }
+
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAiProvider({ apiKey: apiKey!, model, capabilities });
+
+    case 'azure': {
+      const endpoint = config.baseUrl || process.env.AZURE_OPENAI_ENDPOINT;
+      if (!endpoint) {
+        throw new Error('The azure LLM provider needs an endpoint (ai.baseUrl, LLM_BASE_URL or AZURE_OPENAI_ENDPOINT)');
+      }
+      return createAzureOpenAiProvider({ apiKey: apiKey!, endpoint, apiVersion: config.apiVersion, model, capabilities });
+    }
+
+    case 'anthropic':
+      return createAnthropicProvider({ apiKey: apiKey!, baseUrl: config.baseUrl, model, capabilities });
+
+    case 'local':
+      return createLocalProvider({ baseUrl: config.baseUrl, apiKey: process.env.LLM_API_KEY, model, capabilities });
+
+    case 'fake':
+      return createFakeProvider({
+        responses: config.fakeResponseFile ? [fs.readFileSync(config.fakeResponseFile, 'utf8')] : undefined,
+        capabilities
+      });
+  }
+}
@@ -0,0 +1,236 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { IssueSpotterConfig, getConfig } from './config';
+import { LlmMessage, LlmProvider, LlmRequest } from './llm';
+
+// Constants
+const HOUR_MS = 60 * 60 * 1000;
+const MB = 1024 * 1024;
+const ENTRY_EXTENSION = '.json';
+const CACHE_MISS_ERROR_CODE = 'LLM_CACHE_MISS';
+
+// Create a simple logger
+const logger = {
+  info: (message: string) => console.error(`[INFO] ${message}`),
+  warn: (message: string) => console.warn(`[WARN] ${message}`),
+  error: (message: string, error?: unknown) => {
+    console.error(`[ERROR] ${message}`);
+    if (error) {
+      if (error instanceof Error) {
+        console.error(`       ${error.message}`);
+      } else {
+        console.error(`       ${String(error)}`);
+      }
+    }
+  }
+};
+
+/**
+ * LLM cache settings from the configuration
+ */
+export type LlmCacheOptions = IssueSpotterConfig['llmCache'];
+
+/**
+ * A cached reply, stored as `<key>.json` in the cache directory
+ */
+export interface LlmCacheEntry {
+  /** Hash of the model, prompt version and request */
+  key: string;
+  /** Model that replied */
+  model: string;
+  /** Version of the prompts the request was built with */
+  promptVersion: string;
+  /** ISO timestamp of when the reply was received */
+  createdAt: string;
+  /** The request, with the data of each image replaced by its hash */
+  request: LlmRequest;
+  /** Text of the reply */
+  response: string;
+}
+
+/**
+ * Check whether an error is a request that `replay` mode could not answer from the cache
+ * @param error Error thrown by a cached provider
+ * @returns True for a replay cache miss
+ */
+export function isLlmCacheMissError(error: unknown): boolean {
+  return error instanceof Error && (error as NodeJS.ErrnoException).code === CACHE_MISS_ERROR_CODE;
+}
+
+/**
+ * Hash a text
+ * @param text Text to hash
+ * @returns Hex SHA-256 digest
+ */
+function hashText(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Replace the base64 data of each image in a request with its hash
+ * @param request LLM request
+ * @returns The request as it is hashed and stored
+ */
+function hashImages(request: LlmRequest): LlmRequest {
+  const messages: LlmMessage[] = request.messages.map(message => ({
+    ...message,
+    content: typeof message.content === 'string'
+      ? message.content
+      : message.content.map(part => part.type === 'image' ? { ...part, data: `sha256:${hashText(part.data)}` } : part)
+  }));
+  
+  return { ...request, messages };
+}
+
+/**
+ * Compute the cache key of a request
+ * @param model Model the request is sent to
+ * @param promptVersion Version of the prompts the request was built with
+ * @param request LLM request
+ * @returns Hex key, the same for the same model, prompt version, text and images
+ */
+export function computeLlmCacheKey(model: string, promptVersion: string, request: LlmRequest): string {
+  return hashText(JSON.stringify({ model, promptVersion, request: hashImages(request) }));
+}
+
+/**
+ * Read a cached reply that has not expired
+ *
+ * An entry expires once it has gone unused for the TTL, as tracked by the
+ * modification time of its file, the same rule `pruneLlmCache` applies. Expired
+ * and unreadable entries are removed, and a hit marks the entry as recently used.
+ * A read-only lookup, as in `replay` mode, ignores the TTL and leaves the files
+ * untouched, so recorded fixtures never expire or change.
+ *
+ * @param filePath Path of the entry
+ * @param ttlMs How long an unused reply is kept
+ * @param now Current time
+ * @param readOnly Whether to skip the expiry check and leave the file as it is
+ * @returns The entry, or undefined on a miss
+ */
+function readEntry(filePath: string, ttlMs: number, now: number, readOnly: boolean): LlmCacheEntry | undefined {
+  if (!fs.existsSync(filePath)) return undefined;
+  
+  try {
+    const entry: LlmCacheEntry = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    if (typeof entry.response !== 'string') {
+      throw new Error('the entry has no response');
+    }
+    if (readOnly) return entry;
+    
+    if (now - fs.statSync(filePath).mtimeMs > ttlMs) {
+      fs.rmSync(filePath, { force: true });
+      return undefined;
+    }
+    
+    fs.utimesSync(filePath, new Date(now), new Date(now));
+    return entry;
+  } catch (error) {
+    logger.warn(`Ignoring unreadable LLM cache entry ${filePath}: ${error}`);
+    if (!readOnly) {
+      fs.rmSync(filePath, { force: true });
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Remove cached replies that have not been used within the TTL, then the least
+ * recently used ones until the cache fits in its size limit
+ * @param options Cache settings
+ * @param now Current time
+ * @returns Number of entries removed
+ */
+export function pruneLlmCache(options: LlmCacheOptions = getConfig().llmCache, now: number = Date.now()): number {
+  if (!fs.existsSync(options.dir)) return 0;
+  
+  const entries = fs.readdirSync(options.dir)
+    .filter(fileName => fileName.endsWith(ENTRY_EXTENSION))
+    .map(fileName => {
+      const filePath = path.join(options.dir, fileName);
+      const stats = fs.statSync(filePath);
+      return { filePath, size: stats.size, usedAt: stats.mtimeMs };
+    })
+    .sort((a, b) => a.usedAt - b.usedAt);
+  
+  let totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+  let removed = 0;
+  
+  for (const entry of entries) {
+    const expired = now - entry.usedAt > options.ttlHours * HOUR_MS;
+    if (!expired && totalSize <= options.maxSizeMb * MB) break;
+    
+    fs.rmSync(entry.filePath, { force: true });
+    totalSize -= entry.size;
+    removed++;
+  }
+  
+  return removed;
+}
+
+/**
+ * Wrap a provider so that its replies are stored in and served from the cache
+ *
+ * Requests are keyed by the model, the prompt version and a hash of their text
+ * and images. In `replay` mode the provider is never called, entries never expire,
+ * and a request that is not in the cache fails with an error recognized by
+ * `isLlmCacheMissError`. Empty replies are not stored.
+ *
+ * @param provider Provider that answers the requests the cache cannot
+ * @param promptVersion Version of the prompts, changed when a reply to the same text would no longer fit
+ * @param options Cache settings
+ * @returns The provider, or a caching provider unless the cache is off
+ */
+export function createCachedProvider(
+  provider: LlmProvider,
+  promptVersion: string,
+  options: LlmCacheOptions = getConfig().llmCache
+): LlmProvider {
+  if (options.mode === 'off') return provider;
+  
+  return {
+    ...provider,
+    async complete(request: LlmRequest): Promise<string | null> {
+      const key = computeLlmCacheKey(provider.model, promptVersion, request);
+      const filePath = path.join(options.dir, `${key}${ENTRY_EXTENSION}`);
+      
+      const cached = readEntry(filePath, options.ttlHours * HOUR_MS, Date.now(), options.mode === 'replay');
+      if (cached) {
+        logger.info(`Reusing the cached ${provider.model} reply ${key.substring(0, 12)}`);
+        return cached.response;
+      }
+      if (options.mode === 'replay') {
+        throw Object.assign(
+          new Error(`No cached ${provider.model} reply for request ${key} in ${options.dir}`),
+          { code: CACHE_MISS_ERROR_CODE }
+        );
+      }
+      
+      const response = await provider.complete(request);
+      if (response === null) return response;
+      
+      try {
+        const entry: LlmCacheEntry = {
+          key,
+          model: provider.model,
+          promptVersion,
+          createdAt: new Date().toISOString(),
+          request: hashImages(request),
+          response
+        };
+        
+        // Write to a temporary file first, so a concurrent run never reads half an entry
+        fs.mkdirSync(options.dir, { recursive: true });
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(entry));
+        fs.renameSync(tempPath, filePath);
+        pruneLlmCache(options);
+      } catch (error) {
+        logger.error(`Failed to write to the LLM cache in ${options.dir}`, error);
+      }
+      
+      return response;
+    }
+  };
+}
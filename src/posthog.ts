@@ -1,17 +1,16 @@
 import axios, { AxiosError, AxiosResponse } from 'axios';
 import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getConfig } from './config';
+import { buildSessions } from './sessions';
 
 // Ensure environment variables are loaded
 dotenv.config();
 
-// Constants
-const DEFAULT_POSTHOG_HOST = 'https://app.posthog.com';
-const DEFAULT_MAX_EVENTS = 100;
-const SESSION_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
-
 // Create a simple logger
 const logger = {
-  info: (message: string) => console.log(`[INFO] ${message}`),
+  info: (message: string) => console.error(`[INFO] ${message}`),
   warn: (message: string) => console.warn(`[WARN] ${message}`),
   error: (message: string, error?: unknown) => {
     console.error(`[ERROR] ${message}`);
@@ -43,6 +42,26 @@ export interface PostHogEvent {
   elements_chain?: string;
 }
 
+/**
+ * Kind of UX problem an issue describes, used to fingerprint issues across runs
+ */
+export type IssueCategory =
+  | 'rage_click'
+  | 'dead_click'
+  | 'form_abandonment'
+  | 'navigation'
+  | 'error'
+  | 'performance'
+  | 'visual'
+  | 'other';
+
+/**
+ * Every issue category, in the order they are listed to the model
+ */
+export const ISSUE_CATEGORIES: IssueCategory[] = [
+  'rage_click', 'dead_click', 'form_abandonment', 'navigation', 'error', 'performance', 'visual', 'other'
+];
+
 /**
  * Interface representing an issue ticket that will be generated from analysis
  */
@@ -59,6 +78,14 @@ export interface DetectedIssue {
   elementSelector?: string;
   /** Suggested solution to the issue */
   suggestedFix?: string;
+  /** Observations about the screenshots related to the issue */
+  visualAnalysis?: string;
+  /** Kind of UX problem the issue describes */
+  category?: IssueCategory;
+  /** Number of sessions the issue was found in, when sessions were analyzed separately */
+  sessionCount?: number;
+  /** IDs of some of the sessions the issue was found in */
+  exampleSessionIds?: string[];
 }
 
 /**
@@ -74,122 +101,653 @@ export enum UXRelevantEvents {
 /**
  * Configuration options for fetching PostHog events
  */
-interface PostHogFetchOptions {
+export interface PostHogFetchOptions {
+  /** Hard cap on the total number of events fetched across all pages */
   limit?: number;
+  /** Event names to fetch */
   eventNames?: string[];
+  /** Only fetch events after this time */
+  after?: Date | string;
+  /** Only fetch events before this time */
+  before?: Date | string;
+  /** Number of events requested per page */
+  pageSize?: number;
+  /** Start after the persisted cursor when no explicit `after` is given */
+  useCursor?: boolean;
+  /** Path of the cursor file, defaults to POSTHOG_CURSOR_PATH */
+  cursorPath?: string;
+  /** API used to fetch events, defaults to POSTHOG_EVENTS_SOURCE or the legacy events API */
+  source?: PostHogEventSource;
+}
+
+/**
+ * API used to read events: the legacy `/api/event/` endpoint or HogQL queries
+ */
+export type PostHogEventSource = 'events-api' | 'hogql';
+
+/**
+ * Resolved connection and range settings shared by the event sources
+ */
+interface ResolvedFetchSettings {
+  apiKey: string;
+  host: string;
+  maxEvents: number;
+  pageSize: number;
+  eventNames: string[];
+  after?: string;
+  /** ID of the last event processed at the `after` timestamp, so HogQL can resume after it */
+  afterId?: string;
+  before?: string;
+}
+
+/**
+ * Session recording downloaded from PostHog, in the same shape as a manual RRweb export
+ */
+export interface PostHogRecordingExport {
+  sessions: {
+    sessionId: string;
+    records: {
+      /** Browser window the events were recorded in */
+      id: string;
+      /** Distinct ID of the recorded user */
+      user_id?: string;
+      session_id: string;
+      events: any[];
+    }[];
+  }[];
+}
+
+/**
+ * Persisted position of the incremental event fetch
+ */
+interface PostHogCursor {
+  /** ISO timestamp of the newest event that has been processed */
+  lastProcessedTimestamp: string;
+  /** ID of the last event processed at that timestamp */
+  lastProcessedId?: string;
+}
+
+/**
+ * Resolve the cursor file location
+ * @param cursorPath Explicit path, if any
+ * @returns Path of the cursor file
+ */
+function resolveCursorPath(cursorPath?: string): string {
+  return cursorPath || getConfig().posthog.cursorPath;
+}
+
+/**
+ * Read the timestamp of the newest event processed by a previous run
+ * 
+ * @param cursorPath - Optional path of the cursor file
+ * @returns ISO timestamp, or undefined when no run has completed yet
+ */
+export function loadPostHogCursor(cursorPath?: string): string | undefined {
+  return readPostHogCursor(cursorPath)?.lastProcessedTimestamp;
+}
+
+/**
+ * Read the cursor file
+ * @param cursorPath Optional path of the cursor file
+ * @returns The cursor, or undefined when no run has completed yet
+ */
+function readPostHogCursor(cursorPath?: string): PostHogCursor | undefined {
+  const filePath = resolveCursorPath(cursorPath);
+  
+  try {
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+    
+    const cursor = JSON.parse(fs.readFileSync(filePath, 'utf8')) as PostHogCursor;
+    if (cursor.lastProcessedTimestamp && isNaN(Date.parse(cursor.lastProcessedTimestamp))) {
+      throw new Error(`Invalid timestamp ${cursor.lastProcessedTimestamp}`);
+    }
+    return cursor.lastProcessedTimestamp ? cursor : undefined;
+  } catch (error) {
+    logger.error(`Failed to read PostHog cursor from ${filePath}, starting from the latest events`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Move the cursor past the given events so the next run only fetches newer ones
+ * 
+ * Call this once the events have been analyzed, so a failed run is retried.
+ * Among events that share the newest timestamp, the last one in the given order
+ * is remembered, as HogQL returns them in the order it resumes from.
+ * 
+ * @param events - Events that have been processed
+ * @param cursorPath - Optional path of the cursor file
+ */
+export function advancePostHogCursor(events: PostHogEvent[], cursorPath?: string): void {
+  if (events.length === 0) {
+    return;
+  }
+  
+  const newest = events.reduce((latest, event) =>
+    new Date(event.timestamp).getTime() >= new Date(latest.timestamp).getTime() ? event : latest
+  );
+  
+  const previous = loadPostHogCursor(cursorPath);
+  if (previous && new Date(previous).getTime() > new Date(newest.timestamp).getTime()) {
+    return;
+  }
+  
+  const filePath = resolveCursorPath(cursorPath);
+  // The timestamp is kept as the API returned it, as it may be more precise than a Date
+  const cursor: PostHogCursor = { lastProcessedTimestamp: newest.timestamp, lastProcessedId: newest.id };
+  
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(cursor, null, 2));
+  logger.info(`Advanced PostHog cursor to ${cursor.lastProcessedTimestamp}`);
+}
+
+/**
+ * Convert a time bound to the ISO string the PostHog API expects
+ * @param value Date or date string
+ * @returns ISO timestamp, or undefined when no bound is given
+ * @throws Error if the value is not a valid date
+ */
+function toIsoTimestamp(value?: Date | string): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid timestamp for PostHog time range: ${String(value)}`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Read the PostHog project ID required by the project-scoped APIs
+ * @returns Project ID
+ * @throws Error if the project ID is not configured
+ */
+function requireProjectId(): string {
+  const projectId = getConfig().posthog.projectId;
+  if (!projectId) {
+    logger.error('PostHog project ID is not configured');
+    throw new Error('posthog.projectId (or POSTHOG_PROJECT_ID) must be set to use HogQL queries or session recordings');
+  }
+  return projectId;
+}
+
+/**
+ * Log a failed PostHog request with the response body when there is one
+ * @param context Description of the request that failed
+ * @param error Error thrown by axios or by response handling
+ */
+function logPostHogError(context: string, error: unknown): void {
+  if (axios.isAxiosError(error)) {
+    const axiosError = error as AxiosError;
+    logger.error(
+      `${context}: ${axiosError.message}`, 
+      axiosError.response?.data || axiosError
+    );
+  } else {
+    logger.error(`${context}:`, error);
+  }
 }
 
 /**
- * Fetches recent events from PostHog API, filtered to events relevant for UX analysis
+ * Fetches events from PostHog API, filtered to events relevant for UX analysis
+ * 
+ * Events are fetched oldest first, following the API's pagination until the time
+ * range is exhausted or the hard cap on total events is reached. When the cap is
+ * hit the newest events are left out, so advancing the cursor past the returned
+ * events lets the next run pick them up.
  * 
  * @param options - Optional configuration for the API request
  * @returns Array of PostHog events sorted by timestamp
  * @throws Error if PostHog API key is missing or API request fails
  */
 export async function fetchPostHogEvents(options?: PostHogFetchOptions): Promise<PostHogEvent[]> {
+  const config = getConfig().posthog;
   const apiKey = process.env.POSTHOG_API_KEY;
-  const host = process.env.POSTHOG_HOST || DEFAULT_POSTHOG_HOST;
-  const maxEvents = options?.limit || parseInt(process.env.MAX_EVENTS_TO_ANALYZE || String(DEFAULT_MAX_EVENTS), 10);
+  const host = config.host;
+  const maxEvents = options?.limit || config.maxEvents;
+  const pageSize = Math.min(options?.pageSize || config.pageSize, maxEvents);
   const eventNames = options?.eventNames || [
     UXRelevantEvents.AUTOCAPTURE,
     UXRelevantEvents.RAGECLICK,
     UXRelevantEvents.PAGEVIEW,
     UXRelevantEvents.PAGELEAVE
   ];
+  const source = options?.source || config.eventsSource;
   
   if (!apiKey) {
     logger.error('PostHog API key is not configured in .env file');
     throw new Error('PostHog API key is not configured in .env file');
   }
   
+  const cursor = options?.after === undefined && options?.useCursor ? readPostHogCursor(options.cursorPath) : undefined;
+  const settings: ResolvedFetchSettings = {
+    apiKey,
+    host,
+    maxEvents,
+    pageSize,
+    eventNames,
+    after: options?.after !== undefined ? toIsoTimestamp(options.after) : cursor?.lastProcessedTimestamp,
+    afterId: cursor?.lastProcessedId,
+    before: toIsoTimestamp(options?.before)
+  };
+  
   try {
-    logger.info(`Fetching up to ${maxEvents} events from PostHog API at ${host}`);
+    logger.info(
+      `Fetching up to ${maxEvents} events from PostHog ${source === 'hogql' ? 'HogQL' : 'events'} API at ${host}` +
+      `${settings.after ? ` after ${settings.after}` : ''}${settings.before ? ` before ${settings.before}` : ''}`
+    );
     
-    const response: AxiosResponse = await axios.get(`${host}/api/event/`, {
-      headers: {
-        'Authorization': `Bearer ${apiKey}`
-      },
-      params: {
-        limit: maxEvents,
-        event_names: JSON.stringify(eventNames),
-      }
-    });
+    const events = source === 'hogql'
+      ? await fetchEventsWithHogQL(settings)
+      : await fetchEventsFromEventsApi(settings);
     
-    if (response.data && Array.isArray(response.data.results)) {
-      const events = response.data.results as PostHogEvent[];
-      logger.info(`Successfully fetched ${events.length} events from PostHog`);
-      return events;
+    return events
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+      .slice(0, maxEvents);
+  } catch (error) {
+    logPostHogError('Error fetching PostHog events', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch events through the legacy `/api/event/` endpoint, oldest first, following its `next` links
+ * @param settings Resolved connection and range settings
+ * @returns Fetched events, unsorted
+ */
+async function fetchEventsFromEventsApi(settings: ResolvedFetchSettings): Promise<PostHogEvent[]> {
+  const headers = { 'Authorization': `Bearer ${settings.apiKey}` };
+  const eventsById = new Map<string, PostHogEvent>();
+  let pageCount = 0;
+  
+  let response: AxiosResponse = await axios.get(`${settings.host}/api/event/`, {
+    headers,
+    params: {
+      limit: settings.pageSize,
+      orderBy: JSON.stringify(['timestamp']),
+      event_names: JSON.stringify(settings.eventNames),
+      after: settings.after,
+      before: settings.before
+    }
+  });
+  
+  while (true) {
+    if (!response.data || !Array.isArray(response.data.results)) {
+      logger.warn('No events found in the PostHog API response or unexpected response format');
+      break;
     }
     
-    logger.warn('No events found in the PostHog API response or unexpected response format');
-    return [];
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      logger.error(
-        `Error fetching PostHog events: ${axiosError.message}`, 
-        axiosError.response?.data || axiosError
-      );
-    } else {
-      logger.error('Error fetching PostHog events:', error);
+    pageCount++;
+    for (const event of response.data.results as PostHogEvent[]) {
+      eventsById.set(event.id, event);
     }
-    throw error;
+    
+    const nextUrl: string | null | undefined = response.data.next;
+    if (!nextUrl || eventsById.size >= settings.maxEvents) {
+      if (nextUrl || eventsById.size > settings.maxEvents) {
+        logger.warn(`Reached the cap of ${settings.maxEvents} events; newer events in the time range are left for the next run`);
+        return keepOldestEvents(Array.from(eventsById.values()), settings.maxEvents);
+      }
+      break;
+    }
+    
+    // The next link already carries the filters and pagination cursor
+    response = await axios.get(nextUrl, { headers });
   }
+  
+  logger.info(`Successfully fetched ${eventsById.size} events from PostHog across ${pageCount} page(s)`);
+  return Array.from(eventsById.values());
 }
 
 /**
- * Groups events by user session to provide context for analysis
+ * Keep the oldest events that fit in the cap
  * 
- * A session is defined as a series of events from the same user within 30 minutes
- * of each other. This helps identify problems within a single user journey.
+ * The events API only filters by timestamp, so events that share a timestamp with
+ * the last one kept are dropped too; otherwise the next run, which starts after
+ * that timestamp, would never fetch the ones cut off by the cap.
  * 
- * @param events - Array of PostHog events to group
- * @returns Object mapping session IDs to arrays of events within that session
+ * @param events Fetched events, more than the cap
+ * @param maxEvents Hard cap on the number of events
+ * @returns The oldest events, sorted by timestamp
  */
-export function groupEventsBySession(events: PostHogEvent[]): Record<string, PostHogEvent[]> {
-  if (!events || events.length === 0) {
-    logger.warn('No events provided for session grouping');
-    return {};
+function keepOldestEvents(events: PostHogEvent[], maxEvents: number): PostHogEvent[] {
+  const sorted = events.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const kept = sorted.slice(0, maxEvents);
+  const boundary = new Date(sorted[maxEvents].timestamp).getTime();
+  const beforeBoundary = kept.filter(event => new Date(event.timestamp).getTime() < boundary);
+  
+  // A single timestamp with more events than the cap can only be taken whole
+  return beforeBoundary.length > 0 ? beforeBoundary : kept;
+}
+
+/**
+ * Fetch events with HogQL queries through `/api/projects/:id/query`, oldest first
+ * 
+ * Pages are read with a keyset on `(timestamp, uuid)` rather than an offset, so
+ * events that arrive while paging do not shift the pages. Events are deduplicated
+ * by `uuid` all the same.
+ * 
+ * @param settings Resolved connection and range settings
+ * @returns Fetched events, in query order
+ */
+async function fetchEventsWithHogQL(settings: ResolvedFetchSettings): Promise<PostHogEvent[]> {
+  const projectId = requireProjectId();
+  const eventsById = new Map<string, PostHogEvent>();
+  let keyset = settings.after ? { timestamp: settings.after, uuid: settings.afterId } : undefined;
+  
+  while (eventsById.size < settings.maxEvents) {
+    const conditions = ['event IN {eventNames}'];
+    if (keyset?.uuid) {
+      conditions.push('(timestamp > toDateTime({afterTimestamp}) OR (timestamp = toDateTime({afterTimestamp}) AND uuid > toUUID({afterUuid})))');
+    } else if (keyset) {
+      conditions.push('timestamp > toDateTime({afterTimestamp})');
+    }
+    if (settings.before) conditions.push('timestamp < toDateTime({before})');
+    
+    const limit = Math.min(settings.pageSize, settings.maxEvents - eventsById.size);
+    const response: AxiosResponse = await axios.post(
+      `${settings.host}/api/projects/${projectId}/query`,
+      {
+        query: {
+          kind: 'HogQLQuery',
+          query: `SELECT uuid, event, distinct_id, properties, timestamp, elements_chain FROM events ` +
+            `WHERE ${conditions.join(' AND ')} ORDER BY timestamp ASC, uuid ASC LIMIT ${limit}`,
+          values: {
+            eventNames: settings.eventNames,
+            afterTimestamp: keyset?.timestamp,
+            afterUuid: keyset?.uuid,
+            before: settings.before
+          }
+        }
+      },
+      { headers: { 'Authorization': `Bearer ${settings.apiKey}` } }
+    );
+    
+    const { results, columns } = response.data || {};
+    if (!Array.isArray(results) || !Array.isArray(columns)) {
+      logger.warn('Unexpected response format from the PostHog HogQL API');
+      break;
+    }
+    
+    const countBefore = eventsById.size;
+    for (const row of results as any[][]) {
+      const event = hogQLRowToEvent(columns, row);
+      eventsById.set(event.id, event);
+    }
+    
+    const hasMore = response.data.hasMore ?? results.length === limit;
+    if (!hasMore || eventsById.size === countBefore) {
+      break;
+    }
+    
+    const last = hogQLRowToEvent(columns, results[results.length - 1]);
+    keyset = { timestamp: last.timestamp, uuid: last.id };
   }
   
-  const sessions: Record<string, PostHogEvent[]> = {};
+  if (eventsById.size >= settings.maxEvents) {
+    logger.warn(`Reached the cap of ${settings.maxEvents} events; newer events in the time range are left for the next run`);
+  }
   
-  // Sort events by timestamp
-  const sortedEvents = [...events].sort((a, b) => 
-    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-  );
+  logger.info(`Successfully fetched ${eventsById.size} events from PostHog via HogQL`);
+  return Array.from(eventsById.values()).slice(0, settings.maxEvents);
+}
+
+/**
+ * Convert a HogQL result row into the event shape returned by the events API
+ * @param columns Column names of the query result
+ * @param row Row values in column order
+ * @returns PostHog event
+ */
+function hogQLRowToEvent(columns: string[], row: any[]): PostHogEvent {
+  const record: Record<string, any> = {};
+  columns.forEach((column, index) => {
+    record[column] = row[index];
+  });
   
-  logger.info(`Grouping ${events.length} events into sessions`);
+  let properties = record.properties;
+  if (typeof properties === 'string') {
+    try {
+      properties = JSON.parse(properties);
+    } catch {
+      properties = {};
+    }
+  }
   
-  // Group by distinct_id (user) and session timeframe
-  for (const event of sortedEvents) {
-    const userId = event.distinct_id;
-    const eventTime = new Date(event.timestamp).getTime();
-    let sessionFound = false;
+  return {
+    id: String(record.uuid),
+    event: record.event,
+    distinct_id: String(record.distinct_id),
+    properties: properties || {},
+    // ISO strings are kept with their microseconds, so a cursor at this event resumes exactly after it
+    timestamp: typeof record.timestamp === 'string' && record.timestamp.includes('T')
+      ? record.timestamp
+      : new Date(record.timestamp).toISOString(),
+    elements_chain: record.elements_chain || undefined
+  };
+}
+
+/**
+ * Load PostHog events from a JSON export instead of the API
+ *
+ * Accepts either an array of events or an API response with a `results` array,
+ * so saved `/api/event/` pages can be replayed offline.
+ *
+ * @param filePath - Path of the JSON export
+ * @param options - Optional time range; other fetch options are ignored
+ * @returns Array of PostHog events sorted by timestamp
+ * @throws Error if the file cannot be read or contains no event list
+ */
+export function loadPostHogEventsFile(
+  filePath: string,
+  options?: Pick<PostHogFetchOptions, 'after' | 'before'>
+): PostHogEvent[] {
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const events: PostHogEvent[] | undefined = Array.isArray(data) ? data : data?.results;
+  
+  if (!Array.isArray(events)) {
+    throw new Error(`No PostHog events found in ${filePath}; expected an array or an object with a "results" array`);
+  }
+  
+  const after = toIsoTimestamp(options?.after);
+  const before = toIsoTimestamp(options?.before);
+  
+  return events
+    .filter(event => {
+      const timestamp = new Date(event.timestamp).getTime();
+      return (!after || timestamp > new Date(after).getTime()) &&
+        (!before || timestamp < new Date(before).getTime());
+    })
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+/**
+ * Pick the PostHog session IDs whose recordings are worth downloading
+ * 
+ * Sessions with a `$session_id` are ranked by rage clicks and activity; sessions
+ * with a rage click or enough interactions are considered interesting.
+ * 
+ * @param events - PostHog events to inspect
+ * @param maxSessions - Maximum number of session IDs to return
+ * @returns `$session_id` values of the most interesting sessions
+ */
+export function selectInterestingSessionIds(
+  events: PostHogEvent[],
+  maxSessions: number = getConfig().posthog.maxRecordings
+): string[] {
+  const { interestingSessionMinEvents, rageclickSessionWeight } = getConfig().posthog;
+  // Sessions grouped by inactivity have no recording to download
+  return buildSessions(events)
+    .filter(session => session.grouping === 'id')
+    .map(session => {
+      const rageClicks = session.events.filter(e => e.event === UXRelevantEvents.RAGECLICK).length;
+      return {
+        session,
+        rageClicks,
+        score: rageClicks * rageclickSessionWeight + session.events.length
+      };
+    })
+    .filter(({ session, rageClicks }) => rageClicks > 0 || session.events.length >= interestingSessionMinEvents)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxSessions)
+    .map(({ session }) => session.id);
+}
+
+/**
+ * Parse a snapshot blob into `[windowId, rrwebEvent]` pairs
+ * 
+ * Blobs are newline-delimited JSON; each line is either `{ window_id, data: [...] }`
+ * or a `[windowId, event]` tuple depending on the storage version.
+ * 
+ * @param body Raw response body
+ * @returns Window ID and event pairs
+ */
+export function parseSnapshotLines(body: unknown): [string, any][] {
+  const lines = typeof body === 'string' ? body.split('\n') : [JSON.stringify(body)];
+  const snapshots: [string, any][] = [];
+  
+  for (const line of lines) {
+    if (!line.trim()) continue;
     
-    // Check if this event belongs to an existing session
-    for (const sessionId in sessions) {
-      if (sessionId.startsWith(userId)) {
-        const sessionEvents = sessions[sessionId];
-        const lastEventTime = new Date(sessionEvents[sessionEvents.length - 1].timestamp).getTime();
-        
-        if (eventTime - lastEventTime < SESSION_TIMEOUT_MS) {
-          sessions[sessionId].push(event);
-          sessionFound = true;
-          break;
+    try {
+      const parsed = JSON.parse(line);
+      if (Array.isArray(parsed) && parsed.length === 2 && typeof parsed[0] === 'string') {
+        snapshots.push([parsed[0], parsed[1]]);
+      } else if (parsed && Array.isArray(parsed.data)) {
+        for (const event of parsed.data) {
+          snapshots.push([parsed.window_id || 'default', event]);
         }
       }
+    } catch {
+      logger.warn('Skipping malformed snapshot line');
     }
+  }
+  
+  return snapshots;
+}
+
+/**
+ * Turn snapshots into a session in RRweb export shape, one record per browser window
+ * @param sessionId Recorded session
+ * @param snapshots Window ID and event pairs, as returned by parseSnapshotLines
+ * @param distinctId Distinct ID of the recorded user
+ * @returns The session, with the windows in the order they first appear
+ */
+export function groupSnapshotsByWindow(
+  sessionId: string,
+  snapshots: Iterable<[string, any]>,
+  distinctId?: string
+): PostHogRecordingExport['sessions'][number] {
+  const eventsByWindow = new Map<string, any[]>();
+  
+  for (const [windowId, event] of snapshots) {
+    if (!eventsByWindow.has(windowId)) {
+      eventsByWindow.set(windowId, []);
+    }
+    eventsByWindow.get(windowId)!.push(event);
+  }
+  
+  return {
+    sessionId,
+    records: Array.from(eventsByWindow.entries()).map(([windowId, events]) => ({
+      id: windowId,
+      user_id: distinctId,
+      session_id: sessionId,
+      events
+    }))
+  };
+}
+
+/**
+ * Download the recording of a single session from PostHog
+ * @param host PostHog host
+ * @param projectId PostHog project ID
+ * @param headers Authorization headers
+ * @param sessionId Session to download
+ * @returns The session in RRweb export shape
+ */
+async function fetchSessionRecording(
+  host: string,
+  projectId: string,
+  headers: Record<string, string>,
+  sessionId: string
+): Promise<PostHogRecordingExport['sessions'][number]> {
+  const recordingUrl = `${host}/api/projects/${projectId}/session_recordings/${sessionId}`;
+  
+  const [metadataResponse, sourcesResponse] = await Promise.all([
+    axios.get(recordingUrl, { headers }),
+    axios.get(`${recordingUrl}/snapshots`, { headers })
+  ]);
+  
+  const distinctId: string | undefined = metadataResponse.data?.distinct_id || metadataResponse.data?.person?.distinct_ids?.[0];
+  const sources: any[] = sourcesResponse.data?.sources || [];
+  const snapshots: [string, any][] = [];
+  
+  for (const source of sources) {
+    const params: Record<string, string> = { source: source.source };
+    if (source.blob_key) params.blob_key = source.blob_key;
+    if (source.start_blob_key) params.start_blob_key = source.start_blob_key;
+    if (source.end_blob_key) params.end_blob_key = source.end_blob_key;
+    
+    const response = await axios.get(`${recordingUrl}/snapshots`, {
+      headers,
+      params,
+      responseType: 'text',
+      transformResponse: [(data: unknown) => data]
+    });
     
-    // Create a new session if needed
-    if (!sessionFound) {
-      const sessionId = `${userId}_${eventTime}`;
-      sessions[sessionId] = [event];
+    for (const snapshot of parseSnapshotLines(response.data)) {
+      snapshots.push(snapshot);
+    }
+  }
+  
+  return groupSnapshotsByWindow(sessionId, snapshots, distinctId);
+}
+
+/**
+ * Download session recording snapshots from PostHog
+ * 
+ * Sessions that fail to download are logged and skipped.
+ * 
+ * @param sessionIds - PostHog `$session_id` values to download
+ * @returns Recordings in the same shape as a manual RRweb export
+ * @throws Error if the API key or project ID is missing
+ */
+export async function fetchSessionRecordings(sessionIds: string[]): Promise<PostHogRecordingExport> {
+  const apiKey = process.env.POSTHOG_API_KEY;
+  const host = getConfig().posthog.host;
+  
+  if (!apiKey) {
+    logger.error('PostHog API key is not configured in .env file');
+    throw new Error('PostHog API key is not configured in .env file');
+  }
+  
+  const projectId = requireProjectId();
+  const headers = { 'Authorization': `Bearer ${apiKey}` };
+  const recordingExport: PostHogRecordingExport = { sessions: [] };
+  
+  logger.info(`Downloading ${sessionIds.length} session recording(s) from PostHog`);
+  
+  for (const sessionId of sessionIds) {
+    try {
+      const session = await fetchSessionRecording(host, projectId, headers, sessionId);
+      
+      if (session.records.length === 0) {
+        logger.warn(`No snapshots found for session recording ${sessionId}`);
+        continue;
+      }
+      
+      recordingExport.sessions.push(session);
+    } catch (error) {
+      logPostHogError(`Error downloading session recording ${sessionId}`, error);
     }
   }
   
-  logger.info(`Created ${Object.keys(sessions).length} distinct user sessions`);
-  return sessions;
+  logger.info(`Downloaded ${recordingExport.sessions.length} session recording(s) from PostHog`);
+  return recordingExport;
 }
 
 /**
@@ -220,8 +778,7 @@ export async function analyzeUserBehavior(events: PostHogEvent[]): Promise<PostH
   
   logger.info(`Processing ${events.length} events for UX analysis`);
   
-  // In the future, this function could be expanded to preprocess events
-  // before sending them to OpenAI, or to implement local analysis logic
+  // Local analysis without an LLM is done by the rules in rules.ts
   
   return events;
 } 
\ No newline at end of file
@@ -0,0 +1,290 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { pipeline } from 'stream';
+import { groupSnapshotsByWindow, parseSnapshotLines } from './posthog';
+import { RRwebEvent, RRwebExportSession } from './rrweb';
+import { streamJsonArray, streamJsonLines } from './jsonStream';
+
+// Constants
+const GZIP_MAGIC_BYTES = [0x1f, 0x8b];
+const NDJSON_EXTENSIONS = ['.ndjson', '.jsonl'];
+const HEAD_LENGTH = 4096;
+
+// Create a simple logger
+const logger = {
+  info: (message: string) => console.error(`[INFO] ${message}`),
+  warn: (message: string) => console.warn(`[WARN] ${message}`),
+  error: (message: string, error?: unknown) => {
+    console.error(`[ERROR] ${message}`);
+    if (error) {
+      if (error instanceof Error) {
+        console.error(`       ${error.message}`);
+      } else {
+        console.error(`       ${String(error)}`);
+      }
+    }
+  }
+};
+
+/**
+ * A recording file or directory, as adapters see it when detecting its format
+ */
+export interface RecordingFile {
+  /** Path of the file or directory */
+  path: string;
+  /** Whether the path is a directory */
+  isDirectory: boolean;
+  /** First characters of the file, decompressed; empty for directories */
+  head: string;
+}
+
+/**
+ * Reads one recording format into sessions in RRweb export shape
+ */
+export interface RecordingAdapter {
+  /** Format name, used in logs */
+  name: string;
+  /**
+   * Check whether a file is in this format
+   * @param file Path and first characters of the file
+   */
+  detect(file: RecordingFile): boolean;
+  /**
+   * Read the sessions of a file, one at a time
+   * @param file File detected as this format
+   * @returns Sessions with their records; reading fails with an Error on malformed content
+   */
+  read(file: RecordingFile): AsyncIterable<RRwebExportSession>;
+}
+
+/**
+ * Open a recording file as text, decompressing it when it is gzipped
+ * @param filePath Path to the file
+ * @returns Text of the file, in chunks
+ */
+function openRecordingText(filePath: string): AsyncIterable<string> {
+  const header = Buffer.alloc(GZIP_MAGIC_BYTES.length);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    fs.readSync(fd, header, 0, header.length, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+  
+  const file = fs.createReadStream(filePath);
+  if (!GZIP_MAGIC_BYTES.every((byte, i) => header[i] === byte)) {
+    return file.setEncoding('utf8');
+  }
+  
+  // pipeline destroys both streams and surfaces the error when either fails
+  const gunzip = zlib.createGunzip();
+  pipeline(file, gunzip, () => {});
+  return gunzip.setEncoding('utf8');
+}
+
+/**
+ * Read a whole recording file as text, for formats that hold a single session
+ * @param filePath Path to the file
+ * @returns Decompressed text
+ */
+async function readRecordingText(filePath: string): Promise<string> {
+  const chunks: string[] = [];
+  for await (const chunk of openRecordingText(filePath)) {
+    chunks.push(chunk);
+  }
+  return chunks.join('');
+}
+
+/**
+ * Get the name of a recording file without its extensions
+ * @param filePath Path to the file
+ * @returns File name without `.gz` and the format extension, used as the session ID of single-session formats
+ */
+function getRecordingName(filePath: string): string {
+  const fileName = path.basename(filePath).replace(/\.gz$/i, '');
+  return fileName.slice(0, fileName.length - path.extname(fileName).length) || fileName;
+}
+
+/**
+ * Check whether a file has a newline-delimited JSON extension, before any `.gz`
+ * @param filePath Path to the file
+ * @returns True for .ndjson and .jsonl files
+ */
+function isNdjsonFile(filePath: string): boolean {
+  return NDJSON_EXTENSIONS.includes(path.extname(filePath.replace(/\.gz$/i, '')).toLowerCase());
+}
+
+/**
+ * Wrap the events of a single-session file as a session with one record
+ * @param file Recording file, named after the session
+ * @param events Events in the order they were recorded
+ * @returns The session
+ */
+function toSingleRecordSession(file: RecordingFile, events: RRwebEvent[]): RRwebExportSession {
+  const sessionId = getRecordingName(file.path);
+  return { sessionId, records: [{ id: sessionId, session_id: sessionId, events }] };
+}
+
+/**
+ * Export with a `sessions` array, the format of `RRweb data.json`
+ */
+const RRwebExportAdapter: RecordingAdapter = {
+  name: 'rrweb export',
+  detect: file => /^\s*\{/.test(file.head),
+  async *read(file) {
+    yield* streamJsonArray(openRecordingText(file.path), 'sessions') as AsyncIterable<RRwebExportSession>;
+  }
+};
+
+/**
+ * Newline-delimited sessions, each line in the shape of an entry of `sessions`
+ */
+const RRwebSessionLinesAdapter: RecordingAdapter = {
+  name: 'rrweb session NDJSON',
+  detect: file => isNdjsonFile(file.path),
+  async *read(file) {
+    yield* streamJsonLines(openRecordingText(file.path)) as AsyncIterable<RRwebExportSession>;
+  }
+};
+
+/**
+ * Newline-delimited rrweb events of one session, as written by a recorder that appends each event
+ */
+const RRwebEventLinesAdapter: RecordingAdapter = {
+  name: 'rrweb event NDJSON',
+  detect: file => isNdjsonFile(file.path) && /^\s*\{\s*"(type|data|timestamp|delay)"\s*:/.test(file.head),
+  async *read(file) {
+    const events: RRwebEvent[] = [];
+    for await (const event of streamJsonLines(openRecordingText(file.path))) {
+      events.push(event as RRwebEvent);
+    }
+    yield toSingleRecordSession(file, events);
+  }
+};
+
+/**
+ * JSON array of the rrweb events of one session, as returned by `rrweb.record`
+ */
+const RRwebEventArrayAdapter: RecordingAdapter = {
+  name: 'rrweb event array',
+  detect: file => /^\s*\[/.test(file.head),
+  async *read(file) {
+    const events: RRwebEvent[] = [];
+    for await (const event of streamJsonArray(openRecordingText(file.path))) {
+      events.push(event as RRwebEvent);
+    }
+    yield toSingleRecordSession(file, events);
+  }
+};
+
+/**
+ * Recording exported from the PostHog replay UI: `{ version, data: { id, person, snapshots } }`
+ *
+ * Older exports keep the events in `snapshotsByWindowId` instead of `snapshots`.
+ */
+const PostHogExportAdapter: RecordingAdapter = {
+  name: 'PostHog recording export',
+  detect: file => /^\s*\{/.test(file.head) && /"version"\s*:/.test(file.head) && /"data"\s*:\s*\{/.test(file.head),
+  async *read(file) {
+    const data = JSON.parse(await readRecordingText(file.path))?.data;
+    if (!data || (!Array.isArray(data.snapshots) && typeof data.snapshotsByWindowId !== 'object')) {
+      throw new Error('PostHog recording export has no snapshots');
+    }
+    
+    const snapshots: [string, any][] = Array.isArray(data.snapshots)
+      ? data.snapshots.map((snapshot: any) => [snapshot.windowId || snapshot.window_id || 'default', snapshot])
+      : Object.entries(data.snapshotsByWindowId as Record<string, any[]>)
+        .flatMap(([windowId, events]) => events.map(event => [windowId, event] as [string, any]));
+    const distinctId: string | undefined = data.person?.distinct_ids?.[0] || data.person?.distinct_id || data.distinct_id;
+    
+    yield groupSnapshotsByWindow(data.id || getRecordingName(file.path), snapshots, distinctId);
+  }
+};
+
+/**
+ * Snapshot blob downloaded from the PostHog API, one `{ window_id, data }` object or
+ * `[windowId, event]` tuple per line; the session ID is taken from the file name
+ */
+const PostHogSnapshotsAdapter: RecordingAdapter = {
+  name: 'PostHog snapshots',
+  detect: file => /^\s*(\{\s*"window_id"\s*:|\[\s*"[^"]*"\s*,)/.test(file.head),
+  async *read(file) {
+    yield groupSnapshotsByWindow(getRecordingName(file.path), parseSnapshotLines(await readRecordingText(file.path)));
+  }
+};
+
+/**
+ * Directory with one recording file per session, in any of the other formats
+ *
+ * Hidden files and subdirectories are skipped, as are files in no known format.
+ */
+const RecordingDirectoryAdapter: RecordingAdapter = {
+  name: 'recording directory',
+  detect: file => file.isDirectory,
+  async *read(file) {
+    const fileNames = fs.readdirSync(file.path).filter(fileName => !fileName.startsWith('.')).sort();
+    
+    for (const fileName of fileNames) {
+      const sessionFile = await inspectRecordingFile(path.join(file.path, fileName));
+      if (sessionFile.isDirectory) continue;
+      
+      const adapter = FILE_ADAPTERS.find(candidate => candidate.detect(sessionFile));
+      if (!adapter) {
+        logger.warn(`Skipping ${sessionFile.path}, not a known recording format`);
+        continue;
+      }
+      yield* adapter.read(sessionFile);
+    }
+  }
+};
+
+// Adapters for single files, most specific first; the rrweb export is the fallback for JSON objects
+const FILE_ADAPTERS: RecordingAdapter[] = [
+  PostHogSnapshotsAdapter,
+  RRwebEventLinesAdapter,
+  RRwebSessionLinesAdapter,
+  RRwebEventArrayAdapter,
+  PostHogExportAdapter,
+  RRwebExportAdapter
+];
+
+/**
+ * All recording adapters, in detection order
+ */
+export const RECORDING_ADAPTERS: RecordingAdapter[] = [RecordingDirectoryAdapter, ...FILE_ADAPTERS];
+
+/**
+ * Look at a recording path before reading it
+ * @param filePath Path to a recording file or directory
+ * @returns The path, whether it is a directory and the first characters of a file
+ */
+export async function inspectRecordingFile(filePath: string): Promise<RecordingFile> {
+  if (fs.statSync(filePath).isDirectory()) {
+    return { path: filePath, isDirectory: true, head: '' };
+  }
+  
+  // Leaving the loop early closes the file
+  let head = '';
+  for await (const chunk of openRecordingText(filePath)) {
+    head += chunk;
+    if (head.length >= HEAD_LENGTH) break;
+  }
+  
+  return { path: filePath, isDirectory: false, head: head.slice(0, HEAD_LENGTH) };
+}
+
+/**
+ * Find the adapter for a recording
+ * @param file Recording file, as returned by inspectRecordingFile
+ * @param adapters Adapters to try, in order
+ * @returns The first adapter that detects the format
+ * @throws Error when no adapter does
+ */
+export function detectRecordingAdapter(file: RecordingFile, adapters: RecordingAdapter[] = RECORDING_ADAPTERS): RecordingAdapter {
+  const adapter = adapters.find(candidate => candidate.detect(file));
+  if (!adapter) {
+    throw new Error(`Unrecognized recording format: ${file.path} (known formats: ${adapters.map(candidate => candidate.name).join(', ')})`);
+  }
+  return adapter;
+}
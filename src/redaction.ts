@@ -0,0 +1,380 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { IssueSpotterConfig, getConfig } from './config';
+import { LlmMessage } from './llm';
+import { ProcessedRRwebEvent } from './rrweb';
+
+// Constants
+const INPUT_MASK_CHARACTER = '*';
+const SCREENSHOT_BLUR = 'blur(8px)';
+
+// Create a simple logger
+const logger = {
+  info: (message: string) => console.error(`[INFO] ${message}`),
+  warn: (message: string) => console.warn(`[WARN] ${message}`),
+  error: (message: string, error?: unknown) => {
+    console.error(`[ERROR] ${message}`);
+    if (error) {
+      if (error instanceof Error) {
+        console.error(`       ${error.message}`);
+      } else {
+        console.error(`       ${String(error)}`);
+      }
+    }
+  }
+};
+
+/**
+ * Redaction settings from the configuration
+ */
+export type RedactionOptions = IssueSpotterConfig['redaction'];
+
+/**
+ * Kinds of personal data found in free text
+ */
+export type PiiKind = keyof RedactionOptions['patterns'];
+
+/**
+ * Element an input value was typed into
+ */
+type InputElement = ProcessedRRwebEvent['element'];
+
+/**
+ * Number of values redacted by one rule
+ */
+export interface RedactionAuditEntry {
+  /** What was redacted: a kind of personal data, an input value or a screenshot region */
+  kind: PiiKind | 'input' | 'screenshot';
+  /** Rule that matched, e.g. `pattern`, `type=password` or `selector .rr-mask` */
+  rule: string;
+  /** Values or regions redacted */
+  count: number;
+}
+
+/**
+ * What was redacted from the data sent to one destination; values are never included
+ */
+export interface RedactionReport {
+  /** Where the data was sent, e.g. `LLM request` */
+  destination: string;
+  /** ISO timestamp of when the report was made */
+  createdAt: string;
+  /** Sum of the counts of all entries */
+  total: number;
+  /** Counts by kind and rule */
+  entries: RedactionAuditEntry[];
+}
+
+/**
+ * Masks personal data on its way to one destination and keeps count of what it masked
+ */
+export interface Redactor {
+  /**
+   * Mask the personal data in a text
+   * @param text Text to redact
+   * @returns The text with each match replaced by `[REDACTED:<kind>]`
+   */
+  redactText(text: string): string;
+  /**
+   * Mask the personal data in every string of a JSON-like value
+   * @param value Value to redact; it is not modified
+   * @returns A redacted copy
+   */
+  redactValue<T>(value: T): T;
+  /**
+   * Mask the personal data in the text of LLM messages; images are left as they are
+   * @param messages Messages to redact
+   * @returns Redacted copies of the messages
+   */
+  redactMessages(messages: LlmMessage[]): LlmMessage[];
+  /**
+   * Count redactions made before the data reached this redactor, such as masked
+   * inputs and blurred screenshot regions
+   * @param kind What was redacted
+   * @param rule Rule that matched
+   * @param count Number of values or regions
+   */
+  record(kind: RedactionAuditEntry['kind'], rule: string, count: number): void;
+  /**
+   * Report what was redacted so far
+   * @returns The report
+   */
+  getReport(): RedactionReport;
+}
+
+/**
+ * A kind of personal data and how to find it in text
+ */
+interface PiiPattern {
+  kind: PiiKind;
+  /** Global expression matching candidates; a first capture group is kept in the output */
+  regex: RegExp;
+  /** Extra check on a candidate, for patterns that would otherwise match ordinary numbers */
+  accept?: (match: string) => boolean;
+}
+
+/**
+ * Check a card number candidate with the Luhn checksum
+ * @param match Digits, possibly separated by spaces or dashes
+ * @returns True when the checksum is valid
+ */
+function passesLuhnCheck(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  let sum = 0;
+  
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  
+  return sum % 10 === 0;
+}
+
+/**
+ * Check a phone number candidate
+ * @param match Digits in groups
+ * @returns True for 9 to 15 digits that do not start with a date
+ */
+function isPhoneNumber(match: string): boolean {
+  const digitCount = match.replace(/\D/g, '').length;
+  return digitCount >= 9 && digitCount <= 15 && !/^\d{4}-\d{2}-\d{2}/.test(match);
+}
+
+// Most specific first, so a token is not half-matched as an email or a card as a phone number
+const PII_PATTERNS: PiiPattern[] = [
+  // JSON web tokens and bearer credentials
+  { kind: 'token', regex: /\beyJ[\w-]{8,}\.[\w-]{8,}\.[\w-]{8,}/g },
+  { kind: 'token', regex: /\b(Bearer\s+)[\w~+/-][\w.~+/-]{14,}[\w~+/-]=*/gi },
+  // API keys with well-known prefixes
+  { kind: 'token', regex: /\b(?:[sprk]k_(?:live|test)_\w{10,}|phc_\w{20,}|gh[pousr]_\w{30,}|xox[abprs]-[\w-]{10,}|AKIA[0-9A-Z]{16})\b/g },
+  // Credentials in URL query strings; the parameter name is kept
+  { kind: 'token', regex: /([?&](?:access_token|token|api_key|apikey|key|secret|password|auth|code|signature|sig)=)[^&#\s"'\\]+/gi },
+  { kind: 'email', regex: /[\w.%+-]+@[A-Za-z\d-]+(?:\.[A-Za-z\d-]+)*\.[A-Za-z]{2,}/g },
+  // Numbers followed by a decimal fraction are measurements, not card or phone numbers
+  { kind: 'card', regex: /(?<![\w-])[2-6](?:[ -]?\d){12,18}(?![\w-]|\.\d)/g, accept: passesLuhnCheck },
+  { kind: 'phone', regex: /(?<![\w+])(?:\+\d{1,3}[ -]?)?(?:\(\d{1,4}\)[ -]?)?\d{2,4}(?:[ -]\d{2,4}){1,4}(?![\w-]|\.\d)|(?<![\w+])\+\d{9,14}(?![\w-]|\.\d)/g, accept: isPhoneNumber }
+];
+
+/**
+ * Check whether an element matches one compound selector such as `input.card[name^="cc-"]`
+ *
+ * Recorded elements carry no parents, so selectors with combinators or pseudo-classes
+ * never match here; screenshots apply them through CSS.
+ *
+ * @param element Recorded element
+ * @param selector Compound selector
+ * @returns True when every part of the selector matches
+ */
+function matchesCompoundSelector(element: NonNullable<InputElement>, selector: string): boolean {
+  const match = selector.match(/^([a-zA-Z][\w-]*|\*)?((?:#[\w-]+|\.[\w-]+|\[[^\]]+\])*)$/);
+  if (!match) {
+    return false;
+  }
+  
+  const [, tag, parts] = match;
+  if (tag && tag !== '*' && tag.toUpperCase() !== element.tag?.toUpperCase()) {
+    return false;
+  }
+  
+  const attribute = (name: string): string | undefined =>
+    element.attributes?.[name] ?? (name === 'id' ? element.id : name === 'class' ? element.className : undefined);
+  const classes = (element.className || '').split(/\s+/);
+  
+  const partPattern = /#([\w-]+)|\.([\w-]+)|\[\s*([\w-]+)\s*(?:([~^$*|]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]*))\s*)?\]/g;
+  for (const [, id, className, name, operator, ...quoted] of parts.matchAll(partPattern)) {
+    if (id !== undefined && element.id !== id) return false;
+    if (className !== undefined && !classes.includes(className)) return false;
+    if (name === undefined) continue;
+    
+    const actual = attribute(name);
+    const expected = quoted.find(value => value !== undefined) ?? '';
+    if (actual === undefined) return false;
+    
+    const matches =
+      !operator ? true :
+      operator === '=' ? actual === expected :
+      operator === '~=' ? actual.split(/\s+/).includes(expected) :
+      operator === '^=' ? actual.startsWith(expected) :
+      operator === '$=' ? actual.endsWith(expected) :
+      operator === '*=' ? actual.includes(expected) :
+      actual === expected || actual.startsWith(`${expected}-`);
+    if (!matches) return false;
+  }
+  
+  return true;
+}
+
+/**
+ * Get the input type of an element, the key it has in `maskInputOptions`
+ * @param element Recorded element
+ * @returns `textarea`, `select` or the type of an input, defaulting to `text`
+ */
+function getInputType(element: NonNullable<InputElement>): string | undefined {
+  const tag = element.tag?.toUpperCase();
+  if (tag === 'TEXTAREA') return 'textarea';
+  if (tag === 'SELECT') return 'select';
+  if (tag === 'INPUT') return (element.attributes?.type || 'text').toLowerCase();
+  return undefined;
+}
+
+/**
+ * Find the rule that requires the value of an input to be masked
+ *
+ * Like rrweb's `maskInputOptions`, inputs are masked by type; `maskInputSelectors`
+ * masks inputs matching a selector whatever their type.
+ *
+ * @param element Element the value was typed into, when recorded
+ * @param options Redaction settings
+ * @returns The matching rule, e.g. `type=password`, or undefined when the value may be kept
+ */
+export function getInputMaskRule(element: InputElement, options: RedactionOptions = getConfig().redaction): string | undefined {
+  if (!options.enabled || !element) {
+    return undefined;
+  }
+  
+  const inputType = getInputType(element);
+  if (inputType && (options.maskInputOptions as Record<string, boolean>)[inputType]) {
+    return `type=${inputType}`;
+  }
+  
+  const selector = options.maskInputSelectors.find(candidate =>
+    candidate.split(',').some(part => matchesCompoundSelector(element, part.trim()))
+  );
+  return selector ? `selector ${selector}` : undefined;
+}
+
+/**
+ * Mask an input value the way rrweb does, keeping only its length
+ * @param value Recorded value
+ * @returns One mask character per character of the value
+ */
+export function maskInputValue(value: string): string {
+  return INPUT_MASK_CHARACTER.repeat(value.length);
+}
+
+/**
+ * Get the CSS selectors of the inputs whose values are masked
+ * @param options Redaction settings
+ * @returns Selectors for the masked input types and the configured selectors
+ */
+export function getMaskedInputSelectors(options: RedactionOptions = getConfig().redaction): string[] {
+  if (!options.enabled) {
+    return [];
+  }
+  
+  const typeSelectors = Object.entries(options.maskInputOptions)
+    .filter(([, masked]) => masked)
+    .flatMap(([inputType]) =>
+      inputType === 'textarea' || inputType === 'select' ? [inputType] :
+      inputType === 'text' ? ['input[type="text" i]', 'input:not([type])'] :
+      [`input[type="${inputType}" i]`]
+    );
+  
+  return [...typeSelectors, ...options.maskInputSelectors];
+}
+
+/**
+ * Build the style rules that blur masked inputs in replayed sessions
+ *
+ * Each selector gets its own rule, so one the browser rejects does not disable the others.
+ *
+ * @param options Redaction settings
+ * @returns Rules for the replayer's `insertStyleRules`, empty when screenshots are not blurred
+ */
+export function getScreenshotMaskStyleRules(options: RedactionOptions = getConfig().redaction): string[] {
+  if (!options.blurScreenshots) {
+    return [];
+  }
+  return getMaskedInputSelectors(options).map(selector => `${selector} { filter: ${SCREENSHOT_BLUR} !important; }`);
+}
+
+/**
+ * Create a redactor for the data sent to one destination
+ * @param destination Where the data is sent, used in the audit report
+ * @param options Redaction settings
+ * @returns Redactor that leaves data untouched when redaction is disabled
+ */
+export function createRedactor(destination: string, options: RedactionOptions = getConfig().redaction): Redactor {
+  const counts = new Map<string, RedactionAuditEntry>();
+  const patterns = PII_PATTERNS.filter(pattern => options.patterns[pattern.kind]);
+  
+  const record = (kind: RedactionAuditEntry['kind'], rule: string, count: number) => {
+    if (count <= 0) return;
+    
+    const key = `${kind}|${rule}`;
+    const entry = counts.get(key) || { kind, rule, count: 0 };
+    entry.count += count;
+    counts.set(key, entry);
+  };
+  
+  const redactText = (text: string): string => {
+    if (!options.enabled) {
+      return text;
+    }
+    
+    return patterns.reduce((redacted, pattern) =>
+      redacted.replace(pattern.regex, (match: string, kept?: unknown) => {
+        if (pattern.accept && !pattern.accept(match)) {
+          return match;
+        }
+        record(pattern.kind, 'pattern', 1);
+        return `${typeof kept === 'string' ? kept : ''}[REDACTED:${pattern.kind}]`;
+      }),
+    text);
+  };
+  
+  const redactValue = <T>(value: T): T => {
+    if (typeof value === 'string') {
+      return redactText(value) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(redactValue) as T;
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactValue(item)])) as T;
+    }
+    return value;
+  };
+  
+  return {
+    redactText,
+    redactValue,
+    redactMessages: messages => messages.map(message => ({
+      ...message,
+      content: typeof message.content === 'string'
+        ? redactText(message.content)
+        : message.content.map(part => part.type === 'text' ? { ...part, text: redactText(part.text) } : part)
+    })),
+    record,
+    getReport: () => {
+      const entries = Array.from(counts.values()).map(entry => ({ ...entry }));
+      return {
+        destination,
+        createdAt: new Date().toISOString(),
+        total: entries.reduce((sum, entry) => sum + entry.count, 0),
+        entries
+      };
+    }
+  };
+}
+
+/**
+ * Append a redaction report to the audit file and log a summary
+ * @param report Report of one destination
+ * @param auditPath JSON-lines audit file
+ */
+export function saveRedactionReport(report: RedactionReport, auditPath: string = getConfig().redaction.auditPath): void {
+  try {
+    fs.mkdirSync(path.dirname(auditPath), { recursive: true });
+    fs.appendFileSync(auditPath, `${JSON.stringify(report)}\n`);
+  } catch (error) {
+    logger.error(`Failed to write the redaction audit to ${auditPath}`, error);
+  }
+  
+  const summary = report.entries.map(entry => `${entry.count} ${entry.kind} (${entry.rule})`).join(', ');
+  logger.info(`Redacted ${report.total} item(s) from the ${report.destination}${summary ? `: ${summary}` : ''}`);
+}
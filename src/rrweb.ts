@@ -1,14 +1,20 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { PostHogEvent } from './posthog';
+import { ISSUE_CATEGORIES, PostHogEvent } from './posthog';
+import { getConfig, DetectorThresholds } from './config';
+import { Detector, createDetectorRegistryFromConfig, runDetectors } from './detectors';
+import { detectRecordingAdapter, inspectRecordingFile } from './recordingAdapters';
+import { buildSessions, getSessionIdsByEvent } from './sessions';
+import { getInputMaskRule, maskInputValue } from './redaction';
 
-// Constants
-const EVENT_CONTEXT_WINDOW_SIZE = 5;
-const NEARBY_EVENT_WINDOW_MS = 30000; // 30 seconds
+// Custom event tags PostHog records for client-side navigations
+const CLIENT_NAVIGATION_TAGS = ['$pageview', '$url_changed'];
+// Sessions listed in the navigation timeline of the analysis prompt
+const MAX_TIMELINE_SESSIONS = 10;
 
 // Create a simple logger
 const logger = {
-  info: (message: string) => console.log(`[INFO] ${message}`),
+  info: (message: string) => console.error(`[INFO] ${message}`),
   warn: (message: string) => console.warn(`[WARN] ${message}`),
   error: (message: string, error?: unknown) => {
     console.error(`[ERROR] ${message}`);
@@ -52,6 +58,25 @@ enum IncrementalSnapshotType {
   Selection = 11
 }
 
+// Node type of elements in rrweb's serialized DOM
+const SERIALIZED_ELEMENT_NODE_TYPE = 2;
+
+/**
+ * A DOM node as rrweb serializes it in full snapshots and mutations
+ */
+interface SerializedNode {
+  type: number;
+  id: number;
+  tagName?: string;
+  attributes?: Record<string, string | number | boolean | null>;
+  childNodes?: SerializedNode[];
+}
+
+/**
+ * An element of the recorded page, looked up by the node ID that incremental events carry
+ */
+type RecordedElement = NonNullable<ProcessedRRwebEvent['element']>;
+
 /**
  * Enum for RRweb mouse interaction types
  */
@@ -71,7 +96,7 @@ enum MouseInteractionType {
 /**
  * Base interface for RRweb event
  */
-interface RRwebEvent {
+export interface RRwebEvent {
   type: RRwebEventType;
   timestamp: number; // Timestamp in ms
   data: any;
@@ -85,6 +110,14 @@ export interface ProcessedRRwebData {
   sessionId: string;
   /** Array of processed RRweb events */
   events: ProcessedRRwebEvent[];
+  /** Pages visited during the session, in order; the `pageIndex` of each event points into it */
+  pages: PageSegment[];
+  /**
+   * Original RRweb events in timestamp order, exactly as recorded.
+   * Processing drops payloads such as mutations and mouse positions, so
+   * replays must use this stream rather than rebuilding it from `events`.
+   */
+  rawEvents: RRwebEvent[];
   /** Metadata about the session */
   metadata: {
     /** Timestamp of the first event */
@@ -93,10 +126,14 @@ export interface ProcessedRRwebData {
     endTime: number;
     /** Session duration in milliseconds */
     duration: number;
-    /** URL of the page */
+    /** URL of the last page visited */
     url: string;
     /** User agent string */
     userAgent?: string;
+    /** Distinct ID of the recorded user, from the first record that has one */
+    userId?: string;
+    /** Input values masked during processing, by the rule that masked them */
+    maskedInputs?: Record<string, number>;
   };
 }
 
@@ -110,8 +147,10 @@ export interface ProcessedRRwebEvent {
   type: string;
   /** Additional details about the event */
   details: Record<string, any>;
-  /** URL of the page at the time of the event */
+  /** URL of the page at the time of the event, when the recording has one */
   url?: string;
+  /** Index of the page the event occurred on in the session's `pages` */
+  pageIndex: number;
   /** Information about the DOM element involved in the event */
   element?: {
     /** HTML tag name */
@@ -139,27 +178,251 @@ export interface ProcessedRRwebEvent {
 }
 
 /**
- * Interface for a key moment extracted from RRweb data
+ * A page visited during a session, from the page load or client-side navigation
+ * that opened it to the last event recorded on it
  */
-export interface RRwebKeyMoment {
-  /** Type of key moment (e.g., 'RageClick', 'FormAbandonment') */
-  type: string;
+export interface PageSegment {
+  /** Position of the page in the session's pages */
+  index: number;
+  /** URL of the page, empty when the recording does not say */
+  url: string;
+  /** `load` for a page load recorded by rrweb, `client` for a client-side route change */
+  entryType: 'load' | 'client';
+  /** Timestamp at which the page was entered */
+  entryTime: number;
+  /** Timestamp of the last event on the page */
+  exitTime: number;
+  /** Viewport size when the page was entered */
+  viewport?: { width: number; height: number };
+  /** Index in `rawEvents` of the FullSnapshot the page starts from; client-side navigations have none */
+  fullSnapshotIndex?: number;
+}
+
+/**
+ * Fields shared by every key moment
+ */
+interface KeyMomentBase {
   /** Timestamp of the key moment */
   timestamp: number;
   /** Session ID */
   sessionId: string;
-  /** URL where the key moment occurred */
+  /** URL where the key moment occurred, empty when unknown */
   url: string;
-  /** Description of the key moment */
+}
+
+/**
+ * Several rapid clicks in the same area
+ */
+export interface RageClickMoment extends KeyMomentBase {
+  type: 'RageClick';
+  /** Clicks in the burst */
+  clickCount: number;
+  /** Element clicked last */
+  element?: ProcessedRRwebEvent['element'];
+  /** Events around the last click */
+  context: ProcessedRRwebEvent[];
+}
+
+/**
+ * Click on an element that does not look interactive
+ */
+export interface DeadClickMoment extends KeyMomentBase {
+  type: 'DeadClick';
+  /** Element clicked */
+  element: NonNullable<ProcessedRRwebEvent['element']>;
+  /** Events around the click */
+  context: ProcessedRRwebEvent[];
+}
+
+/**
+ * Form inputs that were never submitted
+ */
+export interface FormAbandonmentMoment extends KeyMomentBase {
+  type: 'FormAbandonment';
+  /** Value of the form attribute of the fields */
+  formId: string;
+  /** Inputs recorded before the user left */
+  interactionCount: number;
+  /** Last value typed */
+  lastValue?: string;
+  /** Set to false when the session ended with the form still open */
+  formCompleted?: false;
+  /** Events around the navigation away, when the user navigated */
+  context?: ProcessedRRwebEvent[];
+}
+
+/**
+ * Repeated visits to the same page
+ */
+export interface NavigationLoopMoment extends KeyMomentBase {
+  type: 'NavigationLoop';
+  /** Visits within the window */
+  frequency: number;
+  /** Window the visits were counted in, in milliseconds */
+  timeWindow: number;
+}
+
+/**
+ * Many scroll events in a short time
+ */
+export interface RapidScrollingMoment extends KeyMomentBase {
+  type: 'RapidScrolling';
+  /** Scroll events within the window */
+  scrollCount: number;
+  /** Time from the first to the last scroll, in milliseconds */
+  duration: number;
+  /** Events around the last scroll */
+  context: ProcessedRRwebEvent[];
+}
+
+/**
+ * Cursor resting in a small area
+ */
+export interface MouseHoveringMoment extends KeyMomentBase {
+  type: 'MouseHovering';
+  /** Time the cursor stayed in the area, in milliseconds */
+  duration: number;
+  /** Last cursor position */
+  position: { x: number; y: number };
+  /** Events around the last movement */
+  context: ProcessedRRwebEvent[];
+}
+
+/**
+ * Long pause between two interactions
+ */
+export interface HesitationMoment extends KeyMomentBase {
+  type: 'Hesitation';
+  /** Length of the pause in milliseconds */
+  durationMs: number;
+  /** Interaction before the pause */
+  beforeEvent: ProcessedRRwebEvent;
+  /** Interaction after the pause */
+  afterEvent: ProcessedRRwebEvent;
+  /** Events around the pause */
+  context: ProcessedRRwebEvent[];
+}
+
+/**
+ * Submit control clicked several times in a row
+ */
+export interface MultipleSubmissionsMoment extends KeyMomentBase {
+  type: 'MultipleSubmissions';
+  /** Submit clicks within the window */
+  count: number;
+  /** Submit control clicked */
+  element: NonNullable<ProcessedRRwebEvent['element']>;
+  /** Events around the last click */
+  context: ProcessedRRwebEvent[];
+}
+
+/**
+ * Sideways scrolling on a small viewport
+ */
+export interface HorizontalScrollMobileMoment extends KeyMomentBase {
+  type: 'HorizontalScrollMobile';
+  /** Viewport size of the session */
+  viewport: { width: number; height: number };
+  /** Horizontal scroll offset in pixels */
+  scrollX: number;
+}
+
+/**
+ * JavaScript error raised during the session
+ */
+export interface JSErrorMoment extends KeyMomentBase {
+  type: 'JSError';
+  /** Error message */
+  error: string;
+}
+
+/**
+ * Session that ended quickly after few page views
+ */
+export interface ShortSessionMoment extends KeyMomentBase {
+  type: 'ShortSession';
+  /** Session duration in milliseconds */
+  durationMs: number;
+  /** Page views in the session */
+  pageCount: number;
+}
+
+/**
+ * Overall statistics of a session, reported for every session
+ */
+export interface SessionMetricsMoment extends KeyMomentBase {
+  type: 'SessionMetrics';
+  /** Session duration in milliseconds */
+  duration: number;
+  /** Clicks in the session */
+  clickCount: number;
+  /** Inputs in the session */
+  inputCount: number;
+  /** Page views in the session */
+  pageViewCount: number;
+  /** JavaScript errors in the session */
+  errorCount: number;
+}
+
+/**
+ * Key moment reported by a custom detector
+ */
+export interface CustomMoment extends KeyMomentBase {
+  type: 'Custom';
+  /** Name of the pattern, e.g. 'ModalReopened' */
+  name: string;
+  /** What the user did, shown to the LLM */
   description: string;
-  /** Element involved in the key moment */
+  /** Measurements of the pattern, e.g. { openCount: 3 } */
+  details?: Record<string, string | number | boolean>;
+  /** Element involved, if any */
   element?: ProcessedRRwebEvent['element'];
-  /** Context events around the key moment */
+  /** Events around the moment */
   context?: ProcessedRRwebEvent[];
-  /** Score indicating the significance of the moment */
-  score?: number;
 }
 
+/**
+ * Key moment extracted from RRweb data, one variant per built-in detector plus
+ * one for custom detectors
+ */
+export type KeyMoment =
+  | RageClickMoment
+  | DeadClickMoment
+  | FormAbandonmentMoment
+  | NavigationLoopMoment
+  | RapidScrollingMoment
+  | MouseHoveringMoment
+  | HesitationMoment
+  | MultipleSubmissionsMoment
+  | HorizontalScrollMobileMoment
+  | JSErrorMoment
+  | ShortSessionMoment
+  | SessionMetricsMoment
+  | CustomMoment;
+
+/**
+ * Type of a key moment (e.g., 'RageClick', 'FormAbandonment')
+ */
+export type KeyMomentType = KeyMoment['type'];
+
+/**
+ * PostHog event found near a key moment
+ */
+export type NearbyPostHogEvent = PostHogEvent & {
+  /** Event timestamp in milliseconds since epoch */
+  normalizedTimestamp: number;
+  /** Temporal proximity to the key moment, from 0 to 1 */
+  relevanceScore: number;
+};
+
+/**
+ * Key moment with the PostHog events that happened around it
+ */
+export type SyncedKeyMoment = KeyMoment & {
+  /** Nearby PostHog events, closest first */
+  nearbyPosthogEvents: NearbyPostHogEvent[];
+};
+
 // Event type mapping for easier reading
 const eventTypeMap: Record<number, string> = {
   [RRwebEventType.DomContentLoaded]: 'DomContentLoaded',
@@ -214,8 +477,34 @@ function safeJsonParse(jsonString: string): any | null {
   }
 }
 
+/**
+ * Raw RRweb export containing recorded sessions, as produced by a manual export
+ * or by downloading session recordings from PostHog
+ */
+export interface RRwebExport {
+  sessions: RRwebExportSession[];
+}
+
+/**
+ * A session in an RRweb export, also the shape of each line of an NDJSON export
+ */
+export interface RRwebExportSession {
+  /** Unique identifier for the session */
+  sessionId?: string;
+  /** Recordings that make up the session, e.g. one per browser window */
+  records?: {
+    id?: string;
+    user_id?: string;
+    session_id?: string;
+    events?: RRwebEvent[];
+  }[];
+}
+
 /**
  * Loads RRweb data from a file and processes it into a more useful format
+ *
+ * The whole file is read into memory; use streamRRwebData for large or compressed exports.
+ *
  * @param filePath Path to the RRweb data file
  * @returns Array of processed RRweb data objects
  */
@@ -237,8 +526,61 @@ export function loadRRwebData(filePath: string): ProcessedRRwebData[] {
       return [];
     }
     
+    return processRRwebExport(data);
+  } catch (error) {
+    logger.error('Error loading RRweb data:', error);
+    return [];
+  }
+}
+
+/**
+ * Stream the sessions of a recording file or directory one at a time
+ *
+ * The format is detected by the adapters in recordingAdapters.ts: RRweb exports,
+ * session or event NDJSON, raw event arrays, PostHog recording exports and snapshot
+ * blobs, or a directory with one such file per session. Gzipped files are detected
+ * by their content. Only the session being processed is held in memory, so exports
+ * far larger than the available memory can be analyzed.
+ *
+ * @param filePath Path to the recording file or directory
+ * @returns Processed sessions in file order; reading stops at the first error, which is logged
+ */
+export async function* streamRRwebData(filePath: string): AsyncGenerator<ProcessedRRwebData> {
+  logger.info(`Streaming RRweb data from ${filePath}`);
+  
+  if (!fs.existsSync(filePath)) {
+    logger.error(`File not found: ${filePath}`);
+    return;
+  }
+  
+  let count = 0;
+  
+  try {
+    const file = await inspectRecordingFile(filePath);
+    const adapter = detectRecordingAdapter(file);
+    logger.info(`Reading ${filePath} as ${adapter.name}`);
+    
+    for await (const session of adapter.read(file)) {
+      count++;
+      // Sessions without an ID get the same one each time the file is read
+      yield processRRwebSession(session, `${path.basename(filePath)}#${count}`);
+    }
+    
+    logger.info(`Streamed ${count} RRweb sessions from ${filePath}`);
+  } catch (error) {
+    logger.error(`Error streaming RRweb data after ${count} sessions:`, error);
+  }
+}
+
+/**
+ * Processes an RRweb export that is already in memory
+ * @param data Parsed RRweb export
+ * @returns Array of processed RRweb data objects
+ */
+export function processRRwebExport(data: RRwebExport): ProcessedRRwebData[] {
+  try {
     // Validate the data structure
-    if (!data.sessions || !Array.isArray(data.sessions)) {
+    if (!data || !data.sessions || !Array.isArray(data.sessions)) {
       logger.error('RRweb data does not have the expected format (no sessions array)');
       return [];
     }
@@ -246,73 +588,234 @@ export function loadRRwebData(filePath: string): ProcessedRRwebData[] {
     logger.info(`Found ${data.sessions.length} sessions in RRweb data`);
     
     // Process each session
-    const processedData: ProcessedRRwebData[] = data.sessions.map((session: any) => {
-      const sessionId = session.sessionId || `session_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-      
-      // Get all events from all records
-      let allEvents: RRwebEvent[] = [];
-      
-      if (session.records && Array.isArray(session.records)) {
-        session.records.forEach((record: any) => {
-          if (record.events && Array.isArray(record.events)) {
-            allEvents = allEvents.concat(record.events);
-          }
-        });
-      }
-      
-      // Sort events by timestamp
-      allEvents.sort((a, b) => a.timestamp - b.timestamp);
-      
-      // Get start and end times
-      const startTime = allEvents.length > 0 ? allEvents[0].timestamp : 0;
-      const endTime = allEvents.length > 0 ? allEvents[allEvents.length - 1].timestamp : 0;
-      
-      // Extract metadata from initial events
-      let url = '';
-      let userAgent = '';
-      
-      // Process all events to extract useful information
-      const processedEvents = allEvents.map(event => {
-        // Extract URLs and metadata when available
-        if (event.type === RRwebEventType.Meta) { // Meta event
-          if (event.data?.href) {
-            url = event.data.href;
-          }
-          if (event.data?.userAgent) {
-            userAgent = event.data.userAgent;
-          }
-        }
-        
-        return processRRwebEvent(event);
-      });
-      
-      return {
-        sessionId,
-        events: processedEvents,
-        metadata: {
-          startTime,
-          endTime,
-          duration: endTime - startTime,
-          url,
-          userAgent
-        }
-      };
-    });
+    const processedData = data.sessions.map(session => processRRwebSession(session));
     
     logger.info(`Successfully processed ${processedData.length} RRweb sessions`);
     return processedData;
   } catch (error) {
-    logger.error('Error loading RRweb data:', error);
+    logger.error('Error processing RRweb data:', error);
     return [];
   }
 }
 
+/**
+ * Process one session of an RRweb export
+ * @param session Session with its recordings
+ * @param fallbackSessionId ID to use when neither the session nor its records have one, a random one otherwise
+ * @returns Session with its events merged in timestamp order and metadata extracted
+ */
+export function processRRwebSession(session: RRwebExportSession, fallbackSessionId?: string): ProcessedRRwebData {
+  const records = Array.isArray(session.records) ? session.records : [];
+  const sessionId = session.sessionId || records.find(record => record.session_id)?.session_id || fallbackSessionId ||
+    `session_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  const userId = records.find(record => record.user_id)?.user_id;
+  
+  // Get all events from all records
+  let allEvents: RRwebEvent[] = [];
+  
+  records.forEach((record: any) => {
+    if (record.events && Array.isArray(record.events)) {
+      allEvents = allEvents.concat(record.events);
+    }
+  });
+  
+  // Sort events by timestamp
+  allEvents.sort((a, b) => a.timestamp - b.timestamp);
+  
+  // Get start and end times
+  const startTime = allEvents.length > 0 ? allEvents[0].timestamp : 0;
+  const endTime = allEvents.length > 0 ? allEvents[allEvents.length - 1].timestamp : 0;
+  
+  // Extract metadata from initial events
+  let userAgent = '';
+  const pages: PageSegment[] = [];
+  const maskedInputs: Record<string, number> = {};
+  
+  // Process all events to extract useful information
+  // Elements of the page, so input events, which only carry a node ID, can be matched to their field
+  const elements = new Map<number, RecordedElement>();
+  
+  const processedEvents = allEvents.map((event, i) => {
+    if (event.type === RRwebEventType.Meta && event.data?.userAgent) {
+      userAgent = event.data.userAgent;
+    }
+    
+    const page = trackPage(pages, event, i);
+    trackRecordedElements(elements, event);
+    const processed = processRRwebEvent(event, page.index, elements);
+    processed.url = processed.url || page.url || undefined;
+    if (processed.details.maskRule) {
+      maskedInputs[processed.details.maskRule] = (maskedInputs[processed.details.maskRule] || 0) + 1;
+    }
+    return processed;
+  });
+  
+  const url = pages.length > 0 ? pages[pages.length - 1].url : '';
+  
+  return {
+    sessionId,
+    events: processedEvents,
+    pages,
+    rawEvents: allEvents,
+    metadata: {
+      startTime,
+      endTime,
+      duration: endTime - startTime,
+      url,
+      userAgent,
+      userId,
+      ...(Object.keys(maskedInputs).length > 0 ? { maskedInputs } : {})
+    }
+  };
+}
+
+/**
+ * Get the URL a client-side navigation recorded by PostHog leads to
+ * @param event Raw RRweb event
+ * @returns The URL for `$pageview` and `$url_changed` custom events, undefined for other events
+ */
+function getClientNavigationHref(event: RRwebEvent): string | undefined {
+  if (event.type !== RRwebEventType.Custom || !CLIENT_NAVIGATION_TAGS.includes(event.data?.tag)) {
+    return undefined;
+  }
+  return event.data.payload?.href || undefined;
+}
+
+/**
+ * Add an event to the page it occurred on, starting a new page on page loads and
+ * client-side navigations to another URL
+ * 
+ * Events recorded before the first page load open a page without a URL, which
+ * the first page load then names.
+ * 
+ * @param pages Pages of the session so far, updated in place
+ * @param event Raw RRweb event, in timestamp order
+ * @param rawIndex Index of the event in the session's raw events
+ * @returns The page the event belongs to
+ */
+function trackPage(pages: PageSegment[], event: RRwebEvent, rawIndex: number): PageSegment {
+  let page: PageSegment | undefined = pages[pages.length - 1];
+  const loadHref: string | undefined = event.type === RRwebEventType.Meta ? event.data?.href : undefined;
+  const clientHref = getClientNavigationHref(event);
+  
+  if (page && page.url === '' && page.fullSnapshotIndex === undefined && (loadHref || clientHref)) {
+    // Name the page opened by events recorded before any page load
+    page.url = (loadHref || clientHref)!;
+    page.entryType = loadHref ? 'load' : 'client';
+  } else if (!page || loadHref || (clientHref && clientHref !== page.url)) {
+    page = {
+      index: pages.length,
+      url: loadHref || clientHref || '',
+      entryType: clientHref && !loadHref ? 'client' : 'load',
+      entryTime: event.timestamp,
+      exitTime: event.timestamp
+    };
+    pages.push(page);
+  }
+  
+  if (event.type === RRwebEventType.Meta && event.data?.width && event.data?.height) {
+    page.viewport = page.viewport || { width: event.data.width, height: event.data.height };
+  }
+  if (event.type === RRwebEventType.FullSnapshot && page.fullSnapshotIndex === undefined) {
+    page.fullSnapshotIndex = rawIndex;
+  }
+  page.exitTime = event.timestamp;
+  
+  return page;
+}
+
+/**
+ * Describe the pages of a session as a navigation timeline
+ * @param session Processed session
+ * @returns Pages with the time they were entered relative to the start, e.g. `/cart (0s) → /checkout (+12s)`
+ */
+export function describePageTimeline(session: ProcessedRRwebData): string {
+  return session.pages
+    .map(page => {
+      const offset = page.entryTime - session.metadata.startTime;
+      return `${page.url || 'unknown page'} (${page.index === 0 ? formatDuration(offset) : `+${formatDuration(offset)}`})`;
+    })
+    .join(' → ');
+}
+
+/**
+ * Convert a serialized element to the element shape of processed events
+ * @param node Serialized element
+ * @returns Tag in upper case, as the DOM reports it, with its ID, classes and attributes
+ */
+function toRecordedElement(node: SerializedNode): RecordedElement {
+  const attributes: Record<string, string> = {};
+  for (const [name, value] of Object.entries(node.attributes || {})) {
+    if (value !== null && value !== false) {
+      attributes[name] = value === true ? '' : String(value);
+    }
+  }
+  
+  return {
+    tag: (node.tagName || '').toUpperCase(),
+    id: attributes.id,
+    className: attributes.class,
+    attributes
+  };
+}
+
+/**
+ * Add a serialized node and its descendants to the element map
+ * @param elements Elements by node ID, updated in place
+ * @param node Serialized node
+ */
+function addSerializedNode(elements: Map<number, RecordedElement>, node: SerializedNode | undefined): void {
+  if (!node) return;
+  
+  if (node.type === SERIALIZED_ELEMENT_NODE_TYPE && node.tagName) {
+    elements.set(node.id, toRecordedElement(node));
+  }
+  (node.childNodes || []).forEach(child => addSerializedNode(elements, child));
+}
+
+/**
+ * Keep the elements of the recorded page up to date
+ *
+ * A full snapshot replaces the page; mutations add, remove and change elements.
+ *
+ * @param elements Elements by node ID, updated in place
+ * @param event Raw RRweb event, in timestamp order
+ */
+function trackRecordedElements(elements: Map<number, RecordedElement>, event: RRwebEvent): void {
+  if (event.type === RRwebEventType.FullSnapshot) {
+    elements.clear();
+    addSerializedNode(elements, event.data?.node);
+    return;
+  }
+  
+  if (event.type !== RRwebEventType.IncrementalSnapshot || event.data?.source !== IncrementalSnapshotType.Mutation) {
+    return;
+  }
+  
+  (event.data.removes || []).forEach((removal: { id: number }) => elements.delete(removal.id));
+  (event.data.adds || []).forEach((addition: { node: SerializedNode }) => addSerializedNode(elements, addition.node));
+  (event.data.attributes || []).forEach((change: { id: number; attributes: SerializedNode['attributes'] }) => {
+    const element = elements.get(change.id);
+    if (!element) return;
+    
+    const node: SerializedNode = {
+      type: SERIALIZED_ELEMENT_NODE_TYPE,
+      id: change.id,
+      tagName: element.tag,
+      attributes: { ...element.attributes, ...change.attributes }
+    };
+    elements.set(change.id, toRecordedElement(node));
+  });
+}
+
 /**
  * Processes a single RRweb event to extract useful information
  * @param event The raw RRweb event to process
+ * @param pageIndex Index of the page the event occurred on
+ * @param elements Elements of the recorded page by node ID
  * @returns Processed event with extracted information
  */
-function processRRwebEvent(event: RRwebEvent): ProcessedRRwebEvent {
+function processRRwebEvent(event: RRwebEvent, pageIndex: number, elements: Map<number, RecordedElement>): ProcessedRRwebEvent {
   const eventType = eventTypeMap[event.type] || 'Unknown';
   let details: Record<string, any> = {};
   let url: string | undefined;
@@ -345,16 +848,15 @@ function processRRwebEvent(event: RRwebEvent): ProcessedRRwebEvent {
         }
       } else if (event.data.source === IncrementalSnapshotType.Input) { // Input
         details.inputType = 'Input';
-        details.value = event.data.text || event.data.value;
         
-        if (event.data.target) {
-          element = {
-            tag: event.data.target.tagName,
-            id: event.data.target.id,
-            className: event.data.target.className,
-            attributes: event.data.target.attributes
-          };
-        }
+        // rrweb only records the node ID of the field, its tag and attributes come from the snapshot
+        element = elements.get(event.data.id);
+        
+        // Masked values keep only their length, as if rrweb had masked them while recording
+        const value = event.data.text || event.data.value;
+        const maskRule = typeof value === 'string' ? getInputMaskRule(element) : undefined;
+        details.value = maskRule ? maskInputValue(value) : value;
+        if (maskRule) details.maskRule = maskRule;
       }
       break;
       
@@ -376,478 +878,206 @@ function processRRwebEvent(event: RRwebEvent): ProcessedRRwebEvent {
     type: eventType,
     details,
     url,
+    pageIndex,
     element
   };
 }
 
 /**
- * Helper function to get context around an event (events before and after)
- * @param events Array of processed events
- * @param currentIndex Index of the current event
- * @param windowSize Number of events to include before and after
- * @returns Array of events providing context
+ * Build a CSS selector for the element involved in a key moment
+ * @param element Element recorded with the key moment
+ * @returns Selector such as `button#submit.primary`, or undefined without an element
  */
-function getContextAroundEvent(
-  events: ProcessedRRwebEvent[], 
-  currentIndex: number, 
-  windowSize: number = EVENT_CONTEXT_WINDOW_SIZE
-): ProcessedRRwebEvent[] {
-  // Validate inputs
-  if (!events || !Array.isArray(events) || events.length === 0) {
-    return [];
+export function toElementSelector(element: ProcessedRRwebEvent['element']): string | undefined {
+  if (!element?.tag) {
+    return undefined;
   }
   
-  if (currentIndex < 0 || currentIndex >= events.length) {
-    return [];
-  }
-  
-  const startIdx = Math.max(0, currentIndex - windowSize);
-  const endIdx = Math.min(events.length - 1, currentIndex + windowSize);
+  const id = element.id ? `#${element.id}` : '';
+  const classes = (element.className || '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(className => `.${className}`)
+    .join('');
   
-  return events.slice(startIdx, endIdx + 1).map(e => {
-    // Filter out large properties to keep context size manageable
-    const { type, timestamp, details, element } = e;
-    let simplifiedDetails = { ...details };
-    
-    // Remove verbose properties
-    if (simplifiedDetails.positions && simplifiedDetails.positions.length > 3) {
-      simplifiedDetails.positions = simplifiedDetails.positions.slice(0, 3);
-    }
-    
-    return { type, timestamp, details: simplifiedDetails, element };
-  });
+  return `${element.tag.toLowerCase()}${id}${classes}`;
 }
 
 /**
  * Extract key moments that indicate potential UX issues from RRweb data
- * Expanded to capture a wider range of interaction patterns
+ * 
+ * @param rrwebData Processed RRweb sessions
+ * @param thresholds Detector thresholds, defaults to the `detectors` section of the config
+ * @param detectors Detectors to run, defaults to the ones enabled by the `detection` section of the config
+ * @returns Key moments, session by session in chronological order
  */
-export function extractKeyMoments(rrwebData: ProcessedRRwebData[]): any[] {
-  const keyMoments: any[] = [];
+export function extractKeyMoments(
+  rrwebData: ProcessedRRwebData[],
+  thresholds: DetectorThresholds = getConfig().detectors,
+  detectors: Detector[] = createDetectorRegistryFromConfig().getEnabled()
+): KeyMoment[] {
+  const keyMoments: KeyMoment[] = [];
   
   for (const session of rrwebData) {
-    const { events, sessionId, metadata } = session;
-    
     // Skip empty sessions
-    if (!events || events.length === 0) continue;
-    
-    // Tracking variables
-    let clickEvents: ProcessedRRwebEvent[] = [];
-    let lastClickTime = 0;
-    let formInteractions: ProcessedRRwebEvent[] = [];
-    let currentFormId: string | null = null;
-    let navigationEvents: ProcessedRRwebEvent[] = [];
-    // Use metadata URL as default but don't use a hardcoded fallback
-    let currentUrl: string = metadata?.url || "";
-    let lastInputTime = 0;
-    let lastInputValue: string | undefined = undefined;
-    let scrollEvents: ProcessedRRwebEvent[] = [];
-    let lastScrollTime = 0;
-    let errorEvents: ProcessedRRwebEvent[] = [];
-    let mouseMovements: ProcessedRRwebEvent[] = [];
-    let lastMouseMoveTime = 0;
-    let viewportSize = { width: 0, height: 0 };
-    
-    // Track interactive elements to detect dead clicks
-    const interactiveElements = new Set<string>(['BUTTON', 'A', 'INPUT', 'SELECT', 'TEXTAREA', 'LABEL']);
-    
-    // First pass to extract metadata
-    for (const event of events) {
-      if (event.type === 'Meta') {
-        if (event.details.width && event.details.height) {
-          viewportSize = {
-            width: event.details.width,
-            height: event.details.height
-          };
-        }
-      }
-      
-      // Track current URL
-      if (event.type === 'Navigate' && event.details.href) {
-        currentUrl = event.details.href;
-        
-        // Add to navigation events
-        navigationEvents.push(event);
-        
-        // Check for navigation loops (going back to the same URL repeatedly)
-        const NAVIGATION_LOOP_THRESHOLD = 3;
-        const NAVIGATION_LOOP_TIME_WINDOW = 120000; // 2 minutes
-        
-        const recentNavigations = navigationEvents
-          .filter(e => e.timestamp > event.timestamp - NAVIGATION_LOOP_TIME_WINDOW)
-          .filter(e => e.url === currentUrl);
-        
-        if (recentNavigations.length >= NAVIGATION_LOOP_THRESHOLD) {
-          keyMoments.push({
-            type: 'NavigationLoop',
-            timestamp: event.timestamp,
-            url: currentUrl,
-            frequency: recentNavigations.length,
-            timeWindow: NAVIGATION_LOOP_TIME_WINDOW,
-            sessionId
-          });
-        }
-      }
-      
-      // Capture error events 
-      if (event.type === 'IncrementalSnapshot' && 
-          event.details.incrementalType === 'Canvas' && 
-          event.details.error) {
-        errorEvents.push(event);
-        keyMoments.push({
-          type: 'JSError',
-          timestamp: event.timestamp,
-          error: event.details.error,
-          url: currentUrl,
-          sessionId
-        });
-      }
-    }
-    
-    // Second pass for complex patterns
-    for (let i = 0; i < events.length; i++) {
-      const event = events[i];
-      
-      // Detect rage clicks (multiple rapid clicks in the same area)
-      if (event.type === 'IncrementalSnapshot' && 
-          event.details.incrementalType === 'MouseInteraction' &&
-          (event.details.interactionType === 'Click' || event.details.interactionType === 'MouseDown')) {
-        
-        clickEvents.push(event);
-        
-        // Check for multiple clicks in quick succession
-        const MAX_RAGE_CLICK_INTERVAL = 1000; // 1 second
-        if (event.timestamp - lastClickTime < MAX_RAGE_CLICK_INTERVAL) {
-          if (clickEvents.length >= 3) {
-            // Check if clicks are in the same area (within 20px)
-            const sameAreaClicks = clickEvents.filter(click => {
-              if (!click.element || !event.element) return false;
-              
-              const xDistance = Math.abs((click.element.position?.x || 0) - (event.element.position?.x || 0));
-              const yDistance = Math.abs((click.element.position?.y || 0) - (event.element.position?.y || 0));
-              
-              return xDistance < 20 && yDistance < 20;
-            });
-            
-            if (sameAreaClicks.length >= 3) {
-              keyMoments.push({
-                type: 'RageClick',
-                timestamp: event.timestamp,
-                clickCount: sameAreaClicks.length,
-                element: event.element,
-                url: currentUrl,
-                context: getContextAroundEvent(events, i, 5),
-                sessionId
-              });
-              
-              clickEvents = [];
-            }
-          }
-        } else {
-          clickEvents = [event];
-        }
-        
-        lastClickTime = event.timestamp;
-        
-        // Detect dead clicks (clicks on non-interactive elements)
-        if (event.element && 
-            !interactiveElements.has(event.element.tag) && 
-            !(event.element.className && event.element.className.includes('btn')) &&
-            !(event.element.className && event.element.className.includes('button')) &&
-            !(event.element.attributes && event.element.attributes['role'] === 'button') && 
-            !(event.element.attributes && event.element.attributes.onclick)) {
-          
-          keyMoments.push({
-            type: 'DeadClick',
-            timestamp: event.timestamp,
-            element: event.element,
-            url: currentUrl,
-            context: getContextAroundEvent(events, i, 3),
-            sessionId
-          });
-        }
-      }
-      
-      // Detect form abandonment
-      if (event.type === 'IncrementalSnapshot' && 
-          event.details.incrementalType === 'Input') {
-        
-        // Keep track of all form interactions
-        formInteractions.push(event);
-        lastInputTime = event.timestamp;
-        lastInputValue = event.details.value === null ? undefined : event.details.value;
-        
-        if (event.element && event.element.attributes && event.element.attributes['form']) {
-          currentFormId = event.element.attributes['form'] || `form-${formInteractions.length}`;
-        }
-      }
-      
-      // Check for form abandonment when navigating away
-      if (event.type === 'Navigate' && currentFormId && formInteractions.length > 0) {
-        // Check if any submit events happened within 5 seconds before navigation
-        const submissionFound = events
-          .slice(Math.max(0, i - 10), i)
-          .some(e => 
-            e.type === 'IncrementalSnapshot' && 
-            e.details.incrementalType === 'MouseInteraction' && 
-            e.details.interactionType === 'Click' && 
-            e.element && 
-            ((e.element.tag === 'BUTTON' && e.element.attributes && e.element.attributes.type === 'submit') || 
-             (e.element.attributes && e.element.attributes['form'] === currentFormId))
-          );
-        
-        if (!submissionFound && formInteractions.length >= 2) {
-          keyMoments.push({
-            type: 'FormAbandonment',
-            timestamp: event.timestamp,
-            formId: currentFormId,
-            interactionCount: formInteractions.length,
-            lastValue: lastInputValue,
-            url: currentUrl,
-            context: getContextAroundEvent(events, i, 10),
-            sessionId
-          });
-        }
-        
-        // Reset form tracking
-        formInteractions = [];
-        currentFormId = null;
-      }
-      
-      // Detect rapid scrolling (potentially looking for something)
-      if (event.type === 'IncrementalSnapshot' && 
-          event.details.incrementalType === 'Scroll') {
-        
-        scrollEvents.push(event);
-        
-        // Check for rapid scrolling (lots of scroll events in a short time)
-        const SCROLL_DETECTION_WINDOW = 5000; // 5 seconds
-        const RAPID_SCROLL_THRESHOLD = 8; // number of scroll events
-        
-        const recentScrolls = scrollEvents.filter(e => 
-          e.timestamp > event.timestamp - SCROLL_DETECTION_WINDOW
-        );
-        
-        if (recentScrolls.length >= RAPID_SCROLL_THRESHOLD) {
-          keyMoments.push({
-            type: 'RapidScrolling',
-            timestamp: event.timestamp,
-            scrollCount: recentScrolls.length,
-            duration: event.timestamp - recentScrolls[0].timestamp,
-            url: currentUrl,
-            context: getContextAroundEvent(events, i, 5),
-            sessionId
-          });
-          
-          // Reset to avoid duplicate detection
-          scrollEvents = scrollEvents.slice(-2);
-        }
-        
-        lastScrollTime = event.timestamp;
-      }
-      
-      // Detect mouse hovering (cursor staying in same area for extended period)
-      if (event.type === 'IncrementalSnapshot' && 
-          event.details.incrementalType === 'MouseMove') {
-        
-        mouseMovements.push(event);
-        
-        // If we have multiple mouse move events in same area over time
-        if (mouseMovements.length >= 3 && event.timestamp - lastMouseMoveTime > 3000) {
-          const lastMoves = mouseMovements.slice(-3);
-          
-          // Check if mouse has stayed within a small area
-          const positions = lastMoves.map(m => {
-            // Safely access the positions array
-            if (m.details && m.details.positions && m.details.positions.length > 0) {
-              return {
-                x: m.details.positions[0].x,
-                y: m.details.positions[0].y
-              };
-            }
-            // Default position if not available
-            return { x: 0, y: 0 };
-          });
-          
-          // Only proceed if all positions are valid
-          const allPositionsValid = positions.every(pos => pos.x !== 0 || pos.y !== 0);
-          
-          if (allPositionsValid) {
-            const allPositionsWithinRange = positions.every((pos, idx) => {
-              if (idx === 0) return true;
-              
-              const prevPos = positions[idx - 1];
-              const xDist = Math.abs(pos.x - prevPos.x);
-              const yDist = Math.abs(pos.y - prevPos.y);
-              
-              return xDist < 30 && yDist < 30;
-            });
-            
-            if (allPositionsWithinRange) {
-              keyMoments.push({
-                type: 'MouseHovering',
-                timestamp: event.timestamp,
-                duration: event.timestamp - lastMoves[0].timestamp,
-                position: positions[positions.length - 1],
-                url: currentUrl,
-                context: getContextAroundEvent(events, i, 3),
-                sessionId
-              });
-            }
-          }
-        }
-        
-        lastMouseMoveTime = event.timestamp;
-      }
-      
-      // Detect hesitation (long pauses between interactions)
-      if (i > 0) {
-        const prevEvent = events[i - 1];
-        const timeDiff = event.timestamp - prevEvent.timestamp;
-        
-        // Only consider pauses during active interaction sessions, not between page loads
-        if (timeDiff > 10000 && // More than 10 seconds
-            timeDiff < 300000 && // Less than 5 minutes (to avoid counting normal breaks)
-            event.type === 'IncrementalSnapshot' && 
-            prevEvent.type === 'IncrementalSnapshot' &&
-            (event.details.incrementalType === 'MouseInteraction' || 
-             event.details.incrementalType === 'Input')) {
-          
-          keyMoments.push({
-            type: 'Hesitation',
-            timestamp: event.timestamp,
-            durationMs: timeDiff,
-            beforeEvent: prevEvent,
-            afterEvent: event,
-            url: currentUrl,
-            context: getContextAroundEvent(events, i, 5),
-            sessionId
-          });
-        }
-      }
-      
-      // Detect multi-click submissions (user clicked submit multiple times)
-      if (event.type === 'IncrementalSnapshot' && 
-          event.details.incrementalType === 'MouseInteraction' &&
-          event.details.interactionType === 'Click' &&
-          event.element &&
-          ((event.element.tag === 'BUTTON' && event.element.attributes && event.element.attributes.type === 'submit') ||
-           (event.element.className && (
-             event.element.className.includes('submit') || 
-             event.element.className.includes('send')
-           )))) {
-        
-        // Check for repeated submission clicks in a short period
-        const SUBMISSION_WINDOW = 10000; // 10 seconds
-        const recentSubmissions = events
-          .slice(Math.max(0, i - 20), i)
-          .filter(e => 
-            e.type === 'IncrementalSnapshot' && 
-            e.details.incrementalType === 'MouseInteraction' &&
-            e.timestamp > event.timestamp - SUBMISSION_WINDOW &&
-            e.element &&
-            ((e.element.tag === 'BUTTON' && e.element.attributes && e.element.attributes.type === 'submit') ||
-             (e.element.className && (
-               e.element.className.includes('submit') || 
-               e.element.className.includes('send')
-             )))
-          );
-        
-        if (recentSubmissions.length >= 2) {
-          keyMoments.push({
-            type: 'MultipleSubmissions',
-            timestamp: event.timestamp,
-            count: recentSubmissions.length + 1,
-            element: event.element,
-            url: currentUrl,
-            context: getContextAroundEvent(events, i, 10),
-            sessionId
-          });
-        }
-      }
-      
-      // Detect viewport issues (horizontal scrolling on mobile size viewports)
-      if (viewportSize.width < 768 && // Mobile-ish size
-          event.type === 'IncrementalSnapshot' && 
-          event.details.incrementalType === 'Scroll' &&
-          event.details.x > 0) { // Horizontal scrolling detected
-        
-        keyMoments.push({
-          type: 'HorizontalScrollMobile',
-          timestamp: event.timestamp,
-          viewport: viewportSize,
-          scrollX: event.details.x,
-          url: currentUrl,
-          sessionId
-        });
-      }
-    }
-    
-    // Post-session analysis
+    if (!session.events || session.events.length === 0) continue;
     
-    // Check for form abandonment at the end of the session
-    if (currentFormId && formInteractions.length > 0) {
-      // If the session ended with form inputs without submission
-      keyMoments.push({
-        type: 'FormAbandonment',
-        timestamp: events[events.length - 1].timestamp,
-        formId: currentFormId,
-        interactionCount: formInteractions.length,
-        lastValue: lastInputValue,
-        url: currentUrl,
-        formCompleted: false,
-        sessionId
-      });
-    }
-    
-    // Check for short sessions (user leaving quickly)
-    const sessionDuration = session.metadata.duration;
-    if (sessionDuration < 10000 && navigationEvents.length <= 2) {
-      keyMoments.push({
-        type: 'ShortSession',
-        timestamp: session.metadata.startTime,
-        durationMs: sessionDuration,
-        pageCount: navigationEvents.length,
-        url: currentUrl,
-        sessionId
-      });
-    }
-    
-    // Send some raw session data for AI analysis
-    // Rather than try to catch everything, give the AI some general session metrics
-    keyMoments.push({
-      type: 'SessionMetrics',
-      timestamp: session.metadata.startTime,
-      duration: session.metadata.duration,
-      clickCount: events.filter(e => 
-        e.type === 'IncrementalSnapshot' && 
-        e.details.incrementalType === 'MouseInteraction' && 
-        e.details.interactionType === 'Click'
-      ).length,
-      inputCount: events.filter(e => 
-        e.type === 'IncrementalSnapshot' && 
-        e.details.incrementalType === 'Input'
-      ).length,
-      pageViewCount: events.filter(e => e.type === 'Navigate').length,
-      errorCount: errorEvents.length,
-      sessionId
-    });
+    keyMoments.push(...runDetectors(session, detectors, thresholds));
   }
   
   return keyMoments;
 }
 
 /**
- * Synchronize RRweb events with PostHog events based on timestamp proximity
- * Improved to provide better context for connected events
+ * Get the name of the pattern behind a key moment
+ * @param moment Key moment
+ * @returns The custom detector's pattern name for custom moments, the type otherwise
+ */
+export function getKeyMomentName(moment: KeyMoment): string {
+  return moment.type === 'Custom' ? moment.name : moment.type;
+}
+
+/**
+ * Get the element a key moment is about
+ * @param moment Key moment
+ * @returns Element, or undefined for moments without one
+ */
+export function getKeyMomentElement(moment: KeyMoment): ProcessedRRwebEvent['element'] {
+  return 'element' in moment ? moment.element : undefined;
+}
+
+/**
+ * Get how long the behavior behind a key moment lasted
+ * @param moment Key moment
+ * @returns Duration in milliseconds, or undefined for instantaneous moments
+ */
+function getKeyMomentDuration(moment: KeyMoment): number | undefined {
+  switch (moment.type) {
+    case 'Hesitation':
+    case 'ShortSession':
+      return moment.durationMs;
+    case 'RapidScrolling':
+    case 'MouseHovering':
+    case 'SessionMetrics':
+      return moment.duration;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Get how many times the behavior behind a key moment repeated
+ * @param moment Key moment
+ * @returns Click, scroll, visit or input count, or undefined for single occurrences
+ */
+function getKeyMomentCount(moment: KeyMoment): number | undefined {
+  switch (moment.type) {
+    case 'RageClick':
+    case 'SessionMetrics':
+      return moment.clickCount;
+    case 'MultipleSubmissions':
+      return moment.count;
+    case 'RapidScrolling':
+      return moment.scrollCount;
+    case 'NavigationLoop':
+      return moment.frequency;
+    case 'FormAbandonment':
+      return moment.interactionCount;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Summarize a key moment on one line
+ * @param moment Key moment
+ * @returns Summary such as `3 clicks on button#buy at https://example.com/checkout`
+ */
+export function describeKeyMoment(moment: KeyMoment): string {
+  let summary: string;
+  
+  switch (moment.type) {
+    case 'RageClick':
+      summary = `${moment.clickCount} clicks`;
+      break;
+    case 'DeadClick':
+      summary = 'click on a non-interactive element';
+      break;
+    case 'FormAbandonment':
+      summary = `${moment.interactionCount} inputs in form ${moment.formId} left unsubmitted`;
+      break;
+    case 'NavigationLoop':
+      summary = `${moment.frequency} visits in ${formatDuration(moment.timeWindow)}`;
+      break;
+    case 'RapidScrolling':
+      summary = `${moment.scrollCount} scrolls in ${formatDuration(moment.duration)}`;
+      break;
+    case 'MouseHovering':
+      summary = `cursor resting for ${formatDuration(moment.duration)} at (${moment.position.x}, ${moment.position.y})`;
+      break;
+    case 'Hesitation':
+      summary = `${formatDuration(moment.durationMs)} pause before ${formatEvent(moment.afterEvent)}`;
+      break;
+    case 'MultipleSubmissions':
+      summary = `${moment.count} submit clicks`;
+      break;
+    case 'HorizontalScrollMobile':
+      summary = `scrolled ${moment.scrollX}px sideways on a ${moment.viewport.width}x${moment.viewport.height} viewport`;
+      break;
+    case 'JSError':
+      summary = truncateString(moment.error, 200);
+      break;
+    case 'ShortSession':
+      summary = `${formatDuration(moment.durationMs)} session with ${moment.pageCount} page view(s)`;
+      break;
+    case 'SessionMetrics':
+      summary = `${formatDuration(moment.duration)} session with ${moment.clickCount} clicks, ${moment.inputCount} inputs and ${moment.errorCount} errors`;
+      break;
+    case 'Custom':
+      summary = moment.description;
+      break;
+  }
+  
+  const selector = toElementSelector(getKeyMomentElement(moment));
+  if (selector) summary += ` on ${selector}`;
+  if (moment.url) summary += ` at ${moment.url}`;
+  
+  return summary;
+}
+
+/**
+ * Extract the key moments of RRweb sessions and attach the PostHog events of the
+ * same session that happened around each of them
+ * @param rrwebData Processed RRweb sessions
+ * @param posthogEvents PostHog events of the same period
+ * @returns Normalized PostHog events and the key moments with their nearby events
  */
 export function syncWithPostHogEvents(
   rrwebData: ProcessedRRwebData[],
   posthogEvents: PostHogEvent[]
-): { posthogEvents: PostHogEvent[], rrwebKeyMoments: any[] } {
-  // Extract key moments from RRweb data
-  const keyMoments = extractKeyMoments(rrwebData);
-  
+): { posthogEvents: PostHogEvent[], rrwebKeyMoments: SyncedKeyMoment[] } {
+  return syncKeyMomentsWithPostHogEvents(extractKeyMoments(rrwebData), posthogEvents, rrwebData);
+}
+
+/**
+ * Attach the PostHog events that happened around each key moment
+ * 
+ * Only events of the moment's own session are considered, as joined by buildSessions:
+ * events with the recording's session ID, and events without one that belong to the
+ * same user or, when the user is unknown, were sent while the recording ran.
+ * Used directly when key moments were extracted session by session while streaming,
+ * so the sessions' events are no longer in memory.
+ * 
+ * @param keyMoments Key moments extracted from RRweb sessions
+ * @param posthogEvents PostHog events of the same period
+ * @param recordings Sessions the moments were found in; their events are not needed
+ * @returns Normalized PostHog events and the key moments with their nearby events
+ */
+export function syncKeyMomentsWithPostHogEvents(
+  keyMoments: KeyMoment[],
+  posthogEvents: PostHogEvent[],
+  recordings: ProcessedRRwebData[] = []
+): { posthogEvents: PostHogEvent[], rrwebKeyMoments: SyncedKeyMoment[] } {
   // Convert PostHog timestamps to milliseconds since epoch to match RRweb format
   const normalizedPosthogEvents = posthogEvents.map(event => {
     return {
@@ -858,11 +1088,22 @@ export function syncWithPostHogEvents(
   
   // Find PostHog events that happened close to each key moment
   // Using a wider window to ensure more matches with historical data
-  const NEARBY_EVENT_WINDOW_MS = 30000; // Increased from 3000ms to 30000ms (30 seconds)
+  const NEARBY_EVENT_WINDOW_MS = getConfig().rrweb.syncWindowMs;
+  
+  // Index the normalized events by the session they belong to
+  const eventsBySession = new Map<string, typeof normalizedPosthogEvents>();
+  const sessionIds = getSessionIdsByEvent(buildSessions(posthogEvents, recordings));
+  posthogEvents.forEach((event, i) => {
+    const sessionId = sessionIds.get(event)!;
+    if (!eventsBySession.has(sessionId)) {
+      eventsBySession.set(sessionId, []);
+    }
+    eventsBySession.get(sessionId)!.push(normalizedPosthogEvents[i]);
+  });
   
   const synced = keyMoments.map(moment => {
-    // Find events within the window of this moment
-    const nearbyEvents = normalizedPosthogEvents.filter(event => 
+    // Find events of the same session within the window of this moment
+    const nearbyEvents = (eventsBySession.get(moment.sessionId) || []).filter(event => 
       Math.abs(event.normalizedTimestamp - moment.timestamp) < NEARBY_EVENT_WINDOW_MS
     );
     
@@ -1021,25 +1262,28 @@ function describeContext(context: ProcessedRRwebEvent[] | undefined): string {
  * Create enhanced context for OpenAI analysis, including both RRweb and PostHog data
  * @param posthogEvents Array of PostHog events
  * @param rrwebData Array of processed RRweb sessions
+ * @param syncedKeyMoments Key moments already synced with the PostHog events, if available
  * @returns Formatted context string for OpenAI
  */
 export function createEnhancedContextForOpenAI(
   posthogEvents: PostHogEvent[],
-  rrwebData: ProcessedRRwebData[]
+  rrwebData: ProcessedRRwebData[],
+  syncedKeyMoments?: SyncedKeyMoment[]
 ): string {
-  // Sync the data sources
-  const { rrwebKeyMoments } = syncWithPostHogEvents(rrwebData, posthogEvents);
+  // Sync the data sources unless the caller already did
+  const rrwebKeyMoments = syncedKeyMoments || syncWithPostHogEvents(rrwebData, posthogEvents).rrwebKeyMoments;
   
   // Count unique users
   const distinctIds = new Set(posthogEvents.map(e => e.distinct_id));
   
   // Group key moments by type for better organization
-  const momentsByType: Record<string, any[]> = {};
+  const momentsByType: Record<string, SyncedKeyMoment[]> = {};
   rrwebKeyMoments.forEach(moment => {
-    if (!momentsByType[moment.type]) {
-      momentsByType[moment.type] = [];
+    const name = getKeyMomentName(moment);
+    if (!momentsByType[name]) {
+      momentsByType[name] = [];
     }
-    momentsByType[moment.type].push(moment);
+    momentsByType[name].push(moment);
   });
   
   // Count total key moments by type
@@ -1055,23 +1299,30 @@ export function createEnhancedContextForOpenAI(
   });
   
   // Count pages with interactions
+  // Session metrics only carry the landing page, so they are left out of the page lists
   const pagesWithInteractions = new Set(
     rrwebKeyMoments
-      .filter(m => m.url)
+      .filter(m => m.url && m.type !== 'SessionMetrics')
       .map(m => m.url)
   );
   
   // Collect URL data by session and moment type
   const urlData: Record<string, string[]> = {};
   rrwebKeyMoments.forEach(moment => {
-    if (moment.url) {
+    if (moment.type !== 'SessionMetrics' && moment.url) {
       if (!urlData[moment.url]) {
         urlData[moment.url] = [];
       }
-      urlData[moment.url].push(moment.type);
+      urlData[moment.url].push(getKeyMomentName(moment));
     }
   });
   
+  // Only sessions that moved between pages have a timeline worth showing
+  const navigationTimelines = rrwebData
+    .filter(session => session.pages.length > 1)
+    .slice(0, MAX_TIMELINE_SESSIONS)
+    .map(session => `- Session ${session.sessionId}: ${describePageTimeline(session)}`);
+  
   // Define explanations for each moment type to help the AI
   const momentTypeExplanations: Record<string, string> = {
     'RageClick': 'Multiple rapid clicks in the same area, indicating user frustration with unresponsive elements',
@@ -1092,35 +1343,34 @@ export function createEnhancedContextForOpenAI(
   // 1. Moments with the longest duration
   // 2. Moments with high frequency counts
   // 3. Moments with extreme values for various metrics
-  const interestingMomentsByType: Record<string, any[]> = {};
+  const interestingMomentsByType: Record<string, SyncedKeyMoment[]> = {};
+  const byDuration = (a: KeyMoment, b: KeyMoment) => (getKeyMomentDuration(b) || 0) - (getKeyMomentDuration(a) || 0);
+  const byCount = (a: KeyMoment, b: KeyMoment) => (getKeyMomentCount(b) || 0) - (getKeyMomentCount(a) || 0);
   
   Object.entries(momentsByType).forEach(([type, moments]) => {
-    let interesting;
+    let interesting: SyncedKeyMoment[];
     
     switch (type) {
       case 'Hesitation':
-      case 'FormAbandonment':
       case 'MouseHovering':
+      case 'ShortSession':
         // For time-based events, select the ones with the longest duration
-        interesting = [...moments].sort((a, b) => (b.duration || 0) - (a.duration || 0)).slice(0, 3);
+        interesting = [...moments].sort(byDuration).slice(0, 3);
         break;
         
       case 'RageClick':
-      case 'ErrorClick':
-      case 'DeadClick':
-        // For click events, select the ones with the most clicks or highest frustration score
-        interesting = [...moments].sort((a, b) => (b.frequency || b.count || 0) - (a.frequency || a.count || 0)).slice(0, 3);
-        break;
-        
+      case 'MultipleSubmissions':
+      case 'FormAbandonment':
+      case 'NavigationLoop':
       case 'RapidScrolling':
-        // For scrolling, select the ones with the most scrolls in the shortest time
-        interesting = [...moments].sort((a, b) => (b.scrollCount || 0) - (a.scrollCount || 0)).slice(0, 3);
+        // For repeated actions, select the ones with the most clicks, submissions, inputs, visits or scrolls
+        interesting = [...moments].sort(byCount).slice(0, 3);
         break;
         
       case 'SessionMetrics':
         // For session metrics, select diverse examples (short/long sessions, high/low interaction)
-        const sortedByDuration = [...moments].sort((a, b) => b.duration - a.duration);
-        const sortedByClicks = [...moments].sort((a, b) => b.clickCount - a.clickCount);
+        const sortedByDuration = [...moments].sort(byDuration);
+        const sortedByClicks = [...moments].sort(byCount);
         
         // Get most extreme examples
         interesting = [
@@ -1140,7 +1390,7 @@ export function createEnhancedContextForOpenAI(
         interesting = moments.slice(0, 3);
     }
     
-    interestingMomentsByType[type] = interesting || [];
+    interestingMomentsByType[type] = interesting;
   });
   
   // Format the prompt with all the enhanced data
@@ -1161,7 +1411,11 @@ ${Array.from(pagesWithInteractions).map(url => `- URL: "${url}"`).join('\n')}
 ${Object.entries(urlData).map(([url, types]) => {
   return `- URL: "${url}"\n  Issues: ${[...new Set(types)].join(', ')}`;
 }).join('\n\n')}
-
+${navigationTimelines.length > 0 ? `
+## NAVIGATION TIMELINE
+Pages visited in sessions that moved between pages, with the time each page was entered. Each key moment's URL is the page it happened on:
+${navigationTimelines.join('\n')}
+` : ''}
 ## DETECTED INTERACTION PATTERNS
 ${Object.entries(momentCounts)
   .sort((a, b) => b[1] - a[1]) // Sort by count, highest first
@@ -1177,7 +1431,8 @@ ${Object.entries(interestingMomentsByType)
   .filter(([_, moments]) => moments.length > 0)
   .map(([type, moments]) => {
     return `### ${type} Moments\n${moments.map(moment => {
-      let description = `#### ${new Date(moment.timestamp).toISOString()} (${formatDuration(moment.durationMs || 0)})\n`;
+      const duration = getKeyMomentDuration(moment);
+      let description = `#### ${new Date(moment.timestamp).toISOString()}${duration !== undefined ? ` (${formatDuration(duration)})` : ''}\n`;
       
       // Always put URL first and make it very prominent if available
       if (moment.url) {
@@ -1190,56 +1445,68 @@ ${Object.entries(interestingMomentsByType)
       description += `- **Session ID:** ${moment.sessionId}\n`;
       
       // Add nearby PostHog events for context
-      if (moment.nearbyPosthogEvents && moment.nearbyPosthogEvents.length > 0) {
-        description += `- **Nearby events:** ${moment.nearbyPosthogEvents.map((e: any) => e.event).join(', ')}\n`;
+      if (moment.nearbyPosthogEvents.length > 0) {
+        description += `- **Nearby events:** ${moment.nearbyPosthogEvents.map(e => e.event).join(', ')}\n`;
       }
       
       // Add type-specific details
       switch (moment.type) {
         case 'Hesitation':
-          description += `- **Duration:** ${formatDuration(moment.duration)}\n`;
+          description += `- **Pause:** ${formatDuration(moment.durationMs)} between ${formatEvent(moment.beforeEvent)} and ${formatEvent(moment.afterEvent)}\n`;
           description += `- **Context:** ${describeContext(moment.context)}\n`;
           break;
           
         case 'RageClick':
-          description += `- **Clicks:** ${moment.count} clicks\n`;
-          description += `- **TimeSpan:** ${formatDuration(moment.timeSpan)}\n`;
+          description += `- **Clicks:** ${moment.clickCount} clicks\n`;
           if (moment.element) {
             description += `- **Element:** ${formatElement(moment.element)}\n`;
           }
           break;
           
-        case 'ErrorClick':
-          if (moment.element) {
-            description += `- **Element:** ${formatElement(moment.element)}\n`;
-          }
-          description += `- **Errors:** ${moment.errorCount} JS errors around this click\n`;
+        case 'DeadClick':
+          description += `- **Element:** ${formatElement(moment.element)}\n`;
+          break;
+          
+        case 'MultipleSubmissions':
+          description += `- **Submissions:** ${moment.count} clicks\n`;
+          description += `- **Element:** ${formatElement(moment.element)}\n`;
           break;
           
         case 'RapidScrolling':
           description += `- **Scrolls:** ${moment.scrollCount} scrolls\n`;
-          description += `- **TimeSpan:** ${formatDuration(moment.timeSpan)}\n`;
-          description += `- **Direction:** ${moment.direction}\n`;
+          description += `- **TimeSpan:** ${formatDuration(moment.duration)}\n`;
+          break;
+          
+        case 'MouseHovering':
+          description += `- **Position:** (${moment.position.x}, ${moment.position.y})\n`;
           break;
           
         case 'FormAbandonment':
-          description += `- **Form Fields:** ${moment.fieldCount} fields\n`;
-          description += `- **TimeSpan:** ${formatDuration(moment.timeSpan)}\n`;
-          description += `- **Completion:** ${moment.completionPercentage}%\n`;
+          description += `- **Form:** ${moment.formId}\n`;
+          description += `- **Inputs:** ${moment.interactionCount} inputs before leaving\n`;
+          if (moment.lastValue) {
+            description += `- **Last value:** "${truncateString(moment.lastValue, 50)}"\n`;
+          }
           break;
           
         case 'NavigationLoop':
           description += `- **Frequency:** ${moment.frequency} times in ${formatDuration(moment.timeWindow)}\n`;
           break;
           
-        case 'DeadClick':
-          if (moment.element) {
-            description += `- **Element:** ${formatElement(moment.element)}\n`;
-          }
+        case 'HorizontalScrollMobile':
+          description += `- **Viewport:** ${moment.viewport.width}x${moment.viewport.height}\n`;
+          description += `- **Horizontal scroll:** ${moment.scrollX}px\n`;
+          break;
+          
+        case 'JSError':
+          description += `- **Error:** ${truncateString(moment.error, 200)}\n`;
+          break;
+          
+        case 'ShortSession':
+          description += `- **Page views:** ${moment.pageCount}\n`;
           break;
           
         case 'SessionMetrics':
-          description += `- **Duration:** ${formatDuration(moment.duration)}\n`;
           description += `- **Clicks:** ${moment.clickCount}\n`;
           description += `- **Inputs:** ${moment.inputCount}\n`;
           description += `- **Page views:** ${moment.pageViewCount}\n`;
@@ -1248,14 +1515,15 @@ ${Object.entries(interestingMomentsByType)
           }
           break;
           
-        default:
-          // Add any properties as generic details
-          Object.entries(moment)
-            .filter(([key, _]) => !['type', 'timestamp', 'url', 'sessionId', 'nearbyPosthogEvents', 'context'].includes(key))
-            .forEach(([key, value]) => {
-              if (typeof value === 'object') return;
-              description += `- **${key}:** ${value}\n`;
-            });
+        case 'Custom':
+          description += `- **What happened:** ${moment.description}\n`;
+          Object.entries(moment.details || {}).forEach(([key, value]) => {
+            description += `- **${key}:** ${value}\n`;
+          });
+          if (moment.element) {
+            description += `- **Element:** ${formatElement(moment.element)}\n`;
+          }
+          break;
       }
       
       return description;
@@ -1272,16 +1540,17 @@ ${Object.entries(eventTypeCounts)
 ## ANALYSIS INSTRUCTIONS
 
 Please analyze this data to identify specific UX issues. For each issue you identify, draft a ticket in the following JSON format:
-[
+{ "issues": [
   {
     "title": "Concise title describing the issue",
     "severity": "low", "medium", or "high" based on user impact,
+    "category": One of ${ISSUE_CATEGORIES.map(category => `"${category}"`).join(', ')},
     "description": "Detailed description including evidence from the data",
     "pageUrl": "The affected page URL - USE THE EXACT URL FROM THE DATA",
     "elementSelector": "The CSS selector of the problematic element (if applicable)",
     "suggestedFix": "Brief suggestion for how to address the issue"
   }
-]
+] }
 
 CRITICAL INSTRUCTIONS: 
 1. Your output must be valid JSON
@@ -1291,7 +1560,7 @@ CRITICAL INSTRUCTIONS:
 5. Even subtle patterns can indicate UX issues - be proactive in identifying potential problems
 6. Look for hesitations, rapid scrolling, or any unusual behavior that might indicate confusion
 7. Group issues by page when possible, and identify patterns across sessions
-8. If you can't find ANY issues, only then respond with an empty array: []
+8. If you can't find ANY issues, only then respond with an empty list: { "issues": [] }
 `;
 
   return contextString;
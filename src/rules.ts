@@ -0,0 +1,332 @@
+import { DetectedIssue, IssueCategory, PostHogEvent } from './posthog';
+import { KeyMoment, getKeyMomentElement, toElementSelector } from './rrweb';
+import { IssueSpotterConfig, getConfig } from './config';
+import { buildSessions, getSessionIdsByEvent } from './sessions';
+
+// Constants
+const MAX_LISTED_SESSIONS = 5;
+
+/**
+ * How a kind of evidence turns into an issue
+ */
+interface IssueRule {
+  /** Category of the resulting issue */
+  category: IssueCategory;
+  /** Score added for each affected session */
+  weight: number;
+  /** Short label used in the issue title */
+  label: string;
+  /** What users did, completed with the occurrence and session counts */
+  observation: string;
+  /** Recommendation included in the ticket */
+  suggestedFix: string;
+}
+
+/**
+ * Rules for the key moments and PostHog patterns that indicate an issue on their own
+ *
+ * Weaker signals such as hesitation or rapid scrolling are left to the LLM.
+ */
+const ISSUE_RULES: Record<string, IssueRule> = {
+  RageClick: {
+    category: 'rage_click',
+    weight: 3,
+    label: 'Rage clicks',
+    observation: 'Users clicked the element repeatedly in quick succession',
+    suggestedFix: 'Make sure the element responds to a click with visible feedback (loading state, navigation or an error message), and check that it is not disabled or covered by another element.'
+  },
+  DeadClick: {
+    category: 'dead_click',
+    weight: 1,
+    label: 'Dead clicks',
+    observation: 'Users clicked an element that is not interactive',
+    suggestedFix: 'Either make the element interactive, or change its styling so it no longer looks clickable.'
+  },
+  FormAbandonment: {
+    category: 'form_abandonment',
+    weight: 2,
+    label: 'Form abandoned',
+    observation: 'Users filled in fields and then left without submitting the form',
+    suggestedFix: 'Review the form for unclear labels, unexpected required fields and validation errors that only appear on submit; consider saving progress.'
+  },
+  NavigationLoop: {
+    category: 'navigation',
+    weight: 2,
+    label: 'Navigation loop',
+    observation: 'Users returned to the same page repeatedly within a short time',
+    suggestedFix: 'Check that the page links to the next step of the flow and that redirects do not send users back to it.'
+  },
+  MultipleSubmissions: {
+    category: 'performance',
+    weight: 2,
+    label: 'Repeated submissions',
+    observation: 'Users clicked the submit control several times in a row',
+    suggestedFix: 'Disable the control and show progress while the submission is processed, and make sure a success or error state is shown.'
+  },
+  JSError: {
+    category: 'error',
+    weight: 4,
+    label: 'JavaScript errors',
+    observation: 'The page raised JavaScript errors during the session',
+    suggestedFix: 'Investigate the error in the browser console or error tracker and add handling so the page stays usable.'
+  },
+  HorizontalScrollMobile: {
+    category: 'visual',
+    weight: 1,
+    label: 'Horizontal scrolling on mobile',
+    observation: 'Users on small viewports had to scroll sideways',
+    suggestedFix: 'Find the element wider than the viewport and make it responsive (max-width, wrapping or a scroll container).'
+  },
+  $exception: {
+    category: 'error',
+    weight: 4,
+    label: 'Exceptions',
+    observation: 'PostHog captured exceptions on the page',
+    suggestedFix: 'Investigate the exception in the browser console or error tracker and add handling so the page stays usable.'
+  }
+};
+
+/**
+ * Evidence gathered for one issue, keyed by rule, page and element
+ */
+export interface RuleFinding {
+  /** Rule that produced the finding, a key moment type or PostHog event name */
+  rule: string;
+  /** Drafted issue */
+  issue: DetectedIssue;
+  /** Severity score, higher is worse */
+  score: number;
+  /** Number of times the pattern was seen */
+  occurrences: number;
+  /** Sessions the pattern was seen in */
+  sessionIds: string[];
+}
+
+/**
+ * Finding under construction
+ */
+interface FindingAccumulator {
+  rule: string;
+  url?: string;
+  selector?: string;
+  occurrences: number;
+  sessionIds: Set<string>;
+  sources: Set<string>;
+  details: Set<string>;
+}
+
+/**
+ * Build the CSS selector of the element a PostHog event was captured on
+ * @param event PostHog event
+ * @returns Selector such as `button#buy.primary`, or undefined without element data
+ */
+function getEventSelector(event: PostHogEvent): string | undefined {
+  if (event.properties?.$el_selector) {
+    return event.properties.$el_selector;
+  }
+
+  // The first entry of the chain is the element itself, e.g. button.primary:attr__id="buy"nth-child="2"
+  const first = event.elements_chain?.split(';')[0];
+  const match = first?.match(/^([a-zA-Z][\w-]*)((?:\.[\w-]+)*)/);
+  if (!match) {
+    return undefined;
+  }
+
+  const id = first!.match(/attr__id="([^"]+)"/);
+  return `${match[1].toLowerCase()}${id ? `#${id[1]}` : ''}${match[2]}`;
+}
+
+/**
+ * Describe where a finding happened for use in a title
+ * @param url Page URL
+ * @returns Path of the page, or the URL when it cannot be parsed
+ */
+function describePage(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Map a score to a severity using the configured thresholds
+ * @param score Finding score
+ * @param settings Rule settings
+ * @returns Issue severity
+ */
+function scoreToSeverity(score: number, settings: IssueSpotterConfig['rules']): DetectedIssue['severity'] {
+  if (score >= settings.highSeverityScore) return 'high';
+  if (score >= settings.mediumSeverityScore) return 'medium';
+  return 'low';
+}
+
+/**
+ * Find bursts of autocaptured clicks on the same element, for elements PostHog
+ * did not already report a $rageclick on in the same session
+ * @param events PostHog events
+ * @param getEventSessionId Session of an event
+ * @param rageClickKeys Session and selector of each $rageclick, as `sessionId|selector`
+ * @param minClicks Clicks a burst needs
+ * @param maxIntervalMs Largest gap between clicks in a burst
+ * @returns Event that ended each burst, with the burst size
+ */
+function findAutocaptureClickBursts(
+  events: PostHogEvent[],
+  getEventSessionId: (event: PostHogEvent) => string,
+  rageClickKeys: Set<string>,
+  minClicks: number,
+  maxIntervalMs: number
+): { event: PostHogEvent; count: number }[] {
+  const clicks = events
+    .filter(event => event.event === '$autocapture' && event.properties?.$event_type === 'click')
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  const bursts: { event: PostHogEvent; count: number }[] = [];
+  const runs = new Map<string, { last: number; count: number }>();
+
+  for (const event of clicks) {
+    const selector = getEventSelector(event);
+    if (!selector) continue;
+
+    const key = `${getEventSessionId(event)}|${selector}`;
+    if (rageClickKeys.has(key)) continue;
+
+    const time = new Date(event.timestamp).getTime();
+    const run = runs.get(key);
+
+    if (run && time - run.last <= maxIntervalMs) {
+      run.count++;
+      run.last = time;
+      // Report a burst once, when it reaches the threshold
+      if (run.count === minClicks) {
+        bursts.push({ event, count: run.count });
+      }
+    } else {
+      runs.set(key, { last: time, count: 1 });
+    }
+  }
+
+  return bursts;
+}
+
+/**
+ * Turn RRweb key moments and PostHog event patterns into scored findings
+ *
+ * Evidence for the same rule, page and element is merged, so a rage click seen both
+ * in a recording and as a PostHog $rageclick becomes one finding. A finding scores
+ * the rule's weight for each affected session plus one for each repeat within a
+ * session.
+ *
+ * @param events PostHog events
+ * @param keyMoments Key moments extracted from RRweb sessions
+ * @param settings Rule settings, defaults to the `rules` section of the config
+ * @returns Findings at or above the minimum score, highest score first
+ */
+export function evaluateRules(
+  events: PostHogEvent[],
+  keyMoments: KeyMoment[] = [],
+  settings: IssueSpotterConfig['rules'] = getConfig().rules
+): RuleFinding[] {
+  const accumulators = new Map<string, FindingAccumulator>();
+
+  // Events without a $session_id are placed in sessions the same way as everywhere else
+  const sessionIds = getSessionIdsByEvent(buildSessions(events));
+  const getEventSessionId = (event: PostHogEvent) => sessionIds.get(event)!;
+
+  const addEvidence = (rule: string, sessionId: string, source: string, url?: string, selector?: string, detail?: string) => {
+    const key = `${ISSUE_RULES[rule].category}|${url || ''}|${selector || ''}`;
+    let accumulator = accumulators.get(key);
+    if (!accumulator) {
+      accumulator = { rule, url, selector, occurrences: 0, sessionIds: new Set(), sources: new Set(), details: new Set() };
+      accumulators.set(key, accumulator);
+    }
+
+    accumulator.occurrences++;
+    accumulator.sessionIds.add(sessionId);
+    accumulator.sources.add(source);
+    if (detail) accumulator.details.add(detail);
+  };
+
+  // RRweb key moments
+  for (const moment of keyMoments) {
+    if (!ISSUE_RULES[moment.type]) continue;
+
+    const detail = moment.type === 'JSError' && moment.error ? moment.error : undefined;
+    addEvidence(moment.type, moment.sessionId, 'RRweb recordings', moment.url || undefined, toElementSelector(getKeyMomentElement(moment)), detail);
+  }
+
+  // PostHog rage clicks, and bursts of autocaptured clicks PostHog did not flag
+  const rageClickKeys = new Set<string>();
+  for (const event of events.filter(e => e.event === '$rageclick')) {
+    rageClickKeys.add(`${getEventSessionId(event)}|${getEventSelector(event)}`);
+    addEvidence('RageClick', getEventSessionId(event), 'PostHog $rageclick events', event.properties?.$current_url, getEventSelector(event));
+  }
+
+  const { minClicks, maxIntervalMs } = getConfig().detectors.rageClick;
+  for (const { event } of findAutocaptureClickBursts(events, getEventSessionId, rageClickKeys, minClicks, maxIntervalMs)) {
+    addEvidence('RageClick', getEventSessionId(event), 'PostHog $autocapture clicks', event.properties?.$current_url, getEventSelector(event));
+  }
+
+  // PostHog exceptions
+  for (const event of events.filter(e => e.event === '$exception')) {
+    const message = event.properties?.$exception_message || event.properties?.$exception_type;
+    addEvidence('$exception', getEventSessionId(event), 'PostHog $exception events', event.properties?.$current_url, undefined, message);
+  }
+
+  const findings: RuleFinding[] = [];
+  for (const accumulator of accumulators.values()) {
+    const rule = ISSUE_RULES[accumulator.rule];
+    const sessionIds = Array.from(accumulator.sessionIds);
+    const score = rule.weight * sessionIds.length + (accumulator.occurrences - sessionIds.length);
+    if (score < settings.minScore) continue;
+
+    const target = accumulator.selector ? ` on ${accumulator.selector}` : '';
+    const page = accumulator.url ? ` at ${describePage(accumulator.url)}` : '';
+    const listedSessions = sessionIds.slice(0, MAX_LISTED_SESSIONS).join(', ') +
+      (sessionIds.length > MAX_LISTED_SESSIONS ? ` and ${sessionIds.length - MAX_LISTED_SESSIONS} more` : '');
+
+    const description = [
+      `${rule.observation}: seen ${accumulator.occurrences} time(s) in ${sessionIds.length} session(s) (${listedSessions}).`,
+      accumulator.details.size > 0 ? `Details: ${Array.from(accumulator.details).join('; ')}.` : '',
+      `Detected by rules from ${Array.from(accumulator.sources).join(' and ')}.`
+    ].filter(Boolean).join('\n\n');
+
+    findings.push({
+      rule: accumulator.rule,
+      issue: {
+        title: `${rule.label}${target}${page}`,
+        severity: scoreToSeverity(score, settings),
+        category: rule.category,
+        description,
+        pageUrl: accumulator.url,
+        elementSelector: accumulator.selector,
+        suggestedFix: rule.suggestedFix
+      },
+      score,
+      occurrences: accumulator.occurrences,
+      sessionIds
+    });
+  }
+
+  return findings.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Detect issues with the rules alone, without an LLM
+ * @param events PostHog events
+ * @param keyMoments Key moments extracted from RRweb sessions
+ * @returns Issues, most severe first
+ */
+export function detectIssuesWithRules(events: PostHogEvent[], keyMoments: KeyMoment[] = []): DetectedIssue[] {
+  return evaluateRules(events, keyMoments).map(finding => finding.issue);
+}
+
+/**
+ * Get how strongly a key moment or PostHog event points to an issue
+ * @param type Key moment type or PostHog event name
+ * @returns Weight of the rule for it, or 0 when no rule scores it
+ */
+export function getEvidenceWeight(type: string): number {
+  return ISSUE_RULES[type === '$rageclick' ? 'RageClick' : type]?.weight || 0;
+}
@@ -2,17 +2,40 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as puppeteer from 'puppeteer';
 import { Browser, Page } from 'puppeteer';
-import { ProcessedRRwebData, ProcessedRRwebEvent } from './rrweb';
+import { ProcessedRRwebData, ProcessedRRwebEvent, KeyMoment, getKeyMomentElement, toElementSelector } from './rrweb';
+import { getConfig } from './config';
+import { getMaskedInputSelectors, getScreenshotMaskStyleRules } from './redaction';
 
 // Constants
-const SCREENSHOTS_DIR = path.join(process.cwd(), 'screenshots');
-const SCREENSHOT_WAIT_TIME_MS = 500;
-const DEFAULT_VIEWPORT_WIDTH = 1280;
-const DEFAULT_VIEWPORT_HEIGHT = 800;
+const MANIFEST_FILENAME = 'manifest.json';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ABANDONED_RUN_AGE_MS = DAY_MS;
+const RRWEB_PLAYER_PACKAGE = 'rrweb-player';
+const BEFORE_MOMENT_OFFSET_MS = 1000;
+const AFTER_MOMENT_OFFSET_MS = 500;
+const OVERLAY_CLASS = 'issue-spotter-overlay';
+
+// Key moment types that get screenshots, most important first
+const SCREENSHOT_MOMENT_PRIORITY = [
+  'RageClick',
+  'DeadClick',
+  'MultipleSubmissions',
+  'FormAbandonment',
+  'JSError',
+  'NavigationLoop',
+  'Hesitation',
+  'HorizontalScrollMobile',
+  'RapidScrolling',
+  'MouseHovering',
+  'ShortSession'
+];
+
+// Click-like moments are captured just before and just after the interaction
+const BEFORE_AFTER_MOMENT_TYPES = ['RageClick', 'DeadClick', 'MultipleSubmissions'];
 
 // Create a simple logger
 const logger = {
-  info: (message: string) => console.log(`[INFO] ${message}`),
+  info: (message: string) => console.error(`[INFO] ${message}`),
   warn: (message: string) => console.warn(`[WARN] ${message}`),
   error: (message: string, error?: unknown) => {
     console.error(`[ERROR] ${message}`);
@@ -27,81 +50,297 @@ const logger = {
 };
 
 /**
- * Enum for RRweb event types matching the numeric values used by rrweb
+ * A frame to capture, with the annotations to draw on it
+ */
+interface ScreenshotTarget {
+  /** Absolute timestamp of the frame */
+  timestamp: number;
+  /** Position of the frame relative to the key moment */
+  phase: 'before' | 'at' | 'after';
+  /** Caption stamped onto the frame */
+  caption: string;
+  /** Key moment the frame illustrates, if any */
+  moment?: KeyMoment;
+  /** rrweb mirror ID of the target element, used to highlight its live bounds */
+  nodeId?: number;
+}
+
+/**
+ * A captured screenshot and what it shows, as recorded in the run manifest
+ */
+export interface ScreenshotRecord {
+  /** Session the frame was replayed from */
+  sessionId: string;
+  /** Absolute timestamp of the frame */
+  timestamp: number;
+  /** Position of the frame relative to the key moment */
+  phase: 'before' | 'at' | 'after';
+  /** Type of the key moment the frame illustrates, if any */
+  momentType?: string;
+  /** CSS selector of the element involved in the key moment, if known */
+  elementSelector?: string;
+  /** Page URL at the key moment, if known */
+  url?: string;
+  /** Viewport the frame was rendered in */
+  viewport: { width: number; height: number };
+  /** Masked inputs blurred in the frame, when there were any */
+  blurredRegions?: number;
+  /** Absolute path of the PNG file */
+  path: string;
+}
+
+/**
+ * Manifest written alongside the screenshots of a capture run
+ */
+export interface ScreenshotManifest {
+  /** Identifier of the run, also the name of its directory */
+  runId: string;
+  /** ISO timestamp of when the run started */
+  createdAt: string;
+  /** Screenshots captured in the run */
+  screenshots: ScreenshotRecord[];
+}
+
+/**
+ * Player script and stylesheet read from the installed rrweb-player package
+ */
+interface RRwebPlayerAssets {
+  /** Installed package version */
+  version: string;
+  /** Browser bundle that defines the global rrwebPlayer */
+  script: string;
+  /** Player stylesheet */
+  style: string;
+}
+
+// Assets are read once per process
+let playerAssets: RRwebPlayerAssets | null = null;
+
+/**
+ * Load the rrweb-player browser bundle and stylesheet from node_modules
+ * 
+ * The player is inlined into the replay page instead of loaded from a CDN, so
+ * screenshots work offline and always use the version pinned in package.json.
+ * 
+ * @returns The player assets
+ * @throws Error if rrweb-player is not installed
+ */
+function loadRRwebPlayerAssets(): RRwebPlayerAssets {
+  if (playerAssets) {
+    return playerAssets;
+  }
+  
+  let packageJsonPath: string;
+  try {
+    packageJsonPath = require.resolve(`${RRWEB_PLAYER_PACKAGE}/package.json`);
+  } catch (error) {
+    throw new Error(`${RRWEB_PLAYER_PACKAGE} is not installed; run npm install to enable screenshot capture`);
+  }
+  
+  const packageDir = path.dirname(packageJsonPath);
+  const { version } = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
+  
+  playerAssets = {
+    version,
+    script: fs.readFileSync(path.join(packageDir, 'dist', 'index.js'), 'utf8'),
+    style: fs.readFileSync(path.join(packageDir, 'dist', 'style.css'), 'utf8')
+  };
+  
+  logger.info(`Using bundled ${RRWEB_PLAYER_PACKAGE}@${version} for session replay`);
+  return playerAssets;
+}
+
+/**
+ * Escape text so it cannot close the inline element it is embedded in
+ * @param content Script or JSON text
+ * @returns Text safe to place inside a script or style element
+ */
+function escapeInlineContent(content: string): string {
+  return content.replace(/<\/(script|style)/gi, '<\\/$1');
+}
+
+/**
+ * Resolve the configured screenshots directory
+ * @returns Absolute path of the directory that holds the capture runs
  */
-enum RRwebEventType {
-  DomContentLoaded = 0,
-  Load = 1,
-  FullSnapshot = 2,
-  IncrementalSnapshot = 3,
-  Meta = 4,
-  Custom = 5
+function defaultScreenshotsDir(): string {
+  return path.resolve(getConfig().screenshots.dir);
 }
 
 /**
  * Initialize the screenshots directory
+ * @param screenshotsDir Directory that holds the capture runs
  */
-function initScreenshotsDirectory(): void {
+function initScreenshotsDirectory(screenshotsDir: string): void {
   try {
-    if (!fs.existsSync(SCREENSHOTS_DIR)) {
-      fs.mkdirSync(SCREENSHOTS_DIR, { recursive: true });
-      logger.info(`Created screenshots directory at ${SCREENSHOTS_DIR}`);
+    if (!fs.existsSync(screenshotsDir)) {
+      fs.mkdirSync(screenshotsDir, { recursive: true });
+      logger.info(`Created screenshots directory at ${screenshotsDir}`);
     }
   } catch (error) {
-    logger.error(`Failed to create screenshots directory: ${SCREENSHOTS_DIR}`, error);
+    logger.error(`Failed to create screenshots directory: ${screenshotsDir}`, error);
     throw new Error(`Failed to create screenshots directory: ${error}`);
   }
 }
 
 /**
- * Clean up old screenshots from the screenshots directory
- * @returns Number of files removed
+ * Delete capture runs that fall outside the retention policy
+ * 
+ * The newest `screenshots.retentionRuns` runs are kept. When
+ * `screenshots.retentionDays` is set, runs older than that are removed as well.
+ * Run directories without a manifest were interrupted before they were written,
+ * or are still being captured by another process, so they are only removed once
+ * they have not been modified for a day.
+ * 
+ * @param screenshotsDir Directory that holds the capture runs
+ * @returns Number of runs removed
  */
-export function cleanupScreenshots(): number {
+export function pruneScreenshotRuns(screenshotsDir: string = defaultScreenshotsDir()): number {
   try {
-    initScreenshotsDirectory();
+    initScreenshotsDirectory(screenshotsDir);
+    
+    const { retentionRuns, retentionDays } = getConfig().screenshots;
+    const cutoff = retentionDays === undefined ? 0 : Date.now() - retentionDays * DAY_MS;
     
-    const files = fs.readdirSync(SCREENSHOTS_DIR);
+    // Newest runs first
+    const runs = listScreenshotRuns(screenshotsDir).reverse();
     let removedCount = 0;
     
-    for (const file of files) {
-      if (file.endsWith('.png')) {
-        fs.unlinkSync(path.join(SCREENSHOTS_DIR, file));
+    runs.forEach((manifest, index) => {
+      if (index < retentionRuns && Date.parse(manifest.createdAt) >= cutoff) {
+        return;
+      }
+      
+      fs.rmSync(path.join(screenshotsDir, manifest.runId), { recursive: true, force: true });
+      removedCount++;
+    });
+    
+    const abandonedBefore = Date.now() - ABANDONED_RUN_AGE_MS;
+    for (const runDir of listRunDirectories(screenshotsDir)) {
+      if (loadScreenshotManifest(runDir) === null && fs.statSync(runDir).mtimeMs < abandonedBefore) {
+        fs.rmSync(runDir, { recursive: true, force: true });
         removedCount++;
       }
     }
     
-    logger.info(`Removed ${removedCount} old screenshots`);
+    if (removedCount > 0) {
+      logger.info(`Removed ${removedCount} expired screenshot run(s)`);
+    }
     return removedCount;
   } catch (error) {
-    logger.error('Failed to clean up screenshots', error);
+    logger.error('Failed to prune screenshot runs', error);
     return 0;
   }
 }
 
+/**
+ * List the capture runs that have a manifest, oldest first
+ * @param screenshotsDir Directory that holds the capture runs
+ * @returns Manifests of the stored runs
+ */
+export function listScreenshotRuns(screenshotsDir: string = defaultScreenshotsDir()): ScreenshotManifest[] {
+  return listRunDirectories(screenshotsDir)
+    .map(runDir => loadScreenshotManifest(runDir))
+    .filter((manifest): manifest is ScreenshotManifest => manifest !== null);
+}
+
+/**
+ * List the run directories, with or without a manifest, oldest first
+ * @param screenshotsDir Directory that holds the capture runs
+ * @returns Paths of the run directories
+ */
+function listRunDirectories(screenshotsDir: string): string[] {
+  if (!fs.existsSync(screenshotsDir)) {
+    return [];
+  }
+  
+  // Run IDs are derived from ISO timestamps, so name order is chronological
+  return fs.readdirSync(screenshotsDir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name)
+    .sort()
+    .map(runId => path.join(screenshotsDir, runId));
+}
+
+/**
+ * Read the manifest of a capture run
+ * @param runDir Directory of the run
+ * @returns The manifest, or null if the run has none or it is unreadable
+ */
+export function loadScreenshotManifest(runDir: string): ScreenshotManifest | null {
+  const manifestPath = path.join(runDir, MANIFEST_FILENAME);
+  if (!fs.existsSync(manifestPath)) {
+    return null;
+  }
+  
+  try {
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as ScreenshotManifest;
+  } catch (error) {
+    logger.warn(`Skipping unreadable screenshot manifest ${manifestPath}`);
+    return null;
+  }
+}
+
+/**
+ * Read the manifest of the most recent capture run
+ * @param screenshotsDir Directory that holds the capture runs
+ * @returns The manifest, or null if no run has been stored
+ */
+export function loadLatestScreenshotManifest(screenshotsDir: string = defaultScreenshotsDir()): ScreenshotManifest | null {
+  const runs = listScreenshotRuns(screenshotsDir);
+  return runs.length > 0 ? runs[runs.length - 1] : null;
+}
+
+/**
+ * Write the manifest of a capture run
+ * @param runDir Directory of the run
+ * @param manifest Manifest to write
+ */
+function saveScreenshotManifest(runDir: string, manifest: ScreenshotManifest): void {
+  fs.writeFileSync(path.join(runDir, MANIFEST_FILENAME), JSON.stringify(manifest, null, 2));
+}
+
 /**
  * Captures screenshots from rrweb sessions, focusing on key moments
  * 
- * @param rrwebData The processed rrweb session data
+ * When key moments are given, frames are taken around each moment with the target
+ * element highlighted; sessions without key moments fall back to evenly spaced
+ * interactions.
+ * 
+ * Each call writes into its own run directory, one subdirectory per session, with
+ * a manifest describing every frame. Earlier runs are kept according to the
+ * retention policy so that evidence linked from tickets stays available.
+ * 
+ * @param rrwebData The processed rrweb session data, as an array or streamed one session at a time
  * @param maxScreenshotsPerSession Maximum number of screenshots to capture per session
- * @returns Array of screenshot file paths
+ * @param keyMoments Key moments extracted from the sessions
+ * @param screenshotsDir Directory that holds the capture runs, defaults to `screenshots.dir` from the config
+ * @returns Records of the captured screenshots
  */
 export async function captureScreenshotsFromRRwebSessions(
-  rrwebData: ProcessedRRwebData[],
-  maxScreenshotsPerSession: number = 5
-): Promise<string[]> {
-  if (!rrwebData || rrwebData.length === 0) {
+  rrwebData: ProcessedRRwebData[] | AsyncIterable<ProcessedRRwebData>,
+  maxScreenshotsPerSession: number = getConfig().screenshots.maxPerSession,
+  keyMoments: KeyMoment[] = [],
+  screenshotsDir: string = defaultScreenshotsDir()
+): Promise<ScreenshotRecord[]> {
+  const sessionCount = Array.isArray(rrwebData) ? rrwebData.length : undefined;
+  if (!rrwebData || sessionCount === 0) {
     logger.warn('No RRweb data provided for screenshot capture');
     return [];
   }
   
-  logger.info(`Capturing screenshots from ${rrwebData.length} rrweb sessions...`);
+  logger.info(`Capturing screenshots from ${sessionCount ?? 'streamed'} rrweb sessions...`);
   
-  // Start by cleaning up old screenshots
-  cleanupScreenshots();
+  // Start a fresh run directory
+  const createdAt = new Date().toISOString();
+  const manifest: ScreenshotManifest = {
+    runId: createdAt.replace(/[:.]/g, '-'),
+    createdAt,
+    screenshots: []
+  };
+  const runDir = path.resolve(screenshotsDir, manifest.runId);
+  fs.mkdirSync(runDir, { recursive: true });
   
-  // Array to store screenshot file paths
-  const screenshotPaths: string[] = [];
   let browser: Browser | null = null;
   
   try {
@@ -116,24 +355,27 @@ export async function captureScreenshotsFromRRwebSessions(
     
     // Set viewport dimensions
     await page.setViewport({
-      width: DEFAULT_VIEWPORT_WIDTH,
-      height: DEFAULT_VIEWPORT_HEIGHT,
+      width: getConfig().screenshots.viewportWidth,
+      height: getConfig().screenshots.viewportHeight,
       deviceScaleFactor: 1,
     });
     
     // Process each session
-    for (let i = 0; i < rrwebData.length; i++) {
-      const session = rrwebData[i];
-      logger.info(`Processing session ${i+1}/${rrwebData.length}: ${session.sessionId}`);
+    let sessionNumber = 0;
+    for await (const session of rrwebData) {
+      sessionNumber++;
+      logger.info(`Processing session ${sessionNumber}${sessionCount ? `/${sessionCount}` : ''}: ${session.sessionId}`);
       
       try {
         const sessionScreenshots = await captureSessionScreenshots(
           page, 
           session, 
-          maxScreenshotsPerSession
+          runDir,
+          maxScreenshotsPerSession,
+          keyMoments.filter(moment => moment.sessionId === session.sessionId)
         );
         
-        screenshotPaths.push(...sessionScreenshots);
+        manifest.screenshots.push(...sessionScreenshots);
       } catch (error) {
         logger.error(`Error capturing screenshots for session ${session.sessionId}`, error);
         // Continue with the next session
@@ -148,8 +390,13 @@ export async function captureScreenshotsFromRRwebSessions(
     }
   }
   
-  logger.info(`Total screenshots captured: ${screenshotPaths.length}`);
-  return screenshotPaths;
+  saveScreenshotManifest(runDir, manifest);
+  
+  // Prune once this run has its manifest, so it counts towards the runs kept
+  pruneScreenshotRuns(screenshotsDir);
+  
+  logger.info(`Total screenshots captured: ${manifest.screenshots.length} (run ${manifest.runId})`);
+  return manifest.screenshots;
 }
 
 /**
@@ -157,21 +404,32 @@ export async function captureScreenshotsFromRRwebSessions(
  * 
  * @param page Puppeteer page object
  * @param session The processed RRweb session data
+ * @param runDir Directory of the current capture run
  * @param maxScreenshots Maximum number of screenshots to capture
- * @returns Array of screenshot file paths
+ * @param keyMoments Key moments found in this session
+ * @returns Records of the captured screenshots
  */
 async function captureSessionScreenshots(
   page: Page, 
   session: ProcessedRRwebData, 
-  maxScreenshots: number
-): Promise<string[]> {
-  const screenshotPaths: string[] = [];
+  runDir: string,
+  maxScreenshots: number,
+  keyMoments: KeyMoment[] = []
+): Promise<ScreenshotRecord[]> {
+  const screenshots: ScreenshotRecord[] = [];
+  const { viewportWidth, viewportHeight, waitMs } = getConfig().screenshots;
+  const viewport = page.viewport() || { width: viewportWidth, height: viewportHeight };
+  
+  // Screenshots are scoped to a directory per session
+  const safeSessionId = session.sessionId.replace(/[^\w.-]/g, '_');
+  const sessionDir = path.join(runDir, safeSessionId);
   
   // Create HTML file with rrweb-player to replay the session
   const playerHtml = createRRwebPlayerHtml(session);
-  const tempHtmlPath = path.join(SCREENSHOTS_DIR, `temp_${session.sessionId}.html`);
+  const tempHtmlPath = path.join(sessionDir, 'replay.html');
   
   try {
+    fs.mkdirSync(sessionDir, { recursive: true });
     fs.writeFileSync(tempHtmlPath, playerHtml);
     
     // Navigate to the HTML file
@@ -180,30 +438,50 @@ async function captureSessionScreenshots(
     // Wait for player to initialize
     await page.waitForSelector('.rr-player');
     
-    // Intelligently determine key moments to capture
-    const timePoints = findInterestingTimestamps(session, maxScreenshots);
+    // Frame the key moments, or fall back to evenly spaced interactions
+    let targets = planKeyMomentScreenshots(session, keyMoments, maxScreenshots);
+    if (targets.length === 0) {
+      targets = findInterestingTimestamps(session, maxScreenshots).map(timestamp => ({
+        timestamp,
+        phase: 'at' as const,
+        caption: new Date(timestamp).toISOString()
+      }));
+    }
     
     // Capture screenshots at each time point
-    for (let j = 0; j < timePoints.length; j++) {
-      const timePoint = timePoints[j];
+    for (const target of targets) {
+      const timePoint = target.timestamp;
       
       try {
-        // Set player to specific time
-        await page.evaluate((time) => {
+        // Set player to specific time (the player expects an offset from the first event)
+        await page.evaluate((offset) => {
           // @ts-ignore - rrwebPlayer is injected via the HTML
-          window.rrwebPlayer.goto(time);
-        }, timePoint);
+          window.rrwebPlayer.goto(offset);
+        }, timePoint - session.metadata.startTime);
         
         // Wait for a moment to let animations settle
-        await new Promise(resolve => setTimeout(resolve, SCREENSHOT_WAIT_TIME_MS));
+        await new Promise(resolve => setTimeout(resolve, waitMs));
+        
+        await annotateFrame(page, target);
+        const blurredRegions = await countBlurredRegions(page);
         
         // Take screenshot
-        // Include timestamp in filename to help with correlation
-        const screenshotFilename = `session_${session.sessionId}_time_${timePoint}.png`;
-        const screenshotPath = path.join(SCREENSHOTS_DIR, screenshotFilename);
+        // The session ID is kept in the name so files stay unique once attached to tickets
+        const screenshotFilename = `${safeSessionId}_${timePoint}_${target.phase}.png`;
+        const screenshotPath = path.join(sessionDir, screenshotFilename);
         
         await page.screenshot({ path: screenshotPath });
-        screenshotPaths.push(screenshotPath);
+        screenshots.push({
+          sessionId: session.sessionId,
+          timestamp: timePoint,
+          phase: target.phase,
+          momentType: target.moment?.type,
+          elementSelector: toElementSelector(target.moment && getKeyMomentElement(target.moment)),
+          url: target.moment?.url || session.metadata.url,
+          viewport: { width: viewport.width, height: viewport.height },
+          ...(blurredRegions > 0 ? { blurredRegions } : {}),
+          path: screenshotPath
+        });
         
         logger.info(`Captured screenshot at time ${timePoint}: ${screenshotFilename}`);
       } catch (error) {
@@ -221,7 +499,169 @@ async function captureSessionScreenshots(
     }
   }
   
-  return screenshotPaths;
+  return screenshots;
+}
+
+/**
+ * Plans frames around the key moments of a session
+ * 
+ * Click-like moments get a frame just before and just after the interaction; other
+ * moments get a single frame. Moments are taken in priority order until the
+ * screenshot budget is used up.
+ * 
+ * @param session The processed RRweb session data
+ * @param keyMoments Key moments found in this session
+ * @param maxScreenshots Maximum number of frames to plan
+ * @returns Frames to capture, in chronological order
+ */
+function planKeyMomentScreenshots(
+  session: ProcessedRRwebData,
+  keyMoments: KeyMoment[],
+  maxScreenshots: number
+): ScreenshotTarget[] {
+  const { startTime, endTime } = session.metadata;
+  const clamp = (timestamp: number) => Math.min(Math.max(timestamp, startTime), endTime);
+  
+  const prioritized = keyMoments
+    .filter(moment => SCREENSHOT_MOMENT_PRIORITY.includes(moment.type))
+    .sort((a, b) => SCREENSHOT_MOMENT_PRIORITY.indexOf(a.type) - SCREENSHOT_MOMENT_PRIORITY.indexOf(b.type));
+  
+  const targets: ScreenshotTarget[] = [];
+  
+  for (const moment of prioritized) {
+    const nodeId = findTargetNodeId(session, moment.timestamp);
+    const time = new Date(moment.timestamp).toISOString();
+    const frames: ScreenshotTarget[] = BEFORE_AFTER_MOMENT_TYPES.includes(moment.type)
+      ? [
+          { timestamp: clamp(moment.timestamp - BEFORE_MOMENT_OFFSET_MS), phase: 'before', caption: `${moment.type} · just before · ${time}`, moment, nodeId },
+          { timestamp: clamp(moment.timestamp + AFTER_MOMENT_OFFSET_MS), phase: 'after', caption: `${moment.type} · just after · ${time}`, moment, nodeId }
+        ]
+      : [{ timestamp: clamp(moment.timestamp), phase: 'at', caption: `${moment.type} · ${time}`, moment, nodeId }];
+    
+    if (targets.length + frames.length > maxScreenshots) {
+      break;
+    }
+    targets.push(...frames);
+  }
+  
+  return targets.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Find the rrweb node ID of the element a mouse interaction targeted
+ * 
+ * @param session The processed RRweb session data
+ * @param timestamp Timestamp of the interaction
+ * @returns Mirror node ID, or undefined when no interaction was recorded then
+ */
+function findTargetNodeId(session: ProcessedRRwebData, timestamp: number): number | undefined {
+  const interaction = session.rawEvents.find(event =>
+    event.timestamp === timestamp &&
+    event.type === 3 && // IncrementalSnapshot
+    event.data?.source === 2 && // MouseInteraction
+    typeof event.data?.id === 'number'
+  );
+  
+  return interaction?.data.id;
+}
+
+/**
+ * Draws the highlight box, click marker and caption for a frame onto the replay
+ * 
+ * The highlight uses the replayed element's live bounds when the node can be
+ * resolved, and otherwise falls back to the recorded element position.
+ * 
+ * @param page Puppeteer page showing the replay
+ * @param target Frame being captured
+ */
+async function annotateFrame(page: Page, target: ScreenshotTarget): Promise<void> {
+  const position = target.moment && getKeyMomentElement(target.moment)?.position;
+  
+  await page.evaluate((annotation) => {
+    document.querySelectorAll(`.${annotation.overlayClass}`).forEach(node => node.remove());
+    
+    // Overlays inside the wrapper share the replay's scale and coordinate space
+    const wrapper = document.querySelector('.replayer-wrapper') as HTMLElement | null;
+    
+    const addOverlay = (parent: HTMLElement, style: Partial<CSSStyleDeclaration>, text?: string) => {
+      const overlay = document.createElement('div');
+      overlay.className = annotation.overlayClass;
+      Object.assign(overlay.style, { position: 'absolute', pointerEvents: 'none', zIndex: '10000' }, style);
+      if (text) overlay.textContent = text;
+      parent.appendChild(overlay);
+    };
+    
+    if (wrapper) {
+      let box = annotation.box;
+      
+      if (annotation.nodeId !== undefined) {
+        try {
+          // @ts-ignore - rrwebPlayer is injected via the HTML
+          const node = window.rrwebPlayer.getReplayer().getMirror().getNode(annotation.nodeId);
+          if (node && typeof node.getBoundingClientRect === 'function') {
+            const rect = node.getBoundingClientRect();
+            box = { x: rect.left, y: rect.top, width: rect.width, height: rect.height };
+          }
+        } catch (error) {
+          // Fall back to the recorded position
+        }
+      }
+      
+      if (box && box.width && box.height) {
+        addOverlay(wrapper, {
+          left: `${box.x}px`, top: `${box.y}px`, width: `${box.width}px`, height: `${box.height}px`,
+          border: '3px solid #ff2d55', background: 'rgba(255, 45, 85, 0.15)', boxSizing: 'border-box'
+        });
+      }
+      
+      if (annotation.click) {
+        addOverlay(wrapper, {
+          left: `${annotation.click.x - 12}px`, top: `${annotation.click.y - 12}px`, width: '24px', height: '24px',
+          border: '3px solid #ff2d55', borderRadius: '50%', boxSizing: 'border-box'
+        });
+      }
+    }
+    
+    addOverlay(document.body, {
+      position: 'fixed', left: '12px', top: '12px', padding: '6px 10px',
+      background: 'rgba(0, 0, 0, 0.75)', color: '#fff', font: '14px/1.4 sans-serif', borderRadius: '4px'
+    }, annotation.caption);
+  }, {
+    overlayClass: OVERLAY_CLASS,
+    caption: target.caption,
+    nodeId: target.nodeId,
+    box: position && position.width && position.height ? position : undefined,
+    click: position && typeof position.x === 'number' && typeof position.y === 'number'
+      ? { x: position.x, y: position.y }
+      : undefined
+  });
+}
+
+/**
+ * Count the masked inputs blurred in the replayed frame, for the redaction audit
+ * @param page Puppeteer page showing the replay
+ * @returns Number of masked input elements in the replayed document
+ */
+async function countBlurredRegions(page: Page): Promise<number> {
+  if (getScreenshotMaskStyleRules().length === 0) {
+    return 0;
+  }
+  
+  return await page.evaluate((selectors) => {
+    const iframe = document.querySelector('.replayer-wrapper iframe') as HTMLIFrameElement | null;
+    const replayed = iframe?.contentDocument;
+    if (!replayed) return 0;
+    
+    const blurred = new Set<Element>();
+    for (const selector of selectors) {
+      try {
+        replayed.querySelectorAll(selector).forEach(element => blurred.add(element));
+      } catch (error) {
+        // The browser rejects the selector, so its style rule blurs nothing either
+      }
+    }
+    return blurred.size;
+  }, getMaskedInputSelectors());
 }
 
 /**
@@ -310,15 +750,10 @@ function findInterestingTimestamps(session: ProcessedRRwebData, maxPoints: numbe
  * @returns HTML content as string
  */
 function createRRwebPlayerHtml(session: ProcessedRRwebData): string {
-  // Convert processed events back to rrweb format
-  const rrwebEvents = session.events.map(event => {
-    // Basic conversion - this may need to be adjusted based on your data structure
-    return {
-      type: eventTypeToNumber(event.type),
-      timestamp: event.timestamp,
-      data: event.details
-    };
-  });
+  const assets = loadRRwebPlayerAssets();
+  
+  // Replay the recorded stream as-is; processed events are lossy
+  const rrwebEvents = session.rawEvents;
   
   return `
 <!DOCTYPE html>
@@ -327,7 +762,7 @@ function createRRwebPlayerHtml(session: ProcessedRRwebData): string {
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1">
   <title>RRWeb Session Replay</title>
-  <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/rrweb-player@latest/dist/style.css">
+  <style>${escapeInlineContent(assets.style)}</style>
   <style>
     body { margin: 0; padding: 0; overflow: hidden; }
     .rr-player { width: 100vw; height: 100vh; }
@@ -336,10 +771,10 @@ function createRRwebPlayerHtml(session: ProcessedRRwebData): string {
 <body>
   <div id="player"></div>
   
-  <script src="https://cdn.jsdelivr.net/npm/rrweb-player@latest/dist/index.js"></script>
+  <script>${escapeInlineContent(assets.script)}</script>
   <script>
-    // Session data
-    const events = ${JSON.stringify(rrwebEvents)};
+    // Session data (escaped so recorded markup cannot end the script early)
+    const events = ${JSON.stringify(rrwebEvents).replace(/</g, '\\u003c')};
     
     // Initialize player
     window.rrwebPlayer = new rrwebPlayer({
@@ -349,31 +784,14 @@ function createRRwebPlayerHtml(session: ProcessedRRwebData): string {
         showController: false,
         autoPlay: false,
         skipInactive: true,
-        width: ${DEFAULT_VIEWPORT_WIDTH},
-        height: ${DEFAULT_VIEWPORT_HEIGHT}
+        // Blur masked inputs before any frame is captured
+        insertStyleRules: ${JSON.stringify(getScreenshotMaskStyleRules()).replace(/</g, '\\u003c')},
+        width: ${getConfig().screenshots.viewportWidth},
+        height: ${getConfig().screenshots.viewportHeight}
       }
     });
   </script>
 </body>
 </html>
   `;
-}
-
-/**
- * Converts event type string to rrweb numeric type
- * 
- * @param typeString The event type string
- * @returns The corresponding numeric type
- */
-function eventTypeToNumber(typeString: string): RRwebEventType {
-  const typeMap: Record<string, RRwebEventType> = {
-    'DomContentLoaded': RRwebEventType.DomContentLoaded,
-    'Load': RRwebEventType.Load,
-    'FullSnapshot': RRwebEventType.FullSnapshot,
-    'IncrementalSnapshot': RRwebEventType.IncrementalSnapshot,
-    'Meta': RRwebEventType.Meta,
-    'Custom': RRwebEventType.Custom
-  };
-  
-  return typeMap[typeString] || RRwebEventType.DomContentLoaded;
-} 
\ No newline at end of file
+}
\ No newline at end of file
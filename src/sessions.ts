@@ -0,0 +1,188 @@
+import { getConfig } from './config';
+import { PostHogEvent } from './posthog';
+import { ProcessedRRwebData } from './rrweb';
+
+/**
+ * A user session, joining the PostHog events and the recording that belong to it
+ */
+export interface Session {
+  /**
+   * PostHog `$session_id`, which is also the ID of its recording; sessions
+   * reconstructed from a user's activity are named `<distinct_id>_<start time>`
+   */
+  id: string;
+  /** How the session was found: by its ID, or by grouping a user's events until they were inactive */
+  grouping: 'id' | 'inactivity';
+  /** PostHog distinct ID of the user, or the recorded user when no event says */
+  distinctId?: string;
+  /** PostHog events in chronological order */
+  events: PostHogEvent[];
+  /** Recording of the session, when one was loaded */
+  recording?: ProcessedRRwebData;
+  /** Timestamp of the first event or recorded moment */
+  startTime: number;
+  /** Timestamp of the last event or recorded moment */
+  endTime: number;
+}
+
+/**
+ * Get the time of a PostHog event
+ * @param event PostHog event
+ * @returns Milliseconds since the epoch
+ */
+function getEventTime(event: PostHogEvent): number {
+  return new Date(event.timestamp).getTime();
+}
+
+/**
+ * Add an event to a session and widen its time range
+ * @param session Session to update
+ * @param event PostHog event
+ * @param time Time of the event
+ */
+function addEvent(session: Session, event: PostHogEvent, time: number): void {
+  session.events.push(event);
+  session.startTime = Math.min(session.startTime, time);
+  session.endTime = Math.max(session.endTime, time);
+}
+
+/**
+ * Check whether a session belongs to a user
+ * @param session Session with a known ID
+ * @param distinctId PostHog distinct ID
+ * @returns True when the events or the recording name the same user
+ */
+function isSameUser(session: Session, distinctId: string): boolean {
+  return session.distinctId === distinctId || session.recording?.metadata.userId === distinctId;
+}
+
+/**
+ * Find the session an event without a session ID belongs to
+ *
+ * Sessions of the same user active around the time of the event come first. Otherwise
+ * the event can only be placed by time, so it joins a recording whose user is not
+ * known; sessions of other users are never used.
+ *
+ * @param sessions Sessions known by their ID
+ * @param event PostHog event without `$session_id`
+ * @param time Time of the event
+ * @param timeoutMs Inactivity after which a session is considered over
+ * @returns The closest matching session, or undefined
+ */
+function findSessionAround(sessions: Session[], event: PostHogEvent, time: number, timeoutMs: number): Session | undefined {
+  const distanceTo = (session: Session) => Math.max(0, session.startTime - time, time - session.endTime);
+  const active = sessions
+    .filter(session => distanceTo(session) < timeoutMs)
+    .sort((a, b) => distanceTo(a) - distanceTo(b));
+  
+  return active.find(session => isSameUser(session, event.distinct_id)) ||
+    active.find(session => !session.distinctId && !session.recording?.metadata.userId);
+}
+
+/**
+ * Join PostHog events and RRweb recordings into sessions
+ *
+ * Events and recordings with the same session ID form one session. Events without
+ * a `$session_id` join a session of the same user that is active at the time, and
+ * are otherwise grouped by user until the user is inactive for the session timeout.
+ *
+ * @param events PostHog events, in any order
+ * @param recordings Recorded sessions; only their IDs, users and time ranges are used
+ * @param timeoutMs Inactivity after which a session is considered over
+ * @returns Sessions in order of their start time, each with its events in chronological order
+ */
+export function buildSessions(
+  events: PostHogEvent[],
+  recordings: ProcessedRRwebData[] = [],
+  timeoutMs: number = getConfig().posthog.sessionTimeoutMs
+): Session[] {
+  const sortedEvents = events
+    .map(event => ({ event, time: getEventTime(event) }))
+    .sort((a, b) => a.time - b.time);
+  const sessionsById = new Map<string, Session>();
+  const unidentified: { event: PostHogEvent; time: number }[] = [];
+  
+  // Events that name their session
+  for (const { event, time } of sortedEvents) {
+    const sessionId: string | undefined = event.properties?.$session_id;
+    if (!sessionId) {
+      unidentified.push({ event, time });
+      continue;
+    }
+    
+    let session = sessionsById.get(sessionId);
+    if (!session) {
+      session = { id: sessionId, grouping: 'id', distinctId: event.distinct_id, events: [], startTime: time, endTime: time };
+      sessionsById.set(sessionId, session);
+    }
+    addEvent(session, event, time);
+  }
+  
+  // Recordings share the session ID of the events recorded with them
+  for (const recording of recordings) {
+    const { startTime, endTime, userId } = recording.metadata;
+    const session = sessionsById.get(recording.sessionId);
+    
+    if (session) {
+      session.recording = recording;
+      session.startTime = Math.min(session.startTime, startTime);
+      session.endTime = Math.max(session.endTime, endTime);
+    } else {
+      sessionsById.set(recording.sessionId, {
+        id: recording.sessionId,
+        grouping: 'id',
+        distinctId: userId,
+        events: [],
+        recording,
+        startTime,
+        endTime
+      });
+    }
+  }
+  
+  // Events without a session ID
+  const identified = Array.from(sessionsById.values());
+  const joined = new Set<Session>();
+  const inferred: Session[] = [];
+  const openByUser = new Map<string, Session>();
+  
+  for (const { event, time } of unidentified) {
+    const match = findSessionAround(identified, event, time, timeoutMs);
+    if (match) {
+      addEvent(match, event, time);
+      joined.add(match);
+      continue;
+    }
+    
+    // A user's other events stay together until the user is inactive for the timeout
+    let session = openByUser.get(event.distinct_id);
+    if (!session || time - session.endTime >= timeoutMs) {
+      session = { id: `${event.distinct_id}_${time}`, grouping: 'inactivity', distinctId: event.distinct_id, events: [], startTime: time, endTime: time };
+      openByUser.set(event.distinct_id, session);
+      inferred.push(session);
+    }
+    addEvent(session, event, time);
+  }
+  
+  // Joined events were appended after the session's own events
+  for (const session of joined) {
+    session.events.sort((a, b) => getEventTime(a) - getEventTime(b));
+  }
+  
+  return [...identified, ...inferred].sort((a, b) => a.startTime - b.startTime);
+}
+
+/**
+ * Map each event to the session it was placed in
+ * @param sessions Sessions from buildSessions
+ * @returns Session ID of each event
+ */
+export function getSessionIdsByEvent(sessions: Session[]): Map<PostHogEvent, string> {
+  const sessionIds = new Map<PostHogEvent, string>();
+  for (const session of sessions) {
+    for (const event of session.events) {
+      sessionIds.set(event, session.id);
+    }
+  }
+  return sessionIds;
+}
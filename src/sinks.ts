@@ -0,0 +1,617 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import dotenv from 'dotenv';
+import { DetectedIssue } from './posthog';
+import { mapSeverityToPriority } from './ai';
+import { ScreenshotRecord } from './screenshot';
+import { IssueSpotterConfig, getConfig } from './config';
+import { createRedactor, saveRedactionReport } from './redaction';
+
+// Load environment variables
+dotenv.config();
+
+// Constants
+const DEFAULT_GITHUB_API_URL = 'https://api.github.com';
+const DEFAULT_LINEAR_API_URL = 'https://api.linear.app/graphql';
+const DEFAULT_JIRA_ISSUE_TYPE = 'Bug';
+const DEFAULT_EVIDENCE_PATH = 'ux-evidence';
+const MAX_EVIDENCE_SCREENSHOTS = 3;
+const EVIDENCE_HASH_LENGTH = 12;
+const ISSUE_LABEL = 'ux-issue';
+
+// Create a simple logger
+const logger = {
+  info: (message: string) => console.error(`[INFO] ${message}`),
+  warn: (message: string) => console.warn(`[WARN] ${message}`),
+  error: (message: string, error?: unknown) => {
+    console.error(`[ERROR] ${message}`);
+    if (error) {
+      if (error instanceof Error) {
+        console.error(`       ${error.message}`);
+      } else {
+        console.error(`       ${String(error)}`);
+      }
+    }
+  }
+};
+
+/**
+ * A drafted ticket ready to be filed in an issue tracker
+ */
+export interface TicketDraft {
+  /** The issue to file */
+  issue: DetectedIssue;
+  /** Issue store fingerprint, used to correlate tickets across runs */
+  fingerprint?: string;
+  /** Screenshot files to attach as evidence */
+  screenshotPaths: string[];
+  /** Names of the sinks the ticket was already filed in, which skip it */
+  filedIn?: string[];
+}
+
+/**
+ * Outcome of filing a ticket with a sink
+ */
+export interface TicketSinkResult {
+  /** Name of the sink that handled the ticket */
+  sink: string;
+  /** Title of the filed issue */
+  title: string;
+  /** Tracker identifier of the created ticket (e.g. issue number or key) */
+  id?: string;
+  /** Link to the created ticket */
+  url?: string;
+  /** True when the request was only logged, not sent */
+  dryRun: boolean;
+  /** Issue store fingerprint of the ticket */
+  fingerprint?: string;
+}
+
+/**
+ * A destination that drafted tickets can be filed in
+ */
+export interface TicketSink {
+  /** Human-readable sink name used in logs */
+  name: string;
+  /**
+   * File a ticket
+   * @param ticket Ticket to file
+   * @returns Details of the created ticket
+   */
+  createTicket(ticket: TicketDraft): Promise<TicketSinkResult>;
+}
+
+/**
+ * Options shared by all sinks
+ */
+interface BaseSinkOptions {
+  /** Log the request that would be sent instead of sending it */
+  dryRun?: boolean;
+}
+
+/**
+ * Options for the GitHub Issues sink
+ */
+export interface GitHubSinkOptions extends BaseSinkOptions {
+  /** Personal access token or app token with issues:write */
+  token: string;
+  /** Repository in owner/name form */
+  repository: string;
+  /** API base URL, override for GitHub Enterprise or a local stand-in */
+  apiUrl?: string;
+  /** Branch to commit screenshots to; screenshots are only listed by name when omitted */
+  evidenceBranch?: string;
+  /** Directory in the repository that screenshots are committed under */
+  evidencePath?: string;
+}
+
+/**
+ * Options for the Jira sink
+ */
+export interface JiraSinkOptions extends BaseSinkOptions {
+  /** Jira site URL, e.g. https://example.atlassian.net */
+  baseUrl: string;
+  /** Account email used for basic auth */
+  email: string;
+  /** API token used for basic auth */
+  apiToken: string;
+  /** Key of the project tickets are created in */
+  projectKey: string;
+  /** Issue type name, defaults to Bug */
+  issueType?: string;
+}
+
+/**
+ * Options for the Linear sink
+ */
+export interface LinearSinkOptions extends BaseSinkOptions {
+  /** Linear API key */
+  apiKey: string;
+  /** ID of the team tickets are created in */
+  teamId: string;
+  /** GraphQL endpoint, override for a local stand-in */
+  apiUrl?: string;
+}
+
+/**
+ * Options for the generic JSON webhook sink
+ */
+export interface WebhookSinkOptions extends BaseSinkOptions {
+  /** URL the ticket payload is POSTed to */
+  url: string;
+  /** Extra headers, e.g. for authentication */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Render a ticket as Markdown for trackers that accept it
+ * @param issue Issue to render
+ * @param fingerprint Issue store fingerprint
+ * @param evidence Markdown lines describing the attached screenshots
+ * @returns Markdown body
+ */
+function renderMarkdownBody(issue: DetectedIssue, fingerprint?: string, evidence: string[] = []): string {
+  const sections = [
+    issue.description.trim(),
+    `**Priority:** ${mapSeverityToPriority(issue.severity)}`,
+    `**Affected Page:** ${issue.pageUrl || 'N/A'}`,
+    `**Element:** ${issue.elementSelector ? `\`${issue.elementSelector}\`` : 'N/A'}`
+  ];
+  
+  if (issue.sessionCount) {
+    sections.push(`**Sessions:** ${issue.sessionCount} (e.g. ${(issue.exampleSessionIds || []).map(id => `\`${id}\``).join(', ')})`);
+  }
+  
+  if (issue.visualAnalysis) {
+    sections.push(`### Visual Analysis\n${issue.visualAnalysis}`);
+  }
+  if (issue.suggestedFix) {
+    sections.push(`### Suggested Fix\n${issue.suggestedFix}`);
+  }
+  if (evidence.length > 0) {
+    sections.push(`### Evidence\n${evidence.join('\n')}`);
+  }
+  if (fingerprint) {
+    sections.push(`<sub>Drafted by AI Issue Spotter · fingerprint \`${fingerprint}\`</sub>`);
+  }
+  
+  return sections.join('\n\n');
+}
+
+/**
+ * Log the request a sink would have sent and build a dry-run result
+ * @param sink Sink name
+ * @param title Ticket title
+ * @param request Request description to log
+ * @returns Dry-run result
+ */
+function dryRunResult(sink: string, title: string, request: Record<string, any>): TicketSinkResult {
+  logger.info(`[dry-run] ${sink} would send:\n${JSON.stringify(request, null, 2)}`);
+  return { sink, title, dryRun: true };
+}
+
+/**
+ * Create a sink that files tickets as GitHub Issues
+ *
+ * GitHub has no API for attaching files to issues, so when an evidence branch is
+ * configured the screenshots are committed there and embedded by URL. Each file
+ * is named after a hash of its content, so a screenshot that is already on the
+ * branch is reused rather than overwritten.
+ *
+ * @param options GitHub sink options
+ * @returns GitHub ticket sink
+ */
+export function createGitHubSink(options: GitHubSinkOptions): TicketSink {
+  const apiUrl = (options.apiUrl || DEFAULT_GITHUB_API_URL).replace(/\/+$/, '');
+  const headers = {
+    'Authorization': `Bearer ${options.token}`,
+    'Accept': 'application/vnd.github+json'
+  };
+  
+  async function uploadEvidence(screenshotPath: string): Promise<string> {
+    const filename = path.basename(screenshotPath);
+    const content = fs.readFileSync(screenshotPath);
+    const hash = crypto.createHash('sha256').update(content).digest('hex').substring(0, EVIDENCE_HASH_LENGTH);
+    const contentsUrl = `${apiUrl}/repos/${options.repository}/contents/${options.evidencePath || DEFAULT_EVIDENCE_PATH}/${hash}-${filename}`;
+    
+    try {
+      const response = await axios.put(
+        contentsUrl,
+        { message: `Add UX evidence ${filename}`, content: content.toString('base64'), branch: options.evidenceBranch },
+        { headers }
+      );
+      return `![${filename}](${response.data?.content?.download_url})`;
+    } catch (error) {
+      // GitHub answers 422 when the path exists, which here means the same screenshot was uploaded before
+      if (!axios.isAxiosError(error) || error.response?.status !== 422) {
+        throw error;
+      }
+      
+      const existing = await axios.get(contentsUrl, { headers, params: { ref: options.evidenceBranch } });
+      return `![${filename}](${existing.data?.download_url})`;
+    }
+  }
+  
+  return {
+    name: 'github',
+    async createTicket(ticket: TicketDraft): Promise<TicketSinkResult> {
+      const { issue } = ticket;
+      const labels = [ISSUE_LABEL, `priority: ${mapSeverityToPriority(issue.severity)}`];
+      
+      if (options.dryRun) {
+        return dryRunResult('github', issue.title, {
+          method: 'POST',
+          url: `${apiUrl}/repos/${options.repository}/issues`,
+          body: { title: issue.title, labels, body: renderMarkdownBody(issue, ticket.fingerprint) },
+          attachments: ticket.screenshotPaths
+        });
+      }
+      
+      const evidence: string[] = [];
+      for (const screenshotPath of ticket.screenshotPaths) {
+        if (!options.evidenceBranch) {
+          evidence.push(`- \`${path.relative(process.cwd(), screenshotPath)}\``);
+          continue;
+        }
+        
+        try {
+          evidence.push(await uploadEvidence(screenshotPath));
+        } catch (error) {
+          logger.error(`Failed to upload screenshot ${screenshotPath} to GitHub`, error);
+        }
+      }
+      
+      const response = await axios.post(
+        `${apiUrl}/repos/${options.repository}/issues`,
+        { title: issue.title, body: renderMarkdownBody(issue, ticket.fingerprint, evidence), labels },
+        { headers }
+      );
+      
+      return {
+        sink: 'github',
+        title: issue.title,
+        id: String(response.data.number),
+        url: response.data.html_url,
+        dryRun: false
+      };
+    }
+  };
+}
+
+/**
+ * Create a sink that files tickets in Jira and attaches screenshots to them
+ * @param options Jira sink options
+ * @returns Jira ticket sink
+ */
+export function createJiraSink(options: JiraSinkOptions): TicketSink {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const auth = { username: options.email, password: options.apiToken };
+  
+  return {
+    name: 'jira',
+    async createTicket(ticket: TicketDraft): Promise<TicketSinkResult> {
+      const { issue } = ticket;
+      const fields = {
+        project: { key: options.projectKey },
+        summary: issue.title,
+        // API v2 accepts wiki-style plain text, so the Markdown body is sent as-is
+        description: renderMarkdownBody(issue, ticket.fingerprint),
+        issuetype: { name: options.issueType || DEFAULT_JIRA_ISSUE_TYPE },
+        priority: { name: mapSeverityToPriority(issue.severity) },
+        labels: [ISSUE_LABEL]
+      };
+      
+      if (options.dryRun) {
+        return dryRunResult('jira', issue.title, {
+          method: 'POST',
+          url: `${baseUrl}/rest/api/2/issue`,
+          body: { fields },
+          attachments: ticket.screenshotPaths
+        });
+      }
+      
+      const response = await axios.post(`${baseUrl}/rest/api/2/issue`, { fields }, { auth });
+      const key: string = response.data.key;
+      
+      for (const screenshotPath of ticket.screenshotPaths) {
+        try {
+          const form = new FormData();
+          form.append('file', new Blob([fs.readFileSync(screenshotPath)], { type: 'image/png' }), path.basename(screenshotPath));
+          
+          await axios.post(`${baseUrl}/rest/api/2/issue/${key}/attachments`, form, {
+            auth,
+            headers: { 'X-Atlassian-Token': 'no-check' }
+          });
+        } catch (error) {
+          logger.error(`Failed to attach screenshot ${screenshotPath} to ${key}`, error);
+        }
+      }
+      
+      return { sink: 'jira', title: issue.title, id: key, url: `${baseUrl}/browse/${key}`, dryRun: false };
+    }
+  };
+}
+
+/**
+ * Linear priority values keyed by the priority names from mapSeverityToPriority
+ */
+const LINEAR_PRIORITIES: Record<string, number> = {
+  'Urgent': 1,
+  'High': 2,
+  'Medium': 3,
+  'Low': 4
+};
+
+/**
+ * Create a sink that files tickets in Linear, uploading screenshots as embedded assets
+ * @param options Linear sink options
+ * @returns Linear ticket sink
+ */
+export function createLinearSink(options: LinearSinkOptions): TicketSink {
+  const apiUrl = options.apiUrl || DEFAULT_LINEAR_API_URL;
+  
+  async function graphql(query: string, variables: Record<string, any>): Promise<any> {
+    const response = await axios.post(apiUrl, { query, variables }, {
+      headers: { 'Authorization': options.apiKey, 'Content-Type': 'application/json' }
+    });
+    
+    if (response.data.errors?.length) {
+      throw new Error(`Linear API error: ${response.data.errors.map((e: any) => e.message).join('; ')}`);
+    }
+    return response.data.data;
+  }
+  
+  async function uploadEvidence(screenshotPath: string): Promise<string> {
+    const filename = path.basename(screenshotPath);
+    const content = fs.readFileSync(screenshotPath);
+    
+    const data = await graphql(
+      `mutation FileUpload($contentType: String!, $filename: String!, $size: Int!) {
+        fileUpload(contentType: $contentType, filename: $filename, size: $size) {
+          success
+          uploadFile { uploadUrl assetUrl headers { key value } }
+        }
+      }`,
+      { contentType: 'image/png', filename, size: content.length }
+    );
+    
+    const uploadFile = data.fileUpload.uploadFile;
+    const uploadHeaders: Record<string, string> = { 'Content-Type': 'image/png', 'Cache-Control': 'public, max-age=31536000' };
+    for (const header of uploadFile.headers || []) {
+      uploadHeaders[header.key] = header.value;
+    }
+    
+    await axios.put(uploadFile.uploadUrl, content, { headers: uploadHeaders });
+    return `![${filename}](${uploadFile.assetUrl})`;
+  }
+  
+  return {
+    name: 'linear',
+    async createTicket(ticket: TicketDraft): Promise<TicketSinkResult> {
+      const { issue } = ticket;
+      const priority = LINEAR_PRIORITIES[mapSeverityToPriority(issue.severity)];
+      
+      if (options.dryRun) {
+        return dryRunResult('linear', issue.title, {
+          method: 'POST',
+          url: apiUrl,
+          mutation: 'issueCreate',
+          input: { teamId: options.teamId, title: issue.title, priority, description: renderMarkdownBody(issue, ticket.fingerprint) },
+          attachments: ticket.screenshotPaths
+        });
+      }
+      
+      const evidence: string[] = [];
+      for (const screenshotPath of ticket.screenshotPaths) {
+        try {
+          evidence.push(await uploadEvidence(screenshotPath));
+        } catch (error) {
+          logger.error(`Failed to upload screenshot ${screenshotPath} to Linear`, error);
+        }
+      }
+      
+      const data = await graphql(
+        `mutation IssueCreate($input: IssueCreateInput!) {
+          issueCreate(input: $input) { success issue { id identifier url } }
+        }`,
+        {
+          input: {
+            teamId: options.teamId,
+            title: issue.title,
+            priority,
+            description: renderMarkdownBody(issue, ticket.fingerprint, evidence)
+          }
+        }
+      );
+      
+      if (!data.issueCreate.success) {
+        throw new Error(`Linear did not create the issue "${issue.title}" in team ${options.teamId}`);
+      }
+      
+      const created = data.issueCreate.issue;
+      return { sink: 'linear', title: issue.title, id: created?.identifier, url: created?.url, dryRun: false };
+    }
+  };
+}
+
+/**
+ * Create a sink that POSTs each ticket as JSON, with screenshots inlined as base64
+ * @param options Webhook sink options
+ * @returns Webhook ticket sink
+ */
+export function createWebhookSink(options: WebhookSinkOptions): TicketSink {
+  return {
+    name: 'webhook',
+    async createTicket(ticket: TicketDraft): Promise<TicketSinkResult> {
+      const { issue } = ticket;
+      const payload = {
+        issue,
+        priority: mapSeverityToPriority(issue.severity),
+        fingerprint: ticket.fingerprint,
+        screenshots: ticket.screenshotPaths.map(screenshotPath => ({
+          filename: path.basename(screenshotPath),
+          contentType: 'image/png',
+          data: options.dryRun ? '<omitted in dry run>' : fs.readFileSync(screenshotPath).toString('base64')
+        }))
+      };
+      
+      if (options.dryRun) {
+        return dryRunResult('webhook', issue.title, { method: 'POST', url: options.url, body: payload });
+      }
+      
+      const response = await axios.post(options.url, payload, { headers: options.headers });
+      
+      return {
+        sink: 'webhook',
+        title: issue.title,
+        id: response.data?.id !== undefined ? String(response.data.id) : undefined,
+        url: response.data?.url,
+        dryRun: false
+      };
+    }
+  };
+}
+
+/**
+ * Environment variables holding the credentials of each sink; the webhook secret is optional
+ */
+export const SINK_TOKEN_ENV_VARS: Record<IssueSpotterConfig['sinks']['enabled'][number], string[]> = {
+  github: ['GITHUB_TOKEN'],
+  jira: ['JIRA_API_TOKEN'],
+  linear: ['LINEAR_API_KEY'],
+  webhook: []
+};
+
+/**
+ * Read a sink's credential from the environment
+ * @param name Environment variable
+ * @param sink Sink that needs it
+ * @returns The credential
+ * @throws Error if the variable is not set
+ */
+function requireToken(name: string, sink: string): string {
+  const token = process.env[name];
+  if (!token) {
+    throw new Error(`The ${sink} sink is enabled but ${name} is not set`);
+  }
+  return token;
+}
+
+/**
+ * Build the sinks enabled in the configuration
+ *
+ * Settings come from the `sinks` section of the configuration, which already
+ * checked that each enabled sink has what it needs, and only the credentials are
+ * read from the environment.
+ *
+ * @returns Configured ticket sinks
+ * @throws Error if an enabled sink's credentials are missing
+ */
+export function createSinksFromConfig(): TicketSink[] {
+  const { enabled, dryRun, github, jira, linear, webhook } = getConfig().sinks;
+  
+  return enabled.map(name => {
+    switch (name) {
+      case 'github':
+        return createGitHubSink({
+          token: requireToken('GITHUB_TOKEN', name),
+          repository: github.repository!,
+          apiUrl: github.apiUrl,
+          evidenceBranch: github.evidenceBranch,
+          dryRun
+        });
+      
+      case 'jira':
+        return createJiraSink({
+          baseUrl: jira.baseUrl!,
+          email: jira.email!,
+          apiToken: requireToken('JIRA_API_TOKEN', name),
+          projectKey: jira.projectKey!,
+          issueType: jira.issueType,
+          dryRun
+        });
+      
+      case 'linear':
+        return createLinearSink({
+          apiKey: requireToken('LINEAR_API_KEY', name),
+          teamId: linear.teamId!,
+          apiUrl: linear.apiUrl,
+          dryRun
+        });
+      
+      case 'webhook':
+        return createWebhookSink({
+          url: webhook.url!,
+          headers: process.env.TICKET_WEBHOOK_SECRET
+            ? { 'Authorization': `Bearer ${process.env.TICKET_WEBHOOK_SECRET}` }
+            : undefined,
+          dryRun
+        });
+    }
+  });
+}
+
+/**
+ * Pick the screenshots that best support an issue
+ *
+ * Only screenshots that highlight the issue's element, or come from sessions the issue
+ * cites in its description or example sessions, are attached; a screenshot of another
+ * problem would mislead whoever picks up the ticket.
+ *
+ * @param issue Issue to find evidence for
+ * @param screenshots Screenshots captured in this run
+ * @returns Screenshot paths to attach, empty when none supports the issue
+ */
+export function selectEvidenceScreenshots(issue: DetectedIssue, screenshots: ScreenshotRecord[]): string[] {
+  const text = `${issue.description} ${issue.visualAnalysis || ''}`;
+  const cited = screenshots.filter(screenshot =>
+    (issue.elementSelector && screenshot.elementSelector === issue.elementSelector) ||
+    text.includes(screenshot.sessionId) ||
+    issue.exampleSessionIds?.includes(screenshot.sessionId)
+  );
+  
+  return cited
+    .slice(0, MAX_EVIDENCE_SCREENSHOTS)
+    .map(screenshot => screenshot.path);
+}
+
+/**
+ * File tickets in every configured sink, continuing past individual failures
+ * 
+ * Personal data in the issue text, such as an email address quoted from an event,
+ * is masked before any sink sees the ticket.
+ * 
+ * @param tickets Tickets to file
+ * @param sinks Sinks to file them in, skipping those a ticket was already filed in
+ * @returns Results for the tickets that were filed successfully
+ */
+export async function publishTickets(tickets: TicketDraft[], sinks: TicketSink[]): Promise<TicketSinkResult[]> {
+  const results: TicketSinkResult[] = [];
+  
+  const redactor = createRedactor('ticket sinks');
+  const redactedTickets = tickets.map(ticket => ({ ...ticket, issue: redactor.redactValue(ticket.issue) }));
+  if (getConfig().redaction.enabled) {
+    saveRedactionReport(redactor.getReport());
+  }
+  
+  for (const sink of sinks) {
+    for (const ticket of redactedTickets) {
+      if (ticket.filedIn?.includes(sink.name)) continue;
+      
+      try {
+        const result = { ...await sink.createTicket(ticket), fingerprint: ticket.fingerprint };
+        results.push(result);
+        
+        if (!result.dryRun) {
+          logger.info(`Filed "${result.title}" in ${sink.name}${result.url ? `: ${result.url}` : ''}`);
+        }
+      } catch (error) {
+        logger.error(`Failed to file "${ticket.issue.title}" in ${sink.name}`, error);
+      }
+    }
+  }
+  
+  return results;
+}
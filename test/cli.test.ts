@@ -0,0 +1,52 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCliArgs, parseTimeArgument } from '../src/cli';
+
+// Constants
+const NOW = new Date('2025-03-01T12:00:00.000Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('command-line interface', () => {
+  test('runs watch without a command and dispatches the subcommands', () => {
+    assert.equal(parseCliArgs([]).command, 'watch');
+    assert.equal(parseCliArgs(['analyze']).command, 'analyze');
+    assert.equal(parseCliArgs(['doctor', '--help']).command, 'help');
+    const inspect = parseCliArgs(['inspect-rrweb', 'recordings/']);
+    assert.equal(inspect.command, 'inspect-rrweb');
+    assert.equal(inspect.file, 'recordings/');
+    assert.throws(() => parseCliArgs(['screenshots']), /The screenshots command needs a recording file or directory/);
+    assert.throws(() => parseCliArgs(['report']), /Unknown command "report"/);
+  });
+
+  test('rejects unknown flags and invalid values', () => {
+    assert.throws(() => parseCliArgs(['analyze', '--since', '24h']), /Unknown option '--since'/);
+    assert.throws(() => parseCliArgs(['analyze', '--format', 'yaml']), /Invalid value for --format: "yaml"/);
+    assert.throws(() => parseCliArgs(['watch', '--interval', '0']), /Invalid value for --interval: "0"/);
+  });
+
+  test('reads relative and ISO times', () => {
+    assert.equal(parseTimeArgument('30m', 'after', NOW).toISOString(), '2025-03-01T11:30:00.000Z');
+    assert.equal(parseTimeArgument('24h', 'after', NOW).getTime(), NOW.getTime() - 24 * HOUR_MS);
+    assert.equal(parseTimeArgument('7d', 'after', NOW).toISOString(), '2025-02-22T12:00:00.000Z');
+    assert.equal(parseTimeArgument('2025-02-01T08:00:00Z', 'before', NOW).toISOString(), '2025-02-01T08:00:00.000Z');
+    assert.throws(() => parseTimeArgument('yesterday', 'before', NOW), /Invalid value for --before: "yesterday"/);
+
+    const options = parseCliArgs(['analyze', '--after', '2025-02-01T00:00:00Z', '--before', '2025-02-02T00:00:00Z']);
+    assert.equal(options.after?.toISOString(), '2025-02-01T00:00:00.000Z');
+    assert.equal(options.before?.toISOString(), '2025-02-02T00:00:00.000Z');
+    assert.throws(
+      () => parseCliArgs(['analyze', '--after', '2025-02-02T00:00:00Z', '--before', '2025-02-01T00:00:00Z']),
+      /--after must be earlier than --before/
+    );
+  });
+
+  test('overrides the screenshot and analysis mode settings only when given', () => {
+    assert.equal(parseCliArgs(['analyze']).screenshots, undefined);
+    assert.equal(parseCliArgs(['analyze', '--screenshots']).screenshots, true);
+    assert.equal(parseCliArgs(['analyze', '--no-screenshots']).screenshots, false);
+
+    assert.equal(parseCliArgs(['analyze']).analysisMode, undefined);
+    assert.equal(parseCliArgs(['analyze', '--mode', 'rules']).analysisMode, 'rules');
+    assert.throws(() => parseCliArgs(['analyze', '--mode', 'fast']), /Invalid value for --mode: "fast" \(expected llm, rules, hybrid\)/);
+  });
+});
@@ -0,0 +1,77 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadConfig } from '../src/config';
+
+describe('config', () => {
+  let tempDir: string;
+  let configPath: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'issue-spotter-config-'));
+    configPath = path.join(tempDir, 'issue-spotter.config.json');
+    fs.writeFileSync(configPath, JSON.stringify({
+      checkIntervalMinutes: 30,
+      analysisMode: 'hybrid',
+      detectors: { rageClick: { minClicks: 4 } },
+      profiles: {
+        ci: { checkIntervalMinutes: 5, detectors: { rageClick: { minClicks: 6 } } }
+      }
+    }));
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('layers defaults, the config file, the profile and the environment in that order', () => {
+    const fromFile = loadConfig({ configPath, env: {} });
+    assert.equal(fromFile.checkIntervalMinutes, 30);
+    assert.equal(fromFile.analysisMode, 'hybrid');
+    assert.equal(fromFile.detectors.rageClick.minClicks, 4);
+    assert.equal(fromFile.detectors.rageClick.maxIntervalMs, 1000);
+
+    const fromProfile = loadConfig({ configPath, profile: 'ci', env: {} });
+    assert.equal(fromProfile.checkIntervalMinutes, 5);
+    assert.equal(fromProfile.analysisMode, 'hybrid');
+    assert.equal(fromProfile.detectors.rageClick.minClicks, 6);
+
+    const fromEnv = loadConfig({
+      configPath,
+      env: {
+        ISSUE_SPOTTER_PROFILE: 'ci',
+        CHECK_INTERVAL_MINUTES: '2',
+        ISSUE_SPOTTER__DETECTORS__RAGE_CLICK__MIN_CLICKS: '8'
+      }
+    });
+    assert.equal(fromEnv.checkIntervalMinutes, 2);
+    assert.equal(fromEnv.detectors.rageClick.minClicks, 8);
+  });
+
+  test('rejects a profile the config file does not define', () => {
+    assert.throws(
+      () => loadConfig({ configPath, profile: 'staging', env: {} }),
+      /Profile "staging" is not defined in .* \(available profiles: ci\)/
+    );
+  });
+
+  test('reports every invalid setting together', () => {
+    assert.throws(
+      () => loadConfig({ configPath, env: { ANALYSIS_MODE: 'fast', MAX_EVENTS_TO_ANALYZE: 'ten' } }),
+      (error: Error) => {
+        assert.match(error.message, /ANALYSIS_MODE \(analysisMode\) expected one of "llm", "rules", "hybrid", got "fast"/);
+        assert.match(error.message, /MAX_EVENTS_TO_ANALYZE \(posthog\.maxEvents\) expected an integer/);
+        return true;
+      }
+    );
+  });
+
+  test('accepts an event cap below the default page size', () => {
+    const config = loadConfig({ configPath, env: { MAX_EVENTS_TO_ANALYZE: '50' } });
+
+    assert.equal(config.posthog.maxEvents, 50);
+    assert.equal(config.posthog.pageSize, 100);
+  });
+});
@@ -0,0 +1,86 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { analyzeEventsAndDraftTickets } from '../src/ai';
+import { initConfig } from '../src/config';
+import { OmittedContext, createTokenBudget, describeOmittedContext, estimateImageTokens, estimateTextTokens } from '../src/contextBudget';
+import { createFakeProvider } from '../src/llm';
+import { PostHogEvent } from '../src/posthog';
+import { DEFAULT_START_TIME } from './sessionBuilder';
+
+// Constants
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const PROMPT_TOKENS = 4000;
+
+/**
+ * Create the events of a session, clicks on one button a second apart
+ * @param sessionId Session ID
+ * @param count Number of events
+ * @param event Event name
+ * @returns The events
+ */
+function createSessionEvents(sessionId: string, count: number, event: string = '$autocapture'): PostHogEvent[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `${sessionId}-${i}`,
+    event,
+    distinct_id: `user-${sessionId}`,
+    timestamp: new Date(DEFAULT_START_TIME + i * 1000).toISOString(),
+    properties: {
+      $session_id: sessionId,
+      $current_url: `https://shop.example.com/${sessionId}`,
+      $el_text: 'Continue',
+      $el_selector: 'button.continue'
+    }
+  }));
+}
+
+describe('context budget', () => {
+  before(() => {
+    initConfig({
+      configPath: path.join(FIXTURES_DIR, 'config.json'),
+      env: { LLM_MAX_PROMPT_TOKENS: String(PROMPT_TOKENS), LLM_STRATEGY: 'single', REDACTION_ENABLED: 'false' }
+    });
+  });
+
+  test('estimates text by length and images by the costlier provider', () => {
+    assert.equal(estimateTextTokens('a'.repeat(401)), 101);
+    assert.equal(estimateImageTokens({ width: 1280, height: 800 }), 1366);
+    assert.equal(estimateImageTokens({ width: 512, height: 512 }), 350);
+    assert.equal(estimateImageTokens({ width: 0, height: 800 }), 0);
+  });
+
+  test('takes tokens only while they fit and describes what was left out', () => {
+    const budget = createTokenBudget(100);
+    assert.equal(budget.tryTake(80), true);
+    assert.equal(budget.tryTake(30), false);
+    budget.take(30);
+    assert.equal(budget.used(), 110);
+
+    const omitted: OmittedContext[] = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => ({ kind: 'session', id, reason: 'budget', tokens: 10 }));
+    omitted.push({ kind: 'session', id: 'g', reason: 'limit', tokens: 5 });
+    assert.equal(
+      describeOmittedContext(omitted, 100),
+      '7 lower-ranked session(s) left out (6 did not fit in the 100-token budget, 1 were over the count limit; about 65 tokens): a, b, c, d, e and 2 more'
+    );
+    assert.equal(describeOmittedContext([], 100), '');
+  });
+
+  test('packs the most valuable sessions into the budget without cutting the event JSON', async () => {
+    const quietSessions = Array.from({ length: 20 }, (_, i) => createSessionEvents(`quiet-${i}`, 10));
+    const rageSession = createSessionEvents('rage', 3, '$rageclick');
+    const provider = createFakeProvider();
+
+    await analyzeEventsAndDraftTickets([...quietSessions.flat(), ...rageSession], { sessions: [], keyMoments: [], screenshots: [] }, provider);
+
+    const [, user] = provider.requests[0].messages;
+    const text = (user.content as { type: string; text: string }[]).map(part => part.text).join('\n');
+    const eventJson = JSON.parse(text.match(/```json\n([\s\S]*?)\n```/)![1]);
+    const selectedSessions = Number(text.match(/Selected Sessions: (\d+)/)![1]);
+
+    assert.ok(selectedSessions > 1 && selectedSessions < 21);
+    assert.equal(eventJson.length, 3 + (selectedSessions - 1) * 10);
+    assert.equal(eventJson[0].event, '$rageclick');
+    assert.match(text, new RegExp(`## Omitted Context\\n[^\\n]*\\n${21 - selectedSessions} lower-ranked session\\(s\\) left out \\(${21 - selectedSessions} did not fit in the ${PROMPT_TOKENS}-token budget;`));
+    assert.ok(estimateTextTokens(text) < PROMPT_TOKENS);
+  });
+});
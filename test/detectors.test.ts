@@ -0,0 +1,84 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { getConfig, initConfig } from '../src/config';
+import { Detector, createDetectorRegistry, createDetectorRegistryFromConfig, loadCustomDetectors } from '../src/detectors';
+import { extractKeyMoments, processRRwebExport } from '../src/rrweb';
+import { ElementTarget, toRRwebExport, createSessionBuilder } from './sessionBuilder';
+
+// Constants
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const MODAL_DETECTOR_PATH = path.join(FIXTURES_DIR, 'modalReopenedDetector.ts');
+const HELP_LINK: ElementTarget = { tagName: 'A', id: 'help', attributes: { 'data-modal': 'help' }, textContent: 'Help' };
+
+/**
+ * Build a session in which the help modal is opened three times
+ * @returns Processed sessions
+ */
+function buildModalSession() {
+  const session = createSessionBuilder({ sessionId: 'modal' })
+    .visit('https://shop.example.com/checkout')
+    .wait(2000).click(HELP_LINK, 40, 20)
+    .wait(4000).click(HELP_LINK, 40, 20)
+    .wait(4000).click(HELP_LINK, 40, 20)
+    .wait(12000).mouseMove(10, 10);
+
+  return processRRwebExport(toRRwebExport(session));
+}
+
+describe('detector registry', () => {
+  before(() => {
+    initConfig({ configPath: path.join(FIXTURES_DIR, 'config.json'), env: {} });
+  });
+
+  test('disabled built-ins are not run', () => {
+    const registry = createDetectorRegistry();
+    registry.setEnabled('SessionMetrics', false);
+
+    const enabled = registry.getEnabled().map(detector => detector.name);
+    assert.ok(!enabled.includes('SessionMetrics'));
+    assert.ok(enabled.includes('RageClick'));
+
+    const moments = extractKeyMoments(buildModalSession(), getConfig().detectors, registry.getEnabled());
+    assert.ok(moments.every(moment => moment.type !== 'SessionMetrics'));
+  });
+
+  test('unknown and duplicate names are rejected', () => {
+    const registry = createDetectorRegistry();
+    assert.throws(() => registry.setEnabled('RageClicks', false), /Unknown detector "RageClicks"/);
+    assert.throws(() => registry.register({ name: 'RageClick', detect: () => [] }), /already registered/);
+  });
+
+  test('custom detectors are loaded from the configured modules', () => {
+    const registry = createDetectorRegistryFromConfig({
+      disabledDetectors: ['SessionMetrics', 'ShortSession'],
+      customDetectors: [MODAL_DETECTOR_PATH]
+    });
+
+    assert.deepEqual(registry.list().filter(entry => !entry.builtIn), [{ name: 'ModalReopened', enabled: true, builtIn: false }]);
+
+    const moments = extractKeyMoments(buildModalSession(), getConfig().detectors, registry.getEnabled());
+    const custom = moments.filter(moment => moment.type === 'Custom');
+    assert.equal(custom.length, 1);
+    assert.deepEqual(custom[0].type === 'Custom' && custom[0].details, { modal: 'help', openCount: 3 });
+    assert.equal(custom[0].url, 'https://shop.example.com/checkout');
+  });
+
+  test('modules without a detector are rejected', () => {
+    assert.throws(() => loadCustomDetectors(path.join(FIXTURES_DIR, 'config.json')), /is not a detector/);
+  });
+
+  test('a failing detector does not stop the others', () => {
+    const failing: Detector = {
+      name: 'Failing',
+      detect: () => {
+        throw new Error('boom');
+      }
+    };
+    const registry = createDetectorRegistry();
+    registry.register(failing);
+
+    const moments = extractKeyMoments(buildModalSession(), getConfig().detectors, registry.getEnabled());
+    assert.ok(moments.some(moment => moment.type === 'SessionMetrics'));
+  });
+});
@@ -0,0 +1,42 @@
+import { Detector } from '../../src/detectors';
+import { KeyMoment } from '../../src/rrweb';
+
+// Opens of the same modal that count as a frustration signal
+const MIN_OPENS = 3;
+
+/**
+ * Custom detector for tests: the same modal opened three times in a session
+ */
+const modalReopenedDetector: Detector = {
+  name: 'ModalReopened',
+  detect({ events, sessionId }, { urlOf, eventsAround }) {
+    const openCounts = new Map<string, number>();
+    const keyMoments: KeyMoment[] = [];
+
+    events.forEach((event, i) => {
+      const modal = event.element?.attributes?.['data-modal'];
+      if (event.details.interactionType !== 'Click' || !modal) return;
+
+      const openCount = (openCounts.get(modal) || 0) + 1;
+      openCounts.set(modal, openCount);
+
+      if (openCount === MIN_OPENS) {
+        keyMoments.push({
+          type: 'Custom',
+          name: 'ModalReopened',
+          description: `Opened the ${modal} modal ${openCount} times`,
+          details: { modal, openCount },
+          element: event.element,
+          timestamp: event.timestamp,
+          url: urlOf(event),
+          context: eventsAround(i, 3),
+          sessionId
+        });
+      }
+    });
+
+    return keyMoments;
+  }
+};
+
+export default modalReopenedDetector;
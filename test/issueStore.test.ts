@@ -0,0 +1,86 @@
+import { afterEach, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { initConfig } from '../src/config';
+import { markIssuesFiled, recordIssues } from '../src/issueStore';
+import { DetectedIssue } from '../src/posthog';
+
+// Constants
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Create a dead click issue on a page
+ * @param pageUrl Affected page
+ * @returns The issue
+ */
+function createIssue(pageUrl: string): DetectedIssue {
+  return { title: 'Pay button does nothing', severity: 'high', description: 'Clicks on Pay have no effect', category: 'dead_click', pageUrl };
+}
+
+describe('issue store', () => {
+  let tempDir: string;
+  let storePath: string;
+
+  before(() => {
+    initConfig({ configPath: path.join(FIXTURES_DIR, 'config.json'), env: {} });
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'issue-spotter-store-'));
+    storePath = path.join(tempDir, 'issues.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('keeps an issue unfiled in a sink until the sink accepted it', () => {
+    const start = new Date('2024-03-01T10:00:00Z');
+    const [first] = recordIssues([createIssue('https://shop.example.com/checkout')], { storePath, now: start });
+    assert.equal(first.status, 'new');
+    assert.deepEqual(first.filedIn, []);
+
+    // Filing failed in every sink, so the recurring issue is still unfiled
+    const [second] = recordIssues([createIssue('https://shop.example.com/checkout')], { storePath, now: new Date(start.getTime() + HOUR_MS) });
+    assert.equal(second.status, 'recurring');
+    assert.deepEqual(second.filedIn, []);
+
+    markIssuesFiled([{ fingerprint: second.fingerprint, sink: 'github' }], storePath);
+    const [third] = recordIssues([createIssue('https://shop.example.com/checkout')], { storePath, now: new Date(start.getTime() + 2 * HOUR_MS) });
+    assert.deepEqual(third.filedIn, ['github']);
+  });
+
+  test('files recurring issues stored before sinks were tracked', () => {
+    const issue = createIssue('https://shop.example.com/checkout');
+    const [first] = recordIssues([issue], { storePath, now: new Date('2024-03-01T10:00:00Z') });
+    const { filedIn, status, ...legacy } = first;
+    fs.writeFileSync(storePath, `${JSON.stringify(legacy)}\n`);
+
+    const [second] = recordIssues([issue], { storePath, now: new Date('2024-03-01T11:00:00Z') });
+    assert.equal(second.status, 'recurring');
+    assert.deepEqual(second.filedIn, []);
+  });
+
+  test('reports an issue known only from a rules fallback as new when the LLM finds it', () => {
+    const issue = createIssue('https://shop.example.com/checkout');
+    const [fallback] = recordIssues([issue], { storePath, now: new Date('2024-03-01T10:00:00Z'), fallback: true });
+    assert.equal(fallback.status, 'new');
+    assert.equal(fallback.fallback, true);
+
+    const [again] = recordIssues([issue], { storePath, now: new Date('2024-03-01T11:00:00Z'), fallback: true });
+    assert.equal(again.status, 'recurring');
+
+    const [analyzed] = recordIssues([issue], { storePath, now: new Date('2024-03-01T12:00:00Z') });
+    assert.equal(analyzed.status, 'new');
+    assert.equal(analyzed.fallback, undefined);
+    assert.equal(analyzed.firstSeen, '2024-03-01T12:00:00.000Z');
+
+    // Once the LLM has reported it, a later fallback sighting is the same issue
+    const [later] = recordIssues([issue], { storePath, now: new Date('2024-03-01T13:00:00Z'), fallback: true });
+    assert.equal(later.status, 'recurring');
+    assert.equal(later.fallback, undefined);
+  });
+});
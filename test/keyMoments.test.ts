@@ -0,0 +1,134 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { initConfig } from '../src/config';
+import { PostHogEvent } from '../src/posthog';
+import { describePageTimeline, loadRRwebData, processRRwebExport, syncWithPostHogEvents, toElementSelector } from '../src/rrweb';
+import { createSessionBuilder, DEFAULT_START_TIME, toRRwebExport } from './sessionBuilder';
+import { SCENARIOS } from './scenarios';
+
+// Constants
+const GOLDEN_DIR = path.join(__dirname, 'golden');
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const RECORDED_RRWEB_PATH = path.join(__dirname, '..', 'RRweb data.json');
+const RECORDED_EVENTS_PATH = path.join(FIXTURES_DIR, 'recorded-posthog-events.json');
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+/**
+ * Reduce a synced key moment to the fields worth pinning: context events are
+ * dropped, elements become selectors and nearby events become ids and scores
+ * @param moment Key moment returned by syncWithPostHogEvents
+ * @returns JSON-safe summary
+ */
+function summarizeKeyMoment(moment: any): Record<string, any> {
+  const { context, beforeEvent, afterEvent, element, nearbyPosthogEvents, ...fields } = moment;
+
+  return JSON.parse(JSON.stringify({
+    ...fields,
+    element: toElementSelector(element),
+    nearbyPosthogEvents: (nearbyPosthogEvents || []).map((event: any) => ({
+      id: event.id,
+      event: event.event,
+      sessionId: event.properties?.$session_id,
+      relevanceScore: event.relevanceScore
+    }))
+  }));
+}
+
+/**
+ * Run a recording through loading, key moment extraction and PostHog syncing
+ * @param rrwebPath RRweb export file
+ * @param events PostHog events recorded alongside
+ * @returns Summaries of the synced key moments
+ */
+function runPipeline(rrwebPath: string, events: PostHogEvent[]): Record<string, any>[] {
+  const sessions = loadRRwebData(rrwebPath);
+  assert.ok(sessions.length > 0, `no sessions loaded from ${rrwebPath}`);
+
+  return syncWithPostHogEvents(sessions, events).rrwebKeyMoments.map(summarizeKeyMoment);
+}
+
+/**
+ * Compare results with a golden file, or rewrite it when UPDATE_GOLDEN=1
+ * @param name Golden file name without extension
+ * @param actual Results of this run
+ */
+function assertMatchesGolden(name: string, actual: unknown): void {
+  const goldenPath = path.join(GOLDEN_DIR, `${name}.json`);
+
+  if (UPDATE_GOLDEN) {
+    fs.mkdirSync(GOLDEN_DIR, { recursive: true });
+    fs.writeFileSync(goldenPath, `${JSON.stringify(actual, null, 2)}\n`);
+    return;
+  }
+
+  assert.ok(fs.existsSync(goldenPath), `missing golden file ${goldenPath}, run npm run test:update to create it`);
+  assert.deepEqual(actual, JSON.parse(fs.readFileSync(goldenPath, 'utf8')),
+    `key moments differ from ${path.relative(process.cwd(), goldenPath)}; if the change is intended, run npm run test:update and review the diff`);
+}
+
+describe('extractKeyMoments golden files', () => {
+  let tempDir: string;
+
+  before(() => {
+    // Detector thresholds are the defaults, whatever config or environment the tests run in
+    initConfig({ configPath: path.join(FIXTURES_DIR, 'config.json'), env: {} });
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'issue-spotter-test-'));
+  });
+
+  test('recorded sessions', () => {
+    const events: PostHogEvent[] = JSON.parse(fs.readFileSync(RECORDED_EVENTS_PATH, 'utf8'));
+    assertMatchesGolden('recorded', runPipeline(RECORDED_RRWEB_PATH, events));
+  });
+
+  for (const [name, scenario] of Object.entries(SCENARIOS)) {
+    test(name, () => {
+      const sessions = scenario.build();
+      const rrwebPath = path.join(tempDir, `${name}.json`);
+      fs.writeFileSync(rrwebPath, JSON.stringify(toRRwebExport(...sessions)));
+
+      const moments = runPipeline(rrwebPath, sessions.flatMap(session => session.posthogEvents));
+
+      const types = new Set(moments.map(moment => moment.type));
+      for (const type of scenario.expectedTypes) {
+        assert.ok(types.has(type), `expected a ${type} key moment, got ${Array.from(types).join(', ')}`);
+      }
+      assertMatchesGolden(name, moments);
+    });
+  }
+});
+
+describe('page segments', () => {
+  test('split sessions at page loads and client-side navigations', () => {
+    const session = createSessionBuilder({ sessionId: 'pages' })
+      .wait(100).mouseMove(5, 5)
+      .visit('https://shop.example.com/cart', 375, 812)
+      .wait(4000).navigate('https://shop.example.com/cart')
+      .wait(1000).navigate('https://shop.example.com/checkout')
+      .wait(2000).scroll(0, 300)
+      .wait(3000).visit('https://shop.example.com/thanks');
+    const [processed] = processRRwebExport(toRRwebExport(session));
+
+    assert.deepEqual(processed.pages, [
+      {
+        index: 0, url: 'https://shop.example.com/cart', entryType: 'load', entryTime: DEFAULT_START_TIME + 100,
+        exitTime: DEFAULT_START_TIME + 4100, viewport: { width: 375, height: 812 }, fullSnapshotIndex: 2
+      },
+      {
+        index: 1, url: 'https://shop.example.com/checkout', entryType: 'client', entryTime: DEFAULT_START_TIME + 5100,
+        exitTime: DEFAULT_START_TIME + 7100
+      },
+      {
+        index: 2, url: 'https://shop.example.com/thanks', entryType: 'load', entryTime: DEFAULT_START_TIME + 10100,
+        exitTime: DEFAULT_START_TIME + 10100, viewport: { width: 1280, height: 800 }, fullSnapshotIndex: 7
+      }
+    ]);
+    assert.deepEqual(processed.events.map(event => event.pageIndex), [0, 0, 0, 0, 1, 1, 2, 2]);
+    assert.equal(processed.events[5].url, 'https://shop.example.com/checkout');
+    assert.equal(processed.metadata.url, 'https://shop.example.com/thanks');
+    assert.equal(describePageTimeline(processed),
+      'https://shop.example.com/cart (0ms) → https://shop.example.com/checkout (+5.0s) → https://shop.example.com/thanks (+10.0s)');
+  });
+});
@@ -0,0 +1,169 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { LlmRequest, createAnthropicProvider, createAzureOpenAiProvider, createLocalProvider } from '../src/llm';
+
+// Constants
+const SCHEMA = { name: 'issues', schema: { type: 'object', properties: { issues: { type: 'array' } }, required: ['issues'] } };
+const IMAGE = { type: 'image' as const, mediaType: 'image/png', data: 'aW1hZ2U=' };
+
+/**
+ * A request received by the model API stand-in
+ */
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+/**
+ * Create a request with a system prompt and a user message with an image
+ * @param jsonSchema Schema the reply must match, if any
+ * @returns The request
+ */
+function createRequest(jsonSchema?: LlmRequest['jsonSchema']): LlmRequest {
+  return {
+    messages: [
+      { role: 'system', content: 'Find UX issues' },
+      { role: 'user', content: [{ type: 'text', text: 'Events: []' }, IMAGE] }
+    ],
+    jsonSchema
+  };
+}
+
+describe('LLM providers', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let replyText: string;
+
+  /**
+   * Answer a request the way the model APIs do
+   * @param request Recorded request
+   * @returns Status and JSON body
+   */
+  function reply(request: RecordedRequest): { status?: number; body: unknown } {
+    const { method, url } = request;
+
+    if (method === 'POST' && url === '/v1/messages') {
+      return { body: { id: 'msg_1', type: 'message', role: 'assistant', content: [{ type: 'text', text: replyText }], stop_reason: 'end_turn' } };
+    }
+    if (method === 'POST' && url.split('?')[0].endsWith('/chat/completions')) {
+      return {
+        body: {
+          id: 'chatcmpl-1',
+          object: 'chat.completion',
+          created: 1735732800,
+          model: request.body.model,
+          choices: [{ index: 0, message: { role: 'assistant', content: replyText }, finish_reason: 'stop' }]
+        }
+      };
+    }
+    if (method === 'GET' && (url === '/v1/models' || url === '/local/v1/models')) return { body: { object: 'list', data: [] } };
+
+    return { status: 404, body: { error: { message: 'Not found' } } };
+  }
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf8');
+        const request = { method: req.method!, url: req.url!, headers: req.headers, body: text ? JSON.parse(text) : undefined };
+        requests.push(request);
+
+        const { status = 200, body } = reply(request);
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    requests = [];
+    replyText = '{ "issues": [] }';
+  });
+
+  test('sends system prompts, images and a prefill to Anthropic and cuts the JSON out of the reply', async () => {
+    const provider = createAnthropicProvider({ apiKey: 'sk-ant-test', model: 'claude-test', baseUrl: `${baseUrl}/` });
+    replyText = '"issues": []}\n\nNo issues stood out.';
+
+    assert.equal(await provider.complete(createRequest(SCHEMA)), '{"issues": []}');
+
+    const [request] = requests;
+    assert.equal(request.url, '/v1/messages');
+    assert.equal(request.headers['x-api-key'], 'sk-ant-test');
+    assert.equal(request.headers['anthropic-version'], '2023-06-01');
+    assert.equal(request.body.model, 'claude-test');
+    // The schema cannot be enforced, so it is spelled out in the system prompt
+    assert.match(request.body.system, /^Reply with a single JSON object[\s\S]*"required":\["issues"\]\}\n\nFind UX issues$/);
+    assert.deepEqual(request.body.messages, [
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Events: []' },
+          { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'aW1hZ2U=' } }
+        ]
+      },
+      { role: 'assistant', content: '{' }
+    ]);
+  });
+
+  test('returns Anthropic replies unchanged without a schema and checks the connection', async () => {
+    const provider = createAnthropicProvider({ apiKey: 'sk-ant-test', model: 'claude-test', baseUrl });
+    replyText = 'Plain answer';
+
+    assert.equal(await provider.complete(createRequest()), 'Plain answer');
+    assert.equal(requests[0].body.system, 'Find UX issues');
+    assert.equal(requests[0].body.messages.length, 1);
+    assert.equal(await provider.testConnection(), true);
+    assert.equal(await createAnthropicProvider({ apiKey: 'sk-ant-test', model: 'claude-test', baseUrl: `${baseUrl}/missing` }).testConnection(), false);
+  });
+
+  test('calls the Azure deployment with a strict JSON schema', async () => {
+    const provider = createAzureOpenAiProvider({ apiKey: 'azure-key', endpoint: baseUrl, model: 'ux-gpt' });
+
+    assert.equal(await provider.complete(createRequest(SCHEMA)), '{ "issues": [] }');
+
+    const [request] = requests;
+    assert.equal(request.url, '/openai/deployments/ux-gpt/chat/completions?api-version=2024-10-21');
+    assert.equal(request.headers['api-key'], 'azure-key');
+    assert.deepEqual(request.body.response_format, { type: 'json_schema', json_schema: { ...SCHEMA, strict: true } });
+    assert.deepEqual(request.body.messages, [
+      { role: 'system', content: 'Find UX issues' },
+      { role: 'user', content: [{ type: 'text', text: 'Events: []' }, { type: 'image_url', image_url: { url: 'data:image/png;base64,aW1hZ2U=' } }] }
+    ]);
+  });
+
+  test('sends text only to a local server in JSON object mode', async () => {
+    const provider = createLocalProvider({ baseUrl: `${baseUrl}/local/v1`, model: 'llama-test' });
+
+    assert.equal(await provider.complete(createRequest(SCHEMA)), '{ "issues": [] }');
+
+    const [request] = requests;
+    assert.equal(request.url, '/local/v1/chat/completions');
+    assert.equal(request.headers.authorization, 'Bearer local');
+    assert.deepEqual(request.body.response_format, { type: 'json_object' });
+    assert.equal(request.body.messages.length, 3);
+    assert.match(request.body.messages[0].content, /^Reply with a single JSON object/);
+    assert.deepEqual(request.body.messages[2], { role: 'user', content: [{ type: 'text', text: 'Events: []' }] });
+    assert.equal(await provider.testConnection(), true);
+  });
+
+  test('cuts the JSON out of local replies when the server has no JSON mode', async () => {
+    const provider = createLocalProvider({ baseUrl: `${baseUrl}/local/v1`, model: 'llama-test', capabilities: { jsonMode: 'none' } });
+    replyText = 'Sure! ```json\n{ "issues": [] }\n```';
+
+    assert.equal(await provider.complete(createRequest(SCHEMA)), '{ "issues": [] }');
+    assert.equal(requests[0].body.response_format, undefined);
+  });
+});
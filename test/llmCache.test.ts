@@ -0,0 +1,102 @@
+import { afterEach, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { initConfig } from '../src/config';
+import { createFakeProvider, LlmRequest } from '../src/llm';
+import { LlmCacheOptions, computeLlmCacheKey, createCachedProvider, isLlmCacheMissError, pruneLlmCache } from '../src/llmCache';
+
+// Constants
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Create a request with one text and one image
+ * @param text Text of the request
+ * @param image Base64 data of the image
+ * @returns The request
+ */
+function createRequest(text: string, image: string = 'aW1hZ2U='): LlmRequest {
+  return {
+    messages: [
+      { role: 'system', content: 'Find issues' },
+      { role: 'user', content: [{ type: 'text', text }, { type: 'image', mediaType: 'image/png', data: image }] }
+    ]
+  };
+}
+
+describe('LLM cache', () => {
+  let tempDir: string;
+  let options: LlmCacheOptions;
+
+  before(() => {
+    initConfig({ configPath: path.join(FIXTURES_DIR, 'config.json'), env: {} });
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'issue-spotter-llm-cache-'));
+    options = { mode: 'read-write', dir: tempDir, ttlHours: 1, maxSizeMb: 1 };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('keys requests by model, prompt version, text and images', () => {
+    const key = computeLlmCacheKey('gpt-4o', '1', createRequest('events'));
+
+    assert.equal(computeLlmCacheKey('gpt-4o', '1', createRequest('events')), key);
+    assert.notEqual(computeLlmCacheKey('gpt-4o-mini', '1', createRequest('events')), key);
+    assert.notEqual(computeLlmCacheKey('gpt-4o', '2', createRequest('events')), key);
+    assert.notEqual(computeLlmCacheKey('gpt-4o', '1', createRequest('other events')), key);
+    assert.notEqual(computeLlmCacheKey('gpt-4o', '1', createRequest('events', 'b3RoZXI=')), key);
+  });
+
+  test('answers a repeated request from the cache and stores images by hash', async () => {
+    const fake = createFakeProvider({ responses: ['{ "issues": [] }'] });
+    const provider = createCachedProvider(fake, '1', options);
+
+    assert.equal(await provider.complete(createRequest('events')), '{ "issues": [] }');
+    assert.equal(await provider.complete(createRequest('events')), '{ "issues": [] }');
+    assert.equal(await provider.complete(createRequest('new events')), '{ "issues": [] }');
+    assert.equal(fake.requests.length, 2);
+
+    const [fileName] = fs.readdirSync(tempDir).filter(name => name.startsWith(computeLlmCacheKey(fake.model, '1', createRequest('events'))));
+    const entry = JSON.parse(fs.readFileSync(path.join(tempDir, fileName), 'utf8'));
+    assert.match(entry.request.messages[1].content[1].data, /^sha256:[0-9a-f]{64}$/);
+  });
+
+  test('replays cached replies without calling the provider, and fails on a miss', async () => {
+    await createCachedProvider(createFakeProvider({ responses: ['recorded'] }), '1', options).complete(createRequest('events'));
+    const offline = { ...createFakeProvider(), complete: () => Promise.reject(new Error('offline')) };
+    const replay = createCachedProvider(offline, '1', { ...options, mode: 'replay' });
+
+    // A recorded fixture is served however old it is, and left as it was
+    const entryPath = path.join(tempDir, fs.readdirSync(tempDir)[0]);
+    const recordedAt = new Date(Date.now() - 2 * HOUR_MS);
+    fs.utimesSync(entryPath, recordedAt, recordedAt);
+    const recordedMtime = fs.statSync(entryPath).mtimeMs;
+
+    assert.equal(await replay.complete(createRequest('events')), 'recorded');
+    assert.equal(fs.statSync(entryPath).mtimeMs, recordedMtime);
+    await assert.rejects(replay.complete(createRequest('new events')), error => isLlmCacheMissError(error) && /No cached fake reply/.test(String(error)));
+    assert.equal(createCachedProvider(offline, '1', { ...options, mode: 'off' }), offline);
+  });
+
+  test('expires replies after the TTL and removes the least recently used over the size limit', async () => {
+    const fake = createFakeProvider({ responses: ['x'.repeat(400 * 1024)] });
+    const provider = createCachedProvider(fake, '1', options);
+    for (const text of ['a', 'b', 'c']) {
+      await provider.complete(createRequest(text));
+    }
+
+    // Three entries of 400 KB do not fit in 1 MB, so the first one went
+    assert.equal(fs.readdirSync(tempDir).length, 2);
+    await provider.complete(createRequest('a'));
+    assert.equal(fake.requests.length, 4);
+
+    assert.equal(pruneLlmCache(options, Date.now() + 2 * HOUR_MS), 2);
+    assert.deepEqual(fs.readdirSync(tempDir), []);
+  });
+});
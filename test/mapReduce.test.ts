@@ -0,0 +1,180 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { analyzeEventsAndDraftTickets } from '../src/ai';
+import { initConfig } from '../src/config';
+import { LlmContentPart, LlmProvider, LlmRequest } from '../src/llm';
+import { createCachedProvider, isLlmCacheMissError } from '../src/llmCache';
+import { DetectedIssue, PostHogEvent } from '../src/posthog';
+import { RuleFinding } from '../src/rules';
+import { DEFAULT_START_TIME } from './sessionBuilder';
+
+// Constants
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const NO_RECORDINGS = { sessions: [], keyMoments: [], screenshots: [] };
+
+/**
+ * Create a click on the pay button in a session
+ * @param sessionId Session ID, also written into the page URL so replies can name it
+ * @param offsetMs Time after the default start time
+ * @returns The event
+ */
+function createClick(sessionId: string, offsetMs: number): PostHogEvent {
+  return {
+    id: `${sessionId}-${offsetMs}`,
+    event: '$autocapture',
+    distinct_id: `user-${sessionId}`,
+    timestamp: new Date(DEFAULT_START_TIME + offsetMs).toISOString(),
+    properties: {
+      $session_id: sessionId,
+      $current_url: `https://shop.example.com/checkout?session=${sessionId}`,
+      $el_text: 'Pay',
+      $el_selector: 'button.pay'
+    }
+  };
+}
+
+/**
+ * Create an issue as the model would return it
+ * @param title Issue title
+ * @param category Issue category
+ * @param severity Issue severity
+ * @param pageUrl Affected page
+ * @returns The issue
+ */
+function createIssue(title: string, category: string, severity: string, pageUrl: string) {
+  return {
+    title,
+    category,
+    severity,
+    description: `${title}, seen in the session data`,
+    visualAnalysis: null,
+    pageUrl,
+    elementSelector: category === 'dead_click' ? 'button.pay' : null,
+    suggestedFix: 'Fix it'
+  };
+}
+
+/**
+ * Create a rule-based finding for an issue
+ * @param issue Drafted issue
+ * @param sessionIds Sessions the evidence was seen in
+ * @returns The finding
+ */
+function createFinding(issue: DetectedIssue, sessionIds: string[]): RuleFinding {
+  return { rule: '$rageclick', issue, score: 5, occurrences: sessionIds.length, sessionIds };
+}
+
+/**
+ * Create a provider that finds a dead pay button in every session and an error
+ * only in session "c", counting the requests in flight
+ * @returns The provider and the highest number of requests seen in flight
+ */
+function createSessionProvider() {
+  const stats = { requests: 0, inFlight: 0, maxInFlight: 0 };
+  const provider: LlmProvider = {
+    name: 'fake',
+    model: 'session-fake',
+    capabilities: { imageInput: false, jsonMode: 'schema' },
+    async complete(request: LlmRequest) {
+      stats.requests++;
+      stats.inFlight++;
+      stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      stats.inFlight--;
+
+      const text = (request.messages[1].content as LlmContentPart[]).map(part => part.type === 'text' ? part.text : '').join('\n');
+      const sessionId = text.match(/checkout\?session=(\w+)/)![1];
+      const issues = [createIssue('Pay button does nothing', 'dead_click', sessionId === 'c' ? 'high' : 'medium', `https://shop.example.com/checkout?session=${sessionId}`)];
+      if (sessionId === 'c') {
+        issues.push(createIssue('Cart page crashes', 'error', 'high', 'https://shop.example.com/cart'));
+      }
+      return JSON.stringify({ issues });
+    },
+    async testConnection() {
+      return true;
+    }
+  };
+  return { provider, stats };
+}
+
+describe('map-reduce analysis', () => {
+  before(() => {
+    initConfig({
+      configPath: path.join(FIXTURES_DIR, 'config.json'),
+      env: { LLM_STRATEGY: 'map-reduce', LLM_CONCURRENCY: '2', REDACTION_ENABLED: 'false' }
+    });
+  });
+
+  test('analyzes each session with bounded concurrency and merges the findings', async () => {
+    const events = ['a', 'b', 'c', 'd'].flatMap(sessionId => [createClick(sessionId, 0), createClick(sessionId, 1000)]);
+    const { provider, stats } = createSessionProvider();
+
+    const { issues, status } = await analyzeEventsAndDraftTickets(events, NO_RECORDINGS, provider);
+
+    assert.equal(stats.requests, 4);
+    assert.equal(stats.maxInFlight, 2);
+    assert.equal(status, 'analyzed');
+    assert.deepEqual(issues.map(issue => [issue.title, issue.severity, issue.sessionCount, issue.exampleSessionIds?.slice().sort()]), [
+      ['Pay button does nothing', 'high', 4, ['a', 'b', 'c', 'd']],
+      ['Cart page crashes', 'high', 1, ['c']]
+    ]);
+  });
+
+  test('sends one request when every session fits and the strategy is auto', async () => {
+    initConfig({ configPath: path.join(FIXTURES_DIR, 'config.json'), env: { REDACTION_ENABLED: 'false' } });
+    const { provider, stats } = createSessionProvider();
+
+    const { issues } = await analyzeEventsAndDraftTickets([createClick('a', 0)], NO_RECORDINGS, provider);
+
+    assert.equal(stats.requests, 1);
+    assert.equal(issues[0].sessionCount, undefined);
+  });
+
+  test('gives each session only the rule-based findings seen in it', async () => {
+    initConfig({ configPath: path.join(FIXTURES_DIR, 'config.json'), env: { LLM_STRATEGY: 'map-reduce', REDACTION_ENABLED: 'false' } });
+    const { provider } = createSessionProvider();
+    const prompts: string[] = [];
+    const recordingProvider: LlmProvider = {
+      ...provider,
+      complete: request => {
+        prompts.push((request.messages[1].content as LlmContentPart[]).map(part => part.type === 'text' ? part.text : '').join('\n'));
+        return provider.complete(request);
+      }
+    };
+    const ruleIssue = { title: 'Rage clicks on button.pay', severity: 'high' as const, description: 'Users clicked repeatedly', pageUrl: 'https://shop.example.com/checkout' };
+
+    await analyzeEventsAndDraftTickets([createClick('a', 0), createClick('b', 0)], NO_RECORDINGS, recordingProvider, [createFinding(ruleIssue, ['b'])]);
+
+    assert.deepEqual(
+      prompts.map(prompt => [prompt.match(/checkout\?session=(\w+)/)![1], prompt.includes(ruleIssue.title)]).sort(),
+      [['a', false], ['b', true]]
+    );
+  });
+
+  test('returns the rule-based issues, or a manual review ticket, when every session fails', async () => {
+    initConfig({ configPath: path.join(FIXTURES_DIR, 'config.json'), env: { LLM_STRATEGY: 'map-reduce', REDACTION_ENABLED: 'false' } });
+    const ruleIssue = { title: 'Rage clicks on button.pay', severity: 'high' as const, description: 'Users clicked repeatedly' };
+    const provider: LlmProvider = { ...createSessionProvider().provider, complete: () => Promise.reject(new Error('offline')) };
+
+    assert.deepEqual(
+      await analyzeEventsAndDraftTickets([createClick('a', 0), createClick('b', 0)], NO_RECORDINGS, provider, [createFinding(ruleIssue, ['a'])]),
+      { issues: [ruleIssue], status: 'rules-fallback' }
+    );
+    assert.equal((await analyzeEventsAndDraftTickets([createClick('a', 0)], NO_RECORDINGS, provider)).status, 'manual-review');
+  });
+
+  test('fails instead of falling back when a replayed analysis is not in the cache', async () => {
+    const replay = createCachedProvider(createSessionProvider().provider, '1', {
+      mode: 'replay',
+      dir: path.join(FIXTURES_DIR, 'missing-llm-cache'),
+      ttlHours: 1,
+      maxSizeMb: 1
+    });
+
+    for (const strategy of ['single', 'map-reduce']) {
+      initConfig({ configPath: path.join(FIXTURES_DIR, 'config.json'), env: { LLM_STRATEGY: strategy, REDACTION_ENABLED: 'false' } });
+      await assert.rejects(analyzeEventsAndDraftTickets([createClick('a', 0), createClick('b', 0)], NO_RECORDINGS, replay), isLlmCacheMissError);
+    }
+  });
+});
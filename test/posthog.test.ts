@@ -0,0 +1,220 @@
+import { after, afterEach, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { initConfig } from '../src/config';
+import {
+  PostHogEvent,
+  advancePostHogCursor,
+  fetchPostHogEvents,
+  fetchSessionRecordings,
+  groupSnapshotsByWindow,
+  loadPostHogCursor,
+  parseSnapshotLines
+} from '../src/posthog';
+import { DEFAULT_START_TIME } from './sessionBuilder';
+
+// Constants
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const POSTHOG_FIXTURES_DIR = path.join(FIXTURES_DIR, 'posthog');
+const PROJECT_ID = '1';
+
+/**
+ * Read a recorded PostHog response
+ * @param name File name in the PostHog fixtures directory
+ * @returns File content
+ */
+function readFixture(name: string): string {
+  return fs.readFileSync(path.join(POSTHOG_FIXTURES_DIR, name), 'utf8');
+}
+
+/**
+ * Create a pageview a number of seconds after the default start time
+ * @param id Event ID
+ * @param offsetSeconds Seconds after the default start time
+ * @returns The event
+ */
+function createEvent(id: string, offsetSeconds: number): PostHogEvent {
+  return {
+    id,
+    event: '$pageview',
+    distinct_id: 'user-1',
+    timestamp: new Date(DEFAULT_START_TIME + offsetSeconds * 1000).toISOString(),
+    properties: { $session_id: 'session-1', $current_url: 'https://shop.example.com/' }
+  };
+}
+
+describe('PostHog events API', () => {
+  // e3 and e4 share a timestamp, so a cap of three falls in the middle of it
+  const events = [createEvent('e1', 1), createEvent('e2', 2), createEvent('e3', 3), createEvent('e4', 3), createEvent('e5', 4)];
+  let server: http.Server;
+  let requests: URL[];
+  let tempDir: string;
+  let cursorPath: string;
+
+  before(async () => {
+    // Stand-in for `/api/event/`: filters by `after`, sorts by `orderBy` and pages with offset links
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url!, 'http://localhost');
+      requests.push(url);
+
+      const afterTime = url.searchParams.get('after') ? new Date(url.searchParams.get('after')!).getTime() : -Infinity;
+      const ascending = JSON.parse(url.searchParams.get('orderBy') || '["-timestamp"]')[0] === 'timestamp';
+      const limit = Number(url.searchParams.get('limit'));
+      const offset = Number(url.searchParams.get('offset') || 0);
+
+      const matching = events
+        .filter(event => new Date(event.timestamp).getTime() > afterTime)
+        .sort((a, b) => (new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()) * (ascending ? 1 : -1));
+      const next = new URL(url.toString());
+      next.searchParams.set('offset', String(offset + limit));
+
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({
+        results: matching.slice(offset, offset + limit),
+        next: offset + limit < matching.length ? `http://localhost:${(server.address() as AddressInfo).port}${next.pathname}${next.search}` : null
+      }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    process.env.POSTHOG_API_KEY = 'phx_test';
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    requests = [];
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'issue-spotter-posthog-'));
+    cursorPath = path.join(tempDir, 'cursor.json');
+    initConfig({
+      configPath: path.join(FIXTURES_DIR, 'config.json'),
+      env: { POSTHOG_HOST: `http://localhost:${(server.address() as AddressInfo).port}`, POSTHOG_CURSOR_PATH: cursorPath }
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('fetches the oldest events first and leaves the rest of a capped range for the next run', async () => {
+    const first = await fetchPostHogEvents({ useCursor: true, limit: 3, pageSize: 2 });
+
+    // e3 is dropped with e4, as the next run starts after their shared timestamp
+    assert.deepEqual(first.map(event => event.id), ['e1', 'e2']);
+    assert.equal(requests[0].searchParams.get('orderBy'), '["timestamp"]');
+
+    advancePostHogCursor(first);
+    assert.equal(loadPostHogCursor(), events[1].timestamp);
+
+    const second = await fetchPostHogEvents({ useCursor: true, limit: 3, pageSize: 2 });
+    assert.deepEqual(second.map(event => event.id), ['e3', 'e4', 'e5']);
+    assert.equal(requests[requests.length - 2].searchParams.get('after'), events[1].timestamp);
+  });
+});
+
+describe('PostHog HogQL and recordings', () => {
+  let server: http.Server;
+  let hogQLPages: string[];
+  let queries: any[];
+  let tempDir: string;
+
+  before(async () => {
+    // Serves the recorded responses: HogQL pages in order, and the recording of session-1
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url!, 'http://localhost');
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        const recordingPath = `/api/projects/${PROJECT_ID}/session_recordings/session-1`;
+        let body: string | undefined;
+
+        if (url.pathname === `/api/projects/${PROJECT_ID}/query`) {
+          queries.push(JSON.parse(Buffer.concat(chunks).toString('utf8')).query);
+          body = hogQLPages.shift() || JSON.stringify({ columns: [], results: [], hasMore: false });
+        } else if (url.pathname === recordingPath) {
+          body = readFixture('recording-metadata.json');
+        } else if (url.pathname === `${recordingPath}/snapshots`) {
+          const blobKey = url.searchParams.get('blob_key');
+          body = blobKey === null ? readFixture('recording-snapshot-sources.json') : readFixture(`recording-blob-${blobKey}.ndjson`);
+        }
+
+        res.writeHead(body === undefined ? 404 : 200, { 'Content-Type': 'application/json' });
+        res.end(body ?? '{}');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    process.env.POSTHOG_API_KEY = 'phx_test';
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    queries = [];
+    hogQLPages = [readFixture('hogql-page-1.json'), readFixture('hogql-page-2.json')];
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'issue-spotter-hogql-'));
+    initConfig({
+      configPath: path.join(FIXTURES_DIR, 'config.json'),
+      env: {
+        POSTHOG_HOST: `http://localhost:${(server.address() as AddressInfo).port}`,
+        POSTHOG_PROJECT_ID: PROJECT_ID,
+        POSTHOG_EVENTS_SOURCE: 'hogql',
+        POSTHOG_CURSOR_PATH: path.join(tempDir, 'cursor.json')
+      }
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('pages HogQL results by timestamp and uuid and drops repeated rows', async () => {
+    const events = await fetchPostHogEvents({ useCursor: true, limit: 10, pageSize: 3 });
+
+    assert.deepEqual(events.map(event => [event.id.slice(-1), event.event]), [['1', '$pageview'], ['2', '$autocapture'], ['3', '$rageclick'], ['4', '$pageleave']]);
+    assert.equal(events[1].properties.$el_text, 'Pay');
+    assert.equal(events[1].timestamp, '2024-03-01T10:00:02.000200Z');
+
+    assert.equal(queries.length, 2);
+    assert.match(queries[0].query, /ORDER BY timestamp ASC, uuid ASC LIMIT 3$/);
+    assert.doesNotMatch(queries[0].query, /OFFSET|toDateTime\(\{afterTimestamp\}\)/);
+    assert.match(queries[1].query, /uuid > toUUID\(\{afterUuid\}\)/);
+    assert.equal(queries[1].values.afterTimestamp, '2024-03-01T10:00:02.000200Z');
+    assert.equal(queries[1].values.afterUuid, '018e0a1c-0000-7000-8000-000000000003');
+
+    // The next run resumes after the last event it processed
+    advancePostHogCursor(events);
+    await fetchPostHogEvents({ useCursor: true, limit: 10, pageSize: 3 });
+    assert.equal(queries[2].values.afterTimestamp, '2024-03-01T10:00:05.000500Z');
+    assert.equal(queries[2].values.afterUuid, '018e0a1c-0000-7000-8000-000000000004');
+  });
+
+  test('parses both snapshot line formats and skips malformed lines', () => {
+    const blob = parseSnapshotLines(readFixture('recording-blob-0.ndjson'));
+    const tuples = parseSnapshotLines(readFixture('recording-blob-1.ndjson'));
+
+    assert.deepEqual(blob.map(([windowId, event]) => [windowId, event.type]), [['window-1', 4], ['window-1', 2], ['window-2', 4]]);
+    assert.deepEqual(tuples.map(([windowId, event]) => [windowId, event.timestamp]), [['window-1', 1709287203000], ['window-1', 1709287203200]]);
+
+    const session = groupSnapshotsByWindow('session-1', [...blob, ...tuples], 'user-1');
+    assert.deepEqual(session.records.map(record => [record.id, record.user_id, record.session_id, record.events.length]), [
+      ['window-1', 'user-1', 'session-1', 4],
+      ['window-2', 'user-1', 'session-1', 1]
+    ]);
+  });
+
+  test('downloads a recording blob by blob and skips sessions that fail', async () => {
+    const recording = await fetchSessionRecordings(['session-1', 'missing']);
+
+    assert.equal(recording.sessions.length, 1);
+    assert.deepEqual(recording.sessions[0].records.map(record => [record.id, record.user_id, record.events.map(event => event.type)]), [
+      ['window-1', 'user-1', [4, 2, 3, 3]],
+      ['window-2', 'user-1', [4]]
+    ]);
+  });
+});
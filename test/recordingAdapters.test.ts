@@ -0,0 +1,131 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { initConfig } from '../src/config';
+import { detectRecordingAdapter, inspectRecordingFile } from '../src/recordingAdapters';
+import { ProcessedRRwebData, extractKeyMoments, processRRwebSession, streamRRwebData } from '../src/rrweb';
+import { createSessionBuilder } from './sessionBuilder';
+import { SCENARIOS } from './scenarios';
+
+// Constants
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+/**
+ * Reduce a session to what every format must agree on
+ * @param session Processed session
+ * @returns Session ID, metadata, event count and key moment types
+ */
+function summarizeSession(session: ProcessedRRwebData) {
+  return {
+    sessionId: session.sessionId,
+    metadata: session.metadata,
+    eventCount: session.events.length,
+    keyMomentTypes: extractKeyMoments([session]).map(moment => moment.type)
+  };
+}
+
+/**
+ * Read every session of a recording file or directory
+ * @param filePath Recording path
+ * @returns Summaries of the sessions, in order
+ */
+async function readSummaries(filePath: string) {
+  const summaries = [];
+  for await (const session of streamRRwebData(filePath)) {
+    summaries.push(summarizeSession(session));
+  }
+  return summaries;
+}
+
+describe('recording adapters', () => {
+  let tempDir: string;
+  const { events } = SCENARIOS['rage-click'].build()[0];
+  const expected = (userId?: string) => summarizeSession(processRRwebSession({
+    sessionId: 'rage-click',
+    records: [{ id: 'main', user_id: userId, session_id: 'rage-click', events }]
+  }));
+
+  /**
+   * Write a file in the temporary directory
+   * @param fileName File name
+   * @param content File content
+   * @returns Path of the file
+   */
+  const write = (fileName: string, content: string | Buffer) => {
+    const filePath = path.join(tempDir, fileName);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  before(() => {
+    initConfig({ configPath: path.join(FIXTURES_DIR, 'config.json'), env: {} });
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'issue-spotter-adapters-'));
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('reads a raw rrweb event array, named after the file', async () => {
+    const filePath = write('rage-click.json', JSON.stringify(events));
+    assert.equal(detectRecordingAdapter(await inspectRecordingFile(filePath)).name, 'rrweb event array');
+    assert.deepEqual(await readSummaries(filePath), [expected()]);
+  });
+
+  test('reads rrweb events as NDJSON, compressed or not', async () => {
+    const ndjson = events.map(event => JSON.stringify(event)).join('\n');
+    for (const filePath of [write('ndjson/rage-click.ndjson', ndjson), write('gzip/rage-click.jsonl.gz', zlib.gzipSync(ndjson))]) {
+      assert.equal(detectRecordingAdapter(await inspectRecordingFile(filePath)).name, 'rrweb event NDJSON');
+      assert.deepEqual(await readSummaries(filePath), [expected()]);
+    }
+  });
+
+  test('reads a PostHog recording export with the recorded user', async () => {
+    const filePath = write('posthog-export.json', JSON.stringify({
+      version: '2023-04-28',
+      data: {
+        id: 'rage-click',
+        person: { distinct_ids: ['user-42'], properties: {} },
+        snapshots: events.map(event => ({ windowId: 'main', ...event }))
+      }
+    }));
+
+    assert.equal(detectRecordingAdapter(await inspectRecordingFile(filePath)).name, 'PostHog recording export');
+    assert.deepEqual(await readSummaries(filePath), [expected('user-42')]);
+  });
+
+  test('reads PostHog snapshot blobs in both line formats', async () => {
+    const objectLines = JSON.stringify({ window_id: 'main', data: events.slice(0, 3) }) + '\n' +
+      JSON.stringify({ window_id: 'main', data: events.slice(3) });
+    const tupleLines = events.map(event => JSON.stringify(['main', event])).join('\n');
+
+    for (const filePath of [write('objects/rage-click.jsonl', objectLines), write('tuples/rage-click.jsonl', tupleLines)]) {
+      assert.equal(detectRecordingAdapter(await inspectRecordingFile(filePath)).name, 'PostHog snapshots');
+      assert.deepEqual(await readSummaries(filePath), [expected()]);
+    }
+  });
+
+  test('reads a directory with one session per file, in any format', async () => {
+    const other = createSessionBuilder({ sessionId: 'other', userId: 'two' }).visit('https://shop.example.com/').wait(2000).scroll(0, 200);
+    const directory = path.join(tempDir, 'sessions');
+    write('sessions/rage-click.json.gz', zlib.gzipSync(JSON.stringify(events)));
+    write('sessions/other.ndjson', JSON.stringify({ records: [{ id: 'main', user_id: 'two', session_id: 'other', events: other.events }] }));
+    write('sessions/.DS_Store', 'junk');
+    write('sessions/notes.txt', 'not a recording');
+
+    assert.equal(detectRecordingAdapter(await inspectRecordingFile(directory)).name, 'recording directory');
+    const summaries = await readSummaries(directory);
+    assert.deepEqual(summaries.map(summary => [summary.sessionId, summary.metadata.userId]), [['other', 'two'], ['rage-click', undefined]]);
+    assert.deepEqual(summaries[1], expected());
+  });
+
+  test('rejects files in no known format', async () => {
+    const filePath = write('notes.txt', 'not a recording');
+    assert.throws(() => detectRecordingAdapter({ path: filePath, isDirectory: false, head: 'not a recording' }), /Unrecognized recording format/);
+    assert.deepEqual(await readSummaries(filePath), []);
+  });
+});
@@ -0,0 +1,113 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { initConfig } from '../src/config';
+import { streamJsonArray, streamJsonLines } from '../src/jsonStream';
+import { ProcessedRRwebData, loadRRwebData, streamRRwebData } from '../src/rrweb';
+import { toRRwebExport } from './sessionBuilder';
+import { SCENARIOS } from './scenarios';
+
+// Constants
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+/**
+ * Split text into chunks of a fixed size
+ * @param text Text to split
+ * @param size Chunk size in characters
+ * @returns The chunks, as a stream would deliver them
+ */
+async function* chunked(text: string, size: number): AsyncGenerator<string> {
+  for (let i = 0; i < text.length; i += size) {
+    yield text.slice(i, i + size);
+  }
+}
+
+/**
+ * Collect everything an async iterable yields
+ * @param iterable Values to collect
+ * @returns The values, in order
+ */
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const values: T[] = [];
+  for await (const value of iterable) {
+    values.push(value);
+  }
+  return values;
+}
+
+describe('streaming RRweb loader', () => {
+  let tempDir: string;
+  let exportJson: string;
+  let expected: ProcessedRRwebData[];
+
+  before(() => {
+    initConfig({ configPath: path.join(FIXTURES_DIR, 'config.json'), env: {} });
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'issue-spotter-stream-'));
+
+    const sessions = Object.values(SCENARIOS).flatMap(scenario => scenario.build());
+    exportJson = JSON.stringify(toRRwebExport(...sessions), null, 2);
+    fs.writeFileSync(path.join(tempDir, 'export.json'), exportJson);
+    expected = loadRRwebData(path.join(tempDir, 'export.json'));
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('reads the same sessions as loadRRwebData', async () => {
+    assert.deepEqual(await collect(streamRRwebData(path.join(tempDir, 'export.json'))), expected);
+  });
+
+  test('reads gzipped and NDJSON exports', async () => {
+    const ndjson = JSON.parse(exportJson).sessions.map((session: unknown) => JSON.stringify(session)).join('\n');
+    fs.writeFileSync(path.join(tempDir, 'export.json.gz'), zlib.gzipSync(exportJson));
+    fs.writeFileSync(path.join(tempDir, 'export.ndjson'), ndjson);
+    fs.writeFileSync(path.join(tempDir, 'export.ndjson.gz'), zlib.gzipSync(ndjson));
+
+    for (const fileName of ['export.json.gz', 'export.ndjson', 'export.ndjson.gz']) {
+      assert.deepEqual(await collect(streamRRwebData(path.join(tempDir, fileName))), expected, fileName);
+    }
+  });
+
+  test('stops at the first invalid session and keeps the ones before it', async () => {
+    const filePath = path.join(tempDir, 'truncated.ndjson');
+    const lines = JSON.parse(exportJson).sessions.slice(0, 2).map((session: unknown) => JSON.stringify(session));
+    fs.writeFileSync(filePath, [...lines, '{"sessionId": "broken", "rec'].join('\n'));
+
+    const sessions = await collect(streamRRwebData(filePath));
+    assert.deepEqual(sessions.map(session => session.sessionId), expected.slice(0, 2).map(session => session.sessionId));
+  });
+});
+
+describe('streamJsonArray', () => {
+  const document = JSON.stringify({
+    meta: { note: 'has "sessions": [1, 2] inside a string', sessions: 'not this one' },
+    sessions: [{ id: 'a', tags: ['x', ']'] }, 'b\\"]', 42, null, [1, [2]]],
+    trailing: true
+  });
+
+  test('yields the elements whatever the chunk size', async () => {
+    for (const size of [1, 2, 3, 7, document.length]) {
+      assert.deepEqual(await collect(streamJsonArray(chunked(document, size), 'sessions')), JSON.parse(document).sessions, `chunk size ${size}`);
+    }
+  });
+
+  test('reads a top-level array', async () => {
+    assert.deepEqual(await collect(streamJsonArray(chunked('[ {"a": 1} , 2 ]', 3))), [{ a: 1 }, 2]);
+  });
+
+  test('reports a missing array and invalid elements', async () => {
+    await assert.rejects(collect(streamJsonArray(chunked('{"records": []}', 4), 'sessions')), /No "sessions" array found/);
+    await assert.rejects(collect(streamJsonArray(chunked('{"sessions": [{"a": 1}, {"a": }]}', 4), 'sessions')), /Invalid JSON in element 2 of "sessions"/);
+  });
+});
+
+describe('streamJsonLines', () => {
+  test('yields one value per line and names the invalid line', async () => {
+    assert.deepEqual(await collect(streamJsonLines(chunked('{"a": 1}\n\n[2]\n"three"', 2))), [{ a: 1 }, [2], 'three']);
+    await assert.rejects(collect(streamJsonLines(chunked('{"a": 1}\n{"a": \n', 5))), /Invalid JSON on line 2/);
+  });
+});
@@ -0,0 +1,120 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { getConfig, initConfig } from '../src/config';
+import { PostHogEvent } from '../src/posthog';
+import { KeyMoment } from '../src/rrweb';
+import { evaluateRules } from '../src/rules';
+import { DEFAULT_START_TIME } from './sessionBuilder';
+
+// Constants
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const CHECKOUT_URL = 'https://shop.example.com/checkout';
+
+/**
+ * Create a PostHog event on the checkout page
+ * @param event Event name
+ * @param sessionId Session of the event
+ * @param offsetMs Milliseconds after the default start time
+ * @param properties Additional properties
+ * @returns The event
+ */
+function createEvent(event: string, sessionId: string, offsetMs: number, properties: Record<string, any> = {}): PostHogEvent {
+  return {
+    id: `${sessionId}-${event}-${offsetMs}`,
+    event,
+    distinct_id: `user-${sessionId}`,
+    timestamp: new Date(DEFAULT_START_TIME + offsetMs).toISOString(),
+    properties: { $session_id: sessionId, $current_url: CHECKOUT_URL, ...properties }
+  };
+}
+
+/**
+ * Create autocaptured clicks on an element
+ * @param sessionId Session of the clicks
+ * @param selector Selector of the clicked element
+ * @param offsetsMs Milliseconds after the default start time of each click
+ * @returns The events
+ */
+function createClicks(sessionId: string, selector: string, offsetsMs: number[]): PostHogEvent[] {
+  return offsetsMs.map(offsetMs => createEvent('$autocapture', sessionId, offsetMs, { $event_type: 'click', $el_selector: selector }));
+}
+
+describe('rules', () => {
+  before(() => {
+    initConfig({ configPath: path.join(FIXTURES_DIR, 'config.json'), env: {} });
+  });
+
+  test('merges RRweb rage clicks with PostHog $rageclick events on the same page and element', () => {
+    const moment: KeyMoment = {
+      type: 'RageClick',
+      timestamp: DEFAULT_START_TIME,
+      sessionId: 's1',
+      url: CHECKOUT_URL,
+      clickCount: 4,
+      element: { tag: 'BUTTON', className: 'pay' },
+      context: []
+    };
+    const events = [createEvent('$rageclick', 's2', 0, { $el_selector: 'button.pay' })];
+
+    const [finding, ...others] = evaluateRules(events, [moment]);
+
+    assert.equal(others.length, 0);
+    assert.equal(finding.rule, 'RageClick');
+    assert.equal(finding.issue.title, 'Rage clicks on button.pay at /checkout');
+    assert.deepEqual(finding.sessionIds, ['s1', 's2']);
+    assert.equal(finding.occurrences, 2);
+    assert.equal(finding.score, 6);
+    assert.match(finding.issue.description, /Detected by rules from RRweb recordings and PostHog \$rageclick events\./);
+  });
+
+  test('scores each session with the rule weight and each repeat with one, and maps the score to a severity', () => {
+    const events = [
+      createEvent('$exception', 's1', 0, { $exception_message: 'Cannot read properties of undefined' }),
+      createEvent('$exception', 's1', 1000, { $exception_message: 'Cannot read properties of undefined' }),
+      createEvent('$exception', 's2', 0, { $exception_message: 'Cannot read properties of undefined' })
+    ];
+    const settings = getConfig().rules;
+
+    const [finding] = evaluateRules(events, [], settings);
+    assert.equal(finding.score, 4 * 2 + 1);
+    assert.equal(finding.issue.severity, 'high');
+    assert.equal(evaluateRules(events, [], { ...settings, highSeverityScore: 10 })[0].issue.severity, 'medium');
+    assert.equal(evaluateRules(events, [], { ...settings, mediumSeverityScore: 10, highSeverityScore: 10 })[0].issue.severity, 'low');
+  });
+
+  test('drops findings below the minimum score', () => {
+    const moment: KeyMoment = {
+      type: 'DeadClick',
+      timestamp: DEFAULT_START_TIME,
+      sessionId: 's1',
+      url: CHECKOUT_URL,
+      element: { tag: 'DIV', className: 'price' },
+      context: []
+    };
+    const settings = getConfig().rules;
+
+    assert.deepEqual(evaluateRules([], [moment], settings), []);
+    assert.deepEqual(evaluateRules([], [moment], { ...settings, minScore: 1 }).map(finding => [finding.score, finding.issue.severity]), [[1, 'low']]);
+  });
+
+  test('finds bursts of autocaptured clicks on elements PostHog reported no $rageclick for', () => {
+    const events = [
+      // PostHog flagged the help link, so its clicks are not counted again
+      createEvent('$rageclick', 's1', 0, { $el_selector: 'a.help' }),
+      ...createClicks('s1', 'a.help', [0, 200, 400]),
+      // The buy button in the same session was not flagged
+      ...createClicks('s1', 'button.buy', [5000, 5300, 5600, 5900]),
+      // Clicks too far apart are not a burst
+      ...createClicks('s2', 'button.buy', [0, 2000, 4000])
+    ];
+
+    const findings = evaluateRules(events, [], { ...getConfig().rules, minScore: 0 });
+
+    assert.deepEqual(findings.map(finding => [finding.issue.elementSelector, finding.sessionIds, finding.occurrences]), [
+      ['a.help', ['s1'], 1],
+      ['button.buy', ['s1'], 1]
+    ]);
+    assert.match(findings[1].issue.description, /Detected by rules from PostHog \$autocapture clicks\./);
+  });
+});
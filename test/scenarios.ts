@@ -0,0 +1,152 @@
+import { ElementTarget, SessionBuilder, createSessionBuilder } from './sessionBuilder';
+
+const PAGE = 'https://shop.example.com/checkout';
+const BUY_BUTTON: ElementTarget = { tagName: 'BUTTON', id: 'buy', className: 'btn primary', textContent: 'Buy now', width: 120, height: 40 };
+const SUBMIT_BUTTON: ElementTarget = { tagName: 'BUTTON', id: 'submit', attributes: { type: 'submit' }, textContent: 'Place order' };
+const PRICE_LABEL: ElementTarget = { tagName: 'DIV', className: 'price-tag', textContent: '$49' };
+const EMAIL_FIELD: ElementTarget = { tagName: 'INPUT', id: 'email', attributes: { form: 'signup', type: 'email' } };
+const NAME_FIELD: ElementTarget = { tagName: 'INPUT', id: 'name', attributes: { form: 'signup', type: 'text' } };
+
+/**
+ * A synthetic recording and the key moments it must produce
+ */
+export interface Scenario {
+  /** Sessions in the recording */
+  build: () => SessionBuilder[];
+  /** Key moment types that must be among the results, in addition to the golden file check */
+  expectedTypes: string[];
+}
+
+/**
+ * One scenario per key moment type, named after its golden file
+ */
+export const SCENARIOS: Record<string, Scenario> = {
+  'rage-click': {
+    build: () => [
+      createSessionBuilder({ sessionId: 'rage-click' })
+        .visit(PAGE)
+        .wait(2000).click(BUY_BUTTON, 400, 300)
+        .wait(200).click(BUY_BUTTON, 402, 301)
+        .wait(200).click(BUY_BUTTON, 401, 299).posthog('$rageclick', { $el_text: 'Buy now' })
+        .wait(15000).mouseMove(10, 10)
+    ],
+    expectedTypes: ['RageClick']
+  },
+  'dead-click': {
+    build: () => [
+      createSessionBuilder({ sessionId: 'dead-click' })
+        .visit(PAGE)
+        .wait(3000).click(PRICE_LABEL, 200, 150).posthog('$autocapture', { $event_type: 'click', $el_text: '$49' })
+        .wait(12000).mouseMove(10, 10)
+    ],
+    expectedTypes: ['DeadClick']
+  },
+  'form-abandonment': {
+    build: () => [
+      createSessionBuilder({ sessionId: 'form-abandonment' })
+        .visit(PAGE)
+        .wait(1000).input(NAME_FIELD, 'Ada')
+        .wait(1500).input(EMAIL_FIELD, 'ada@')
+        .wait(12000).mouseMove(10, 10)
+    ],
+    expectedTypes: ['FormAbandonment']
+  },
+  'navigation-loop': {
+    build: () => [
+      createSessionBuilder({ sessionId: 'navigation-loop' })
+        .visit('https://shop.example.com/cart')
+        .wait(5000).visit(PAGE)
+        .wait(5000).visit('https://shop.example.com/cart')
+        .wait(5000).visit(PAGE)
+        .wait(5000).visit('https://shop.example.com/cart')
+    ],
+    expectedTypes: ['NavigationLoop']
+  },
+  'multi-page': {
+    // The form is abandoned on the checkout page and the dead click happens on the pricing page
+    build: () => [
+      createSessionBuilder({ sessionId: 'multi-page' })
+        .visit(PAGE)
+        .wait(1000).input(NAME_FIELD, 'Ada')
+        .wait(1500).input(EMAIL_FIELD, 'ada@')
+        .wait(3000).visit('https://shop.example.com/pricing')
+        .wait(2000).click(PRICE_LABEL, 200, 150)
+        .wait(12000).mouseMove(10, 10)
+    ],
+    expectedTypes: ['FormAbandonment', 'DeadClick']
+  },
+  'rapid-scrolling': {
+    build: () => {
+      const session = createSessionBuilder({ sessionId: 'rapid-scrolling' }).visit(PAGE);
+      for (let i = 1; i <= 8; i++) {
+        session.wait(300).scroll(0, i * 400);
+      }
+      return [session.wait(12000).mouseMove(10, 10)];
+    },
+    expectedTypes: ['RapidScrolling']
+  },
+  'mouse-hovering': {
+    // Mouse positions are dropped when events are processed, so the detector never sees them
+    build: () => [
+      createSessionBuilder({ sessionId: 'mouse-hovering' })
+        .visit(PAGE)
+        .wait(1000).mouseMove(500, 500)
+        .wait(3500).mouseMove(505, 502)
+        .wait(3500).mouseMove(508, 498)
+        .wait(5000).mouseMove(10, 10)
+    ],
+    expectedTypes: []
+  },
+  'hesitation': {
+    build: () => [
+      createSessionBuilder({ sessionId: 'hesitation' })
+        .visit(PAGE)
+        .wait(1000).input(NAME_FIELD, 'Ada')
+        .wait(20000).click(BUY_BUTTON, 400, 300)
+    ],
+    expectedTypes: ['Hesitation']
+  },
+  'multiple-submissions': {
+    build: () => [
+      createSessionBuilder({ sessionId: 'multiple-submissions' })
+        .visit(PAGE)
+        .wait(2000).click(SUBMIT_BUTTON, 600, 700).posthog('$autocapture', { $event_type: 'submit' })
+        .wait(2000).click(SUBMIT_BUTTON, 600, 700).posthog('$autocapture', { $event_type: 'submit' })
+        .wait(2000).click(SUBMIT_BUTTON, 600, 700).posthog('$autocapture', { $event_type: 'submit' })
+        .wait(10000).mouseMove(10, 10)
+    ],
+    expectedTypes: ['MultipleSubmissions']
+  },
+  'horizontal-scroll-mobile': {
+    // Scroll positions are dropped when events are processed, so the detector never sees them
+    build: () => [
+      createSessionBuilder({ sessionId: 'horizontal-scroll-mobile' })
+        .visit(PAGE, 375, 812)
+        .wait(2000).scroll(120, 0)
+        .wait(12000).mouseMove(10, 10)
+    ],
+    expectedTypes: []
+  },
+  'short-session': {
+    build: () => [
+      createSessionBuilder({ sessionId: 'short-session' })
+        .visit(PAGE)
+        .wait(2500).scroll(0, 200)
+    ],
+    expectedTypes: ['ShortSession']
+  },
+  'concurrent-users': {
+    // Two users active at the same time: each moment lists only the PostHog events of its own session
+    build: () => [
+      createSessionBuilder({ sessionId: 'user-one', userId: 'one' })
+        .visit(PAGE)
+        .wait(2000).click(PRICE_LABEL, 200, 150).posthog('$autocapture', { $event_type: 'click' })
+        .wait(12000).mouseMove(10, 10),
+      createSessionBuilder({ sessionId: 'user-two', userId: 'two' })
+        .visit(PAGE)
+        .wait(2500).click(PRICE_LABEL, 210, 155).posthog('$autocapture', { $event_type: 'click' })
+        .wait(12000).mouseMove(10, 10)
+    ],
+    expectedTypes: ['DeadClick']
+  }
+};
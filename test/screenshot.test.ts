@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { initConfig } from '../src/config';
+import { listScreenshotRuns, pruneScreenshotRuns } from '../src/screenshot';
+
+// Constants
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('screenshot retention', () => {
+  let screenshotsDir: string;
+
+  /**
+   * Create a run directory, with a manifest unless the run was interrupted
+   * @param createdAt Time the run started
+   * @param withManifest Whether the run finished and wrote its manifest
+   * @returns Path of the run directory
+   */
+  function createRun(createdAt: Date, withManifest: boolean): string {
+    const runId = createdAt.toISOString().replace(/[:.]/g, '-');
+    const runDir = path.join(screenshotsDir, runId);
+    fs.mkdirSync(path.join(runDir, 'session-1'), { recursive: true });
+    if (withManifest) {
+      fs.writeFileSync(path.join(runDir, 'manifest.json'), JSON.stringify({ runId, createdAt: createdAt.toISOString(), screenshots: [] }));
+    }
+    fs.utimesSync(runDir, createdAt, createdAt);
+    return runDir;
+  }
+
+  beforeEach(() => {
+    screenshotsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'issue-spotter-screenshots-'));
+    initConfig({ configPath: path.join(FIXTURES_DIR, 'config.json'), env: { SCREENSHOT_RETENTION_RUNS: '2' } });
+  });
+
+  afterEach(() => {
+    fs.rmSync(screenshotsDir, { recursive: true, force: true });
+  });
+
+  test('keeps the newest runs and removes interrupted runs once they are a day old', () => {
+    const now = Date.now();
+    createRun(new Date(now - 3 * DAY_MS), true);
+    const abandoned = createRun(new Date(now - 2 * DAY_MS), false);
+    createRun(new Date(now - DAY_MS), true);
+    const inProgress = createRun(new Date(now - 60 * 1000), false);
+    createRun(new Date(now), true);
+
+    assert.equal(pruneScreenshotRuns(screenshotsDir), 2);
+
+    assert.equal(listScreenshotRuns(screenshotsDir).length, 2);
+    assert.equal(fs.existsSync(abandoned), false);
+    assert.equal(fs.existsSync(inProgress), true);
+  });
+});
@@ -0,0 +1,191 @@
+import { RRwebEvent, RRwebExport } from '../src/rrweb';
+import { PostHogEvent } from '../src/posthog';
+
+// rrweb event and incremental source numbers, as recorded
+const EVENT_TYPE = { FullSnapshot: 2, IncrementalSnapshot: 3, Meta: 4, Custom: 5 };
+const SOURCE = { Mutation: 0, MouseMove: 1, MouseInteraction: 2, Scroll: 3, Input: 5 };
+const NODE_TYPE = { Document: 0, Element: 2 };
+const MOUSE_INTERACTION = { Click: 2 };
+
+// Start of every synthetic session, so golden files stay stable
+export const DEFAULT_START_TIME = Date.UTC(2025, 0, 1, 12, 0, 0);
+
+/**
+ * Element an interaction targets, in the shape processRRwebEvent reads
+ */
+export interface ElementTarget {
+  tagName: string;
+  id?: string;
+  className?: string;
+  textContent?: string;
+  attributes?: Record<string, string>;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Options for a synthetic session
+ */
+export interface SessionBuilderOptions {
+  /** Session ID, also used as the PostHog $session_id */
+  sessionId: string;
+  /** PostHog distinct_id of the user */
+  userId?: string;
+  /** Timestamp of the first event */
+  startTime?: number;
+}
+
+/**
+ * Chainable builder for a synthetic rrweb session
+ *
+ * Each interaction is recorded at the current time; `wait` moves the clock forward.
+ */
+export interface SessionBuilder {
+  /** Load a page: a Meta event with the URL and viewport, then a full snapshot with the given form fields */
+  visit(href: string, width?: number, height?: number, fields?: ElementTarget[]): SessionBuilder;
+  /** Change the URL without a page load, as PostHog records client-side routing */
+  navigate(href: string): SessionBuilder;
+  /** Move the clock forward */
+  wait(ms: number): SessionBuilder;
+  /** Click an element at a position */
+  click(target: ElementTarget, x: number, y: number): SessionBuilder;
+  /** Type into a form field, adding it to the page with a mutation when the snapshot lacks it */
+  input(target: ElementTarget, text: string): SessionBuilder;
+  /** Scroll the page to a position */
+  scroll(x: number, y: number): SessionBuilder;
+  /** Move the mouse to a position */
+  mouseMove(x: number, y: number): SessionBuilder;
+  /** Record a PostHog event for the session at the current time */
+  posthog(event: string, properties?: Record<string, any>): SessionBuilder;
+  /** Recorded rrweb events */
+  readonly events: RRwebEvent[];
+  /** Recorded PostHog events */
+  readonly posthogEvents: PostHogEvent[];
+  /** Session ID */
+  readonly sessionId: string;
+}
+
+/**
+ * Create a builder for a synthetic rrweb session
+ * @param options Session ID, user and start time
+ * @returns Session builder
+ */
+export function createSessionBuilder(options: SessionBuilderOptions): SessionBuilder {
+  const events: RRwebEvent[] = [];
+  const posthogEvents: PostHogEvent[] = [];
+  let now = options.startTime ?? DEFAULT_START_TIME;
+  let currentUrl = '';
+  let nextNodeId = 1;
+
+  let fieldIds = new Map<ElementTarget, number>();
+
+  const record = (type: number, data: any) => {
+    events.push({ type, timestamp: now, data });
+  };
+
+  // Serialize a field the way rrweb does, with its ID and classes among the attributes
+  const serializeField = (target: ElementTarget) => {
+    const id = nextNodeId++;
+    fieldIds.set(target, id);
+    return {
+      type: NODE_TYPE.Element,
+      id,
+      tagName: target.tagName.toLowerCase(),
+      attributes: {
+        ...target.attributes,
+        ...(target.id ? { id: target.id } : {}),
+        ...(target.className ? { class: target.className } : {})
+      },
+      childNodes: []
+    };
+  };
+
+  const builder: SessionBuilder = {
+    visit(href, width = 1280, height = 800, fields = []) {
+      currentUrl = href;
+      fieldIds = new Map();
+      record(EVENT_TYPE.Meta, { href, width, height });
+      const documentId = nextNodeId++;
+      record(EVENT_TYPE.FullSnapshot, {
+        node: { type: NODE_TYPE.Document, childNodes: fields.map(serializeField), id: documentId },
+        initialOffset: { top: 0, left: 0 }
+      });
+      return builder;
+    },
+    navigate(href) {
+      currentUrl = href;
+      record(EVENT_TYPE.Custom, { tag: '$url_changed', payload: { href } });
+      return builder;
+    },
+    wait(ms) {
+      now += ms;
+      return builder;
+    },
+    click(target, x, y) {
+      record(EVENT_TYPE.IncrementalSnapshot, {
+        source: SOURCE.MouseInteraction,
+        type: MOUSE_INTERACTION.Click,
+        id: nextNodeId++,
+        x,
+        y,
+        target
+      });
+      return builder;
+    },
+    input(target, text) {
+      if (!fieldIds.has(target)) {
+        record(EVENT_TYPE.IncrementalSnapshot, {
+          source: SOURCE.Mutation,
+          adds: [{ parentId: 1, nextId: null, node: serializeField(target) }],
+          removes: [],
+          texts: [],
+          attributes: []
+        });
+      }
+      // rrweb records only the node ID of the field
+      record(EVENT_TYPE.IncrementalSnapshot, { source: SOURCE.Input, id: fieldIds.get(target), text, isChecked: false });
+      return builder;
+    },
+    scroll(x, y) {
+      record(EVENT_TYPE.IncrementalSnapshot, { source: SOURCE.Scroll, id: 1, x, y });
+      return builder;
+    },
+    mouseMove(x, y) {
+      record(EVENT_TYPE.IncrementalSnapshot, { source: SOURCE.MouseMove, positions: [{ x, y, id: 1, timeOffset: 0 }] });
+      return builder;
+    },
+    posthog(event, properties = {}) {
+      posthogEvents.push({
+        id: `${options.sessionId}-${posthogEvents.length + 1}`,
+        event,
+        distinct_id: options.userId || `user-${options.sessionId}`,
+        timestamp: new Date(now).toISOString(),
+        properties: { $session_id: options.sessionId, $current_url: currentUrl, ...properties }
+      });
+      return builder;
+    },
+    get events() {
+      return events;
+    },
+    get posthogEvents() {
+      return posthogEvents;
+    },
+    sessionId: options.sessionId
+  };
+
+  return builder;
+}
+
+/**
+ * Combine sessions into an export in the format loadRRwebData reads
+ * @param sessions Built sessions
+ * @returns RRweb export with one record per session
+ */
+export function toRRwebExport(...sessions: SessionBuilder[]): RRwebExport {
+  return {
+    sessions: sessions.map(session => ({
+      sessionId: session.sessionId,
+      records: [{ id: `${session.sessionId}-record`, session_id: session.sessionId, events: session.events }]
+    }))
+  };
+}
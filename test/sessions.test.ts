@@ -0,0 +1,113 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { initConfig } from '../src/config';
+import { PostHogEvent } from '../src/posthog';
+import { processRRwebSession } from '../src/rrweb';
+import { buildSessions, getSessionIdsByEvent } from '../src/sessions';
+import { createSessionBuilder, DEFAULT_START_TIME } from './sessionBuilder';
+
+// Constants
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const MINUTE = 60 * 1000;
+
+/**
+ * Create a PostHog event
+ * @param id Event ID
+ * @param distinctId User of the event
+ * @param offsetMs Time after the default start time
+ * @param sessionId Session ID, omitted for events captured without one
+ * @returns The event
+ */
+function createEvent(id: string, distinctId: string, offsetMs: number, sessionId?: string): PostHogEvent {
+  return {
+    id,
+    event: '$autocapture',
+    distinct_id: distinctId,
+    timestamp: new Date(DEFAULT_START_TIME + offsetMs).toISOString(),
+    properties: sessionId ? { $session_id: sessionId } : {}
+  };
+}
+
+/**
+ * Reduce sessions to their IDs and event IDs
+ * @param events Events to group
+ * @param recordings Recorded sessions
+ * @returns Event IDs by session ID, in session order
+ */
+function groupIds(events: PostHogEvent[], recordings: Parameters<typeof buildSessions>[1] = []) {
+  return buildSessions(events, recordings).map(session => [session.id, session.events.map(event => event.id)]);
+}
+
+describe('buildSessions', () => {
+  before(() => {
+    initConfig({ configPath: path.join(FIXTURES_DIR, 'config.json'), env: {} });
+  });
+
+  test('joins events and the recording with the same session ID', () => {
+    const builder = createSessionBuilder({ sessionId: 'checkout', userId: 'one' })
+      .visit('https://shop.example.com/').wait(1000).posthog('$pageview').wait(30000).scroll(0, 400);
+    const recording = processRRwebSession({
+      sessionId: 'checkout',
+      records: [{ id: 'main', session_id: 'checkout', events: builder.events }]
+    });
+
+    const [session] = buildSessions(builder.posthogEvents, [recording]);
+    assert.equal(session.id, 'checkout');
+    assert.equal(session.grouping, 'id');
+    assert.equal(session.recording, recording);
+    assert.deepEqual(session.events, builder.posthogEvents);
+    assert.equal(session.endTime, recording.metadata.endTime);
+  });
+
+  test('places events without a session ID in the same user\'s session, never another user\'s', () => {
+    const events = [
+      createEvent('one-1', 'one', 0, 'session-one'),
+      createEvent('two-1', 'two', 500, 'session-two'),
+      createEvent('one-2', 'one', 1000),
+      createEvent('two-2', 'two', 1500),
+      createEvent('one-3', 'one', 2000, 'session-one')
+    ];
+
+    assert.deepEqual(groupIds(events), [
+      ['session-one', ['one-1', 'one-2', 'one-3']],
+      ['session-two', ['two-1', 'two-2']]
+    ]);
+  });
+
+  test('joins a recording of an unknown user by time only when no session of the user is active', () => {
+    const builder = createSessionBuilder({ sessionId: 'anonymous' }).visit('https://shop.example.com/').wait(5000).scroll(0, 200);
+    const recording = processRRwebSession({
+      sessionId: 'anonymous',
+      records: [{ id: 'main', session_id: 'anonymous', events: builder.events }]
+    });
+    const events = [
+      createEvent('known-1', 'known', 0, 'session-known'),
+      createEvent('known-2', 'known', 2000),
+      createEvent('other-1', 'other', 2000)
+    ];
+
+    assert.deepEqual(groupIds(events, [recording]), [
+      ['session-known', ['known-1', 'known-2']],
+      ['anonymous', ['other-1']]
+    ]);
+  });
+
+  test('groups events without any session ID by user until the session timeout', () => {
+    const events = [
+      createEvent('one-3', 'one', 45 * MINUTE),
+      createEvent('one-1', 'one', 0),
+      createEvent('two-1', 'two', 5 * MINUTE),
+      createEvent('one-2', 'one', 10 * MINUTE)
+    ];
+    const sessions = buildSessions(events);
+
+    assert.deepEqual(sessions.map(session => [session.grouping, session.distinctId, session.events.map(event => event.id)]), [
+      ['inactivity', 'one', ['one-1', 'one-2']],
+      ['inactivity', 'two', ['two-1']],
+      ['inactivity', 'one', ['one-3']]
+    ]);
+    assert.equal(sessions[0].id, `one_${DEFAULT_START_TIME}`);
+    assert.equal(getSessionIdsByEvent(sessions).get(events[0]), `one_${DEFAULT_START_TIME + 45 * MINUTE}`);
+  });
+});
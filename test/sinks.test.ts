@@ -0,0 +1,278 @@
+import { after, afterEach, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { mapSeverityToPriority } from '../src/ai';
+import { initConfig } from '../src/config';
+import { DetectedIssue } from '../src/posthog';
+import { ScreenshotRecord } from '../src/screenshot';
+import { TicketDraft, createGitHubSink, createJiraSink, createLinearSink, createSinksFromConfig, createWebhookSink, publishTickets, selectEvidenceScreenshots } from '../src/sinks';
+
+// Constants
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const SCREENSHOT_CONTENT = Buffer.from('fake png bytes');
+
+/**
+ * A request received by the tracker stand-in
+ */
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Reply of the tracker stand-in
+ */
+type StandInReply = { status?: number; body: unknown };
+
+const ISSUE: DetectedIssue = {
+  title: 'Pay button does nothing',
+  severity: 'high',
+  description: 'Users click Pay repeatedly without any response',
+  category: 'dead_click',
+  pageUrl: 'https://shop.example.com/checkout',
+  elementSelector: 'button.pay'
+};
+
+describe('ticket sinks', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let uploadedPaths: Set<string>;
+  let tempDir: string;
+  let ticket: TicketDraft;
+
+  /**
+   * Answer a request the way the tracker APIs do
+   * @param request Recorded request
+   * @returns Status and JSON body
+   */
+  function reply(request: RecordedRequest): StandInReply {
+    const { method, url } = request;
+
+    if (method === 'POST' && url === '/repos/acme/shop/issues') {
+      return { status: 201, body: { number: 7, html_url: 'https://github.example/acme/shop/issues/7' } };
+    }
+    if (url.startsWith('/repos/acme/shop/contents/')) {
+      const filePath = url.split('?')[0];
+      const downloadUrl = `https://raw.github.example${filePath}`;
+      if (method === 'GET') return { body: { download_url: downloadUrl } };
+      if (uploadedPaths.has(filePath)) return { status: 422, body: { message: '"sha" wasn\'t supplied.' } };
+      uploadedPaths.add(filePath);
+      return { status: 201, body: { content: { download_url: downloadUrl } } };
+    }
+    if (url === '/rest/api/2/issue') return { status: 201, body: { key: 'UX-1' } };
+    if (url === '/rest/api/2/issue/UX-1/attachments') return { body: [] };
+    if (url === '/graphql') {
+      const { query, variables } = JSON.parse(request.body);
+      if (query.includes('fileUpload')) {
+        return { body: { data: { fileUpload: { success: true, uploadFile: { uploadUrl: `${baseUrl}/uploads/1`, assetUrl: 'https://uploads.linear.example/1', headers: [{ key: 'x-upload-token', value: 'secret' }] } } } } };
+      }
+      // Linear answers without an error but does not create issues in archived teams
+      return variables.input.teamId === 'archived-team'
+        ? { body: { data: { issueCreate: { success: false, issue: null } } } }
+        : { body: { data: { issueCreate: { success: true, issue: { id: 'issue-1', identifier: 'UX-12', url: 'https://linear.example/UX-12' } } } } };
+    }
+    if (url === '/uploads/1') return { body: '' };
+    if (url === '/webhook') return { body: { id: 42, url: 'https://tickets.example/42' } };
+
+    return { status: 404, body: { message: 'Not found' } };
+  }
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        const request = { method: req.method!, url: req.url!, headers: req.headers, body: Buffer.concat(chunks).toString('utf8') };
+        requests.push(request);
+
+        const { status = 200, body } = reply(request);
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    initConfig({ configPath: path.join(FIXTURES_DIR, 'config.json'), env: { REDACTION_ENABLED: 'false' } });
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    requests = [];
+    uploadedPaths = new Set();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'issue-spotter-sinks-'));
+    const screenshotPath = path.join(tempDir, 'checkout-click.png');
+    fs.writeFileSync(screenshotPath, SCREENSHOT_CONTENT);
+    ticket = { issue: ISSUE, fingerprint: 'abc123', screenshotPaths: [screenshotPath] };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('files a GitHub issue and reuses evidence that is already on the branch', async () => {
+    const sink = createGitHubSink({ token: 'ghp_test', repository: 'acme/shop', apiUrl: baseUrl, evidenceBranch: 'ux-evidence' });
+
+    const result = await sink.createTicket(ticket);
+    await sink.createTicket(ticket);
+
+    assert.deepEqual(result, { sink: 'github', title: ISSUE.title, id: '7', url: 'https://github.example/acme/shop/issues/7', dryRun: false });
+    assert.deepEqual(requests.map(request => `${request.method} ${request.url.split('?')[0].replace(/[0-9a-f]{12}-/, '<hash>-')}`), [
+      'PUT /repos/acme/shop/contents/ux-evidence/<hash>-checkout-click.png',
+      'POST /repos/acme/shop/issues',
+      'PUT /repos/acme/shop/contents/ux-evidence/<hash>-checkout-click.png',
+      'GET /repos/acme/shop/contents/ux-evidence/<hash>-checkout-click.png',
+      'POST /repos/acme/shop/issues'
+    ]);
+
+    const upload = JSON.parse(requests[0].body);
+    assert.equal(Buffer.from(upload.content, 'base64').toString(), SCREENSHOT_CONTENT.toString());
+    assert.equal(upload.branch, 'ux-evidence');
+    assert.equal(requests[0].headers.authorization, 'Bearer ghp_test');
+
+    for (const request of [requests[1], requests[4]]) {
+      const body = JSON.parse(request.body);
+      assert.equal(body.title, ISSUE.title);
+      assert.deepEqual(body.labels, ['ux-issue', `priority: ${mapSeverityToPriority('high')}`]);
+      assert.match(body.body, /!\[checkout-click\.png\]\(https:\/\/raw\.github\.example\/repos\/acme\/shop\/contents\/ux-evidence\/[0-9a-f]{12}-checkout-click\.png\)/);
+      assert.match(body.body, /fingerprint `abc123`/);
+    }
+  });
+
+  test('creates a Jira issue with the mapped priority and attaches the screenshots', async () => {
+    const sink = createJiraSink({ baseUrl, email: 'bot@example.com', apiToken: 'jira-token', projectKey: 'UX' });
+
+    const result = await sink.createTicket(ticket);
+
+    assert.deepEqual(result, { sink: 'jira', title: ISSUE.title, id: 'UX-1', url: `${baseUrl}/browse/UX-1`, dryRun: false });
+    const { fields } = JSON.parse(requests[0].body);
+    assert.deepEqual(
+      { project: fields.project, summary: fields.summary, issuetype: fields.issuetype, priority: fields.priority, labels: fields.labels },
+      { project: { key: 'UX' }, summary: ISSUE.title, issuetype: { name: 'Bug' }, priority: { name: mapSeverityToPriority('high') }, labels: ['ux-issue'] }
+    );
+    assert.equal(requests[0].headers.authorization, `Basic ${Buffer.from('bot@example.com:jira-token').toString('base64')}`);
+
+    const attachment = requests[1];
+    assert.equal(attachment.url, '/rest/api/2/issue/UX-1/attachments');
+    assert.equal(attachment.headers['x-atlassian-token'], 'no-check');
+    assert.match(attachment.headers['content-type']!, /^multipart\/form-data/);
+    assert.match(attachment.body, /filename="checkout-click\.png"/);
+    assert.ok(attachment.body.includes(SCREENSHOT_CONTENT.toString()));
+  });
+
+  test('uploads screenshots to Linear and creates the issue with the mapped priority', async () => {
+    const sink = createLinearSink({ apiKey: 'lin_test', teamId: 'team-1', apiUrl: `${baseUrl}/graphql` });
+
+    const result = await sink.createTicket(ticket);
+
+    assert.deepEqual(result, { sink: 'linear', title: ISSUE.title, id: 'UX-12', url: 'https://linear.example/UX-12', dryRun: false });
+    assert.deepEqual(requests.map(request => `${request.method} ${request.url}`), ['POST /graphql', 'PUT /uploads/1', 'POST /graphql']);
+    assert.equal(requests[0].headers.authorization, 'lin_test');
+    assert.deepEqual(JSON.parse(requests[0].body).variables, { contentType: 'image/png', filename: 'checkout-click.png', size: SCREENSHOT_CONTENT.length });
+    assert.equal(requests[1].body, SCREENSHOT_CONTENT.toString());
+    assert.equal(requests[1].headers['x-upload-token'], 'secret');
+
+    const { input } = JSON.parse(requests[2].body).variables;
+    assert.equal(input.teamId, 'team-1');
+    assert.equal(input.priority, 2);
+    assert.match(input.description, /!\[checkout-click\.png\]\(https:\/\/uploads\.linear\.example\/1\)/);
+  });
+
+  test('fails when Linear reports that the issue was not created', async () => {
+    const sink = createLinearSink({ apiKey: 'lin_test', teamId: 'archived-team', apiUrl: `${baseUrl}/graphql` });
+
+    await assert.rejects(sink.createTicket({ ...ticket, screenshotPaths: [] }), /Linear did not create the issue "Pay button does nothing" in team archived-team/);
+  });
+
+  test('attaches only the screenshots that support the issue', () => {
+    const screenshot = (sessionId: string, elementSelector?: string): ScreenshotRecord => ({
+      sessionId,
+      timestamp: 1735732800000,
+      phase: 'at',
+      elementSelector,
+      viewport: { width: 1280, height: 800 },
+      path: `/screenshots/${sessionId}.png`
+    });
+
+    assert.deepEqual(
+      selectEvidenceScreenshots({ ...ISSUE, exampleSessionIds: ['s2'] }, [screenshot('s1', 'button.pay'), screenshot('s2'), screenshot('s3')]),
+      ['/screenshots/s1.png', '/screenshots/s2.png']
+    );
+    assert.deepEqual(selectEvidenceScreenshots({ ...ISSUE, elementSelector: 'a.help' }, [screenshot('s1', 'button.pay'), screenshot('s3')]), []);
+  });
+
+  test('posts the ticket to a webhook with the screenshots inlined', async () => {
+    const sink = createWebhookSink({ url: `${baseUrl}/webhook`, headers: { 'Authorization': 'Bearer hook-secret' } });
+
+    const result = await sink.createTicket(ticket);
+
+    assert.deepEqual(result, { sink: 'webhook', title: ISSUE.title, id: '42', url: 'https://tickets.example/42', dryRun: false });
+    assert.equal(requests[0].headers.authorization, 'Bearer hook-secret');
+    assert.deepEqual(JSON.parse(requests[0].body), {
+      issue: ISSUE,
+      priority: mapSeverityToPriority('high'),
+      fingerprint: 'abc123',
+      screenshots: [{ filename: 'checkout-click.png', contentType: 'image/png', data: SCREENSHOT_CONTENT.toString('base64') }]
+    });
+  });
+
+  test('sends nothing in a dry run', async () => {
+    const sinks = [
+      createGitHubSink({ token: 'ghp_test', repository: 'acme/shop', apiUrl: baseUrl, evidenceBranch: 'ux-evidence', dryRun: true }),
+      createJiraSink({ baseUrl, email: 'bot@example.com', apiToken: 'jira-token', projectKey: 'UX', dryRun: true }),
+      createLinearSink({ apiKey: 'lin_test', teamId: 'team-1', apiUrl: `${baseUrl}/graphql`, dryRun: true }),
+      createWebhookSink({ url: `${baseUrl}/webhook`, dryRun: true })
+    ];
+
+    const results = await publishTickets([ticket], sinks);
+
+    assert.deepEqual(results.map(result => [result.sink, result.dryRun]), [['github', true], ['jira', true], ['linear', true], ['webhook', true]]);
+    assert.equal(requests.length, 0);
+  });
+
+  test('skips the sinks a ticket was already filed in and keeps going past failures', async () => {
+    const sinks = [
+      createGitHubSink({ token: 'ghp_test', repository: 'acme/shop', apiUrl: baseUrl }),
+      createJiraSink({ baseUrl: `${baseUrl}/missing`, email: 'bot@example.com', apiToken: 'jira-token', projectKey: 'UX' }),
+      createWebhookSink({ url: `${baseUrl}/webhook` })
+    ];
+
+    const results = await publishTickets([{ ...ticket, filedIn: ['github'] }], sinks);
+
+    assert.deepEqual(results.map(result => [result.sink, result.fingerprint]), [['webhook', 'abc123']]);
+    assert.deepEqual(requests.map(request => request.url), ['/missing/rest/api/2/issue', '/webhook']);
+  });
+
+  test('builds the enabled sinks from the configuration and requires their tokens', async () => {
+    const env = { TICKET_SINKS: 'github,webhook', GITHUB_REPOSITORY: 'acme/shop', GITHUB_API_URL: baseUrl, TICKET_WEBHOOK_URL: `${baseUrl}/webhook` };
+    assert.throws(
+      () => initConfig({ configPath: path.join(FIXTURES_DIR, 'config.json'), env: { TICKET_SINKS: 'github,jira' } }),
+      /sinks\.github\.repository is required[\s\S]*sinks\.jira\.baseUrl is required/
+    );
+
+    try {
+      initConfig({ configPath: path.join(FIXTURES_DIR, 'config.json'), env: { ...env, REDACTION_ENABLED: 'false' } });
+      delete process.env.GITHUB_TOKEN;
+      assert.throws(() => createSinksFromConfig(), /GITHUB_TOKEN is not set/);
+
+      process.env.GITHUB_TOKEN = 'ghp_test';
+      const sinks = createSinksFromConfig();
+      assert.deepEqual(sinks.map(sink => sink.name), ['github', 'webhook']);
+
+      await publishTickets([{ ...ticket, screenshotPaths: [] }], sinks);
+      assert.deepEqual(requests.map(request => request.url), ['/repos/acme/shop/issues', '/webhook']);
+    } finally {
+      delete process.env.GITHUB_TOKEN;
+      initConfig({ configPath: path.join(FIXTURES_DIR, 'config.json'), env: { REDACTION_ENABLED: 'false' } });
+    }
+  });
+});